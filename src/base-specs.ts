@@ -1,15 +1,25 @@
 /**
  * @file src/base-specs.ts
  * @description Предоставляет несколько базовых спецификаций ошибок (ErrorSpec) в качестве примеров.
- * @version 1.0.1
- * @date 2025-05-30
- * @updated Заменены типы 'any' на 'unknown' в контекстах. Добавлена пустая строка в конце файла.
+ * @version 1.8.1
+ * @date 2026-10-19
+ * @updated Поля контекста, передаваемые клиентам (publicContextKeys), для публичных базовых спецификаций.
  *
  * HISTORY:
+ * v1.8.1 (2026-10-19): publicContextKeys для INVALID_ARGUMENT_SPEC (без argumentValue) и NOT_IMPLEMENTED_SPEC.
+ * v1.8.0 (2026-10-19): Добавлены CONTEXT_VALIDATION_FAILED_SPEC и ContextValidationFailedContext; contextSchema для INVALID_ARGUMENT, OPERATION_FAILED, NOT_IMPLEMENTED и UNEXPECTED_ERROR.
+ * v1.7.0 (2026-10-19): Добавлены ERROR_CHAIN_MISMATCH_SPEC и ErrorChainMismatchContext.
+ * v1.6.0 (2026-10-19): Добавлены RETRY_EXHAUSTED_SPEC и RetryExhaustedContext.
+ * v1.5.0 (2026-10-19): category/retryable для INVALID_ARGUMENT, OPERATION_FAILED, NOT_IMPLEMENTED и UNEXPECTED_ERROR.
+ * v1.4.0 (2026-10-19): Добавлены RPC_ERROR_SPEC и RpcErrorContext.
+ * v1.3.0 (2026-10-19): httpStatus/visibility для базовых спецификаций, добавлены HTTP_PROBLEM_SPEC и HttpProblemContext.
+ * v1.2.0 (2026-10-19): Добавлены NON_ERROR_THROWN_SPEC и NonErrorThrownContext.
+ * v1.1.0 (2026-10-19): Добавлены SPEC_DUPLICATE_CODE_SPEC и SPEC_INVALID_CODE_SPEC.
  * v1.0.1 (2025-05-30): Заменены 'any' на 'unknown' в контекстах, eol-last.
  * v1.0.0 (2025-05-29): Начальная реализация базовых ErrorSpec.
  */
 
+import type { ContextValidationIssue } from './context-schema.js'
 import type { ErrorSpec } from './error-spec.js'
 
 // --- Контексты для базовых ошибок ---
@@ -41,6 +51,76 @@ export interface UnexpectedErrorContext {
   details?: Record<string, unknown>
 }
 
+/** Контекст для ошибки повторной регистрации кода спецификации. */
+export interface SpecDuplicateCodeContext {
+  code: string
+}
+
+/** Контекст для ошибки некорректного кода спецификации. */
+export interface SpecInvalidCodeContext {
+  code: string
+  reason: string
+}
+
+/** Контекст для выброшенного значения, не являющегося Error. */
+export interface NonErrorThrownContext {
+  /** Тип значения: результат `typeof`, а также `'null'` и `'array'`. */
+  valueType: string
+  /** Строковое представление значения (JSON или `String()`, не длиннее 200 символов). */
+  preview: string
+  /** Исходное значение как есть. */
+  value: unknown
+}
+
+/** Контекст для HTTP problem details без кода ошибки. */
+export interface HttpProblemContext {
+  status: number
+  title: string
+  detail?: string
+  type?: string
+}
+
+/** Контекст для ошибки gRPC / JSON-RPC без кода FabError. */
+export interface RpcErrorContext {
+  protocol: 'grpc' | 'json-rpc'
+  /** Код статуса gRPC или код ошибки JSON-RPC. */
+  code: number
+  message: string
+}
+
+/** Контекст для ошибки исчерпания попыток `retry()`. */
+export interface RetryExhaustedContext {
+  operationName: string
+  /** Число выполненных попыток. */
+  attempts: number
+  /** Причина остановки: `'max attempts reached'`, `'deadline exceeded'` или `'non-retryable error'`. */
+  reason: string
+  /** Общее время выполнения в миллисекундах. */
+  elapsedMs: number
+}
+
+/** Контекст для ошибки несоответствия цепочки ошибок в `checkErrorChain()`. */
+export interface ErrorChainMismatchContext {
+  /** Описание несоответствия (уровень, проверка, ожидаемое и фактическое значения). */
+  description: string
+  /** Индекс несовпавшего ожидаемого уровня. */
+  levelIndex: number
+  /** Непройденная проверка (`ErrorChainMismatchField`): `'code'`, `'type'`, `'message'`, `'chain'` и т.д. */
+  field: string
+  /** Режим сопоставления: `'exact'`, `'prefix'` или `'partial'`. */
+  mode: string
+}
+
+/** Контекст для ошибки нарушения схемы контекста (`ErrorSpec.contextSchema`). */
+export interface ContextValidationFailedContext {
+  /** Код ошибки, контекст которой не прошел проверку. */
+  errorCode: string
+  /** Нарушения схемы. */
+  issues: ContextValidationIssue[]
+  /** Краткое описание нарушений (`summarizeContextIssues`). */
+  summary: string
+}
+
 // --- Спецификации базовых ошибок ---
 
 /**
@@ -51,6 +131,12 @@ export interface UnexpectedErrorContext {
 export const INVALID_ARGUMENT_SPEC: ErrorSpec<InvalidArgumentContext> = {
   code: 'FAB_INVALID_ARGUMENT',
   messageTemplate: 'Invalid argument: {argumentName}. Reason: {reason}.',
+  contextSchema: { argumentName: 'string', argumentValue: 'unknown?', reason: 'string', expected: 'string?' },
+  publicContextKeys: ['argumentName', 'reason', 'expected'],
+  httpStatus: 400,
+  category: 'validation',
+  retryable: false,
+  visibility: 'public',
   docs: 'https://example.com/fab-errors-docs#invalid-argument' // Заменить на реальную ссылку
 }
 
@@ -63,6 +149,10 @@ export const INVALID_ARGUMENT_SPEC: ErrorSpec<InvalidArgumentContext> = {
 export const OPERATION_FAILED_SPEC: ErrorSpec<OperationFailedContext> = {
   code: 'FAB_OPERATION_FAILED',
   messageTemplate: 'Operation "{operationName}" failed. Reason: {reason}',
+  contextSchema: { operationName: 'string', reason: 'string?', details: 'object?' },
+  httpStatus: 500,
+  category: 'internal',
+  visibility: 'internal',
   docs: 'https://example.com/fab-errors-docs#operation-failed' // Заменить на реальную ссылку
 }
 
@@ -73,6 +163,12 @@ export const OPERATION_FAILED_SPEC: ErrorSpec<OperationFailedContext> = {
 export const NOT_IMPLEMENTED_SPEC: ErrorSpec<NotImplementedContext> = {
   code: 'FAB_NOT_IMPLEMENTED',
   messageTemplate: 'Feature not implemented: {featureName}.',
+  contextSchema: { featureName: 'string', plannedVersion: 'string?' },
+  publicContextKeys: ['featureName', 'plannedVersion'],
+  httpStatus: 501,
+  category: 'internal',
+  retryable: false,
+  visibility: 'public',
   docs: 'https://example.com/fab-errors-docs#not-implemented' // Заменить на реальную ссылку
 }
 
@@ -84,7 +180,99 @@ export const NOT_IMPLEMENTED_SPEC: ErrorSpec<NotImplementedContext> = {
 export const UNEXPECTED_ERROR_SPEC: ErrorSpec<UnexpectedErrorContext> = {
   code: 'FAB_UNEXPECTED_ERROR',
   messageTemplate: 'An unexpected error occurred during {situation}.',
+  contextSchema: { situation: 'string', details: 'object?' },
+  httpStatus: 500,
+  category: 'internal',
+  visibility: 'internal',
   docs: 'https://example.com/fab-errors-docs#unexpected-error' // Заменить на реальную ссылку
 }
 
+// --- Спецификации ошибок самой библиотеки ---
+
+/**
+ * Спецификация для ошибки: Код спецификации уже зарегистрирован.
+ * Возникает при регистрации в реестре другой спецификации с уже занятым кодом.
+ */
+export const SPEC_DUPLICATE_CODE_SPEC: ErrorSpec<SpecDuplicateCodeContext> = {
+  code: 'FAB_SPEC_DUPLICATE_CODE',
+  messageTemplate: 'Error spec code "{code}" is already registered by another spec.'
+}
+
+/**
+ * Спецификация для ошибки: Некорректный код спецификации.
+ * Возникает при регистрации спецификации, код которой не соответствует формату UPPER_SNAKE_CASE.
+ */
+export const SPEC_INVALID_CODE_SPEC: ErrorSpec<SpecInvalidCodeContext> = {
+  code: 'FAB_SPEC_INVALID_CODE',
+  messageTemplate: 'Invalid error spec code "{code}": {reason}.'
+}
+
+/**
+ * Спецификация для ошибки: Выброшено значение, не являющееся Error.
+ * Используется при нормализации `cause` и в `FabError.wrap()` / `toFabError()`, чтобы строки,
+ * простые объекты и другие значения, выброшенные через `throw` или `Promise.reject`,
+ * стали полноценным звеном цепочки ошибок. Исходное значение доступно в `context.value`.
+ */
+export const NON_ERROR_THROWN_SPEC: ErrorSpec<NonErrorThrownContext> = {
+  code: 'FAB_NON_ERROR_THROWN',
+  messageTemplate: 'Non-Error value thrown ({valueType}): {preview}'
+}
+
+/**
+ * Спецификация для ошибки: HTTP problem details без кода ошибки.
+ * Используется `fromProblemDetails()`, если тело ответа не содержит члена `code`.
+ */
+export const HTTP_PROBLEM_SPEC: ErrorSpec<HttpProblemContext> = {
+  code: 'FAB_HTTP_PROBLEM',
+  messageTemplate: 'HTTP {status}: {title}.',
+  visibility: 'public'
+}
+
+/**
+ * Спецификация для ошибки: Ошибка gRPC / JSON-RPC без кода FabError.
+ * Используется `fromGrpcStatus()` и `fromJsonRpcError()`, если объект ошибки не содержит кода `FabError`.
+ */
+export const RPC_ERROR_SPEC: ErrorSpec<RpcErrorContext> = {
+  code: 'FAB_RPC_ERROR',
+  messageTemplate: 'Remote {protocol} error {code}: {message}',
+  visibility: 'public'
+}
+
+/**
+ * Спецификация для ошибки: Попытки выполнения операции исчерпаны.
+ * Выбрасывается `retry()`, когда операция не удалась после повторов; ошибки всех попыток
+ * доступны в `errors` (`AggregateFabError`) в порядке попыток.
+ */
+export const RETRY_EXHAUSTED_SPEC: ErrorSpec<RetryExhaustedContext> = {
+  code: 'FAB_RETRY_EXHAUSTED',
+  messageTemplate: 'Operation "{operationName}" failed after {attempts} attempt(s): {reason}.',
+  httpStatus: 500,
+  visibility: 'internal',
+  category: 'internal',
+  retryable: false
+}
+
+/**
+ * Спецификация для ошибки: Цепочка ошибок не соответствует ожидаемой структуре.
+ * Выбрасывается `checkErrorChain()`; структурированный отчет без исключения возвращает `matchErrorChain()`.
+ */
+export const ERROR_CHAIN_MISMATCH_SPEC: ErrorSpec<ErrorChainMismatchContext> = {
+  code: 'FAB_ERROR_CHAIN_MISMATCH',
+  messageTemplate: '{description}',
+  category: 'validation',
+  retryable: false
+}
+
+/**
+ * Спецификация для ошибки: Контекст ошибки не соответствует схеме спецификации.
+ * Выбрасывается конструктором `FabError` при `contextValidation.onViolation: 'throw'`
+ * и передается в лог при `'warn'`.
+ */
+export const CONTEXT_VALIDATION_FAILED_SPEC: ErrorSpec<ContextValidationFailedContext> = {
+  code: 'FAB_CONTEXT_VALIDATION_FAILED',
+  messageTemplate: 'Invalid context for error "{errorCode}": {summary}.',
+  category: 'validation',
+  retryable: false
+}
+
 // END OF: src/base-specs.ts
@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+/**
+ * @file src/bin/fab-errors-catalog.ts
+ * @description Исполняемый файл `fab-errors-catalog`: экспорт каталога спецификаций ошибок.
+ * @version 1.0.0
+ * @date 2026-10-19
+ * @updated Начальная реализация.
+ *
+ * HISTORY:
+ * v1.0.0 (2026-10-19): Начальная реализация, запуск runCatalogCli.
+ */
+
+import { runCatalogCli } from '../catalog-cli.js'
+
+process.exitCode = await runCatalogCli(process.argv.slice(2))
+
+// END OF: src/bin/fab-errors-catalog.ts
@@ -0,0 +1,130 @@
+/**
+ * @file src/catalog-cli.ts
+ * @description Командная строка экспорта каталога спецификаций ошибок из экспортов модулей.
+ * @version 1.0.0
+ * @date 2026-10-19
+ * @updated Начальная реализация runCatalogCli.
+ *
+ * HISTORY:
+ * v1.0.0 (2026-10-19): Начальная реализация runCatalogCli (форматы json, schema, markdown; вывод в файл).
+ */
+
+import { writeFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { parseArgs } from 'node:util'
+import { createErrorCatalog, findErrorSpecs, toErrorCatalogJSONSchema, toErrorCatalogMarkdown } from './catalog.js'
+import type { ErrorSpec } from './error-spec.js'
+
+/**
+ * Форматы вывода командной строки.
+ */
+export type CatalogCliFormat = 'json' | 'schema' | 'markdown'
+
+/**
+ * Окружение командной строки (для тестов и встраивания).
+ */
+export interface CatalogCliIO {
+  /** Рабочий каталог, относительно которого разрешаются пути модулей и `--out`. По умолчанию `process.cwd()`. */
+  cwd?: string
+  /** Вывод результата. По умолчанию `process.stdout`. */
+  stdout?: (text: string) => void
+  /** Вывод сообщений об ошибках. По умолчанию `process.stderr`. */
+  stderr?: (text: string) => void
+}
+
+const CATALOG_CLI_FORMATS: readonly CatalogCliFormat[] = ['json', 'schema', 'markdown']
+
+const USAGE = `Usage: fab-errors-catalog <module...> [options]
+
+Exports error specs found in the modules' exports as a catalog.
+
+Options:
+  -f, --format <json|schema|markdown>  Output format (default: json)
+  -o, --out <file>                     Write output to a file instead of stdout
+  -t, --title <title>                  Title of the JSON Schema or Markdown page
+  -h, --help                           Show this help
+`
+
+/**
+ * Разобранные аргументы командной строки.
+ */
+interface ParsedCatalogCliArgs {
+  values: { format?: string, out?: string, title?: string, help?: boolean }
+  positionals: string[]
+}
+
+/**
+ * Разбирает аргументы командной строки; выбрасывает ошибку при неизвестных опциях.
+ */
+function parseCatalogCliArgs (args: string[]): ParsedCatalogCliArgs {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f' },
+      out: { type: 'string', short: 'o' },
+      title: { type: 'string', short: 't' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+}
+
+/**
+ * Запускает экспорт каталога: импортирует модули, собирает из их экспортов спецификации ошибок
+ * (`findErrorSpecs`) и выводит каталог в выбранном формате.
+ *
+ * @example
+ * // npx fab-errors-catalog ./dist/errors.js --format markdown --out docs/errors.md
+ * process.exitCode = await runCatalogCli(process.argv.slice(2))
+ *
+ * @param args Аргументы командной строки (без `node` и имени скрипта).
+ * @param io Окружение командной строки.
+ * @returns Код завершения: 0 при успехе, 1 при ошибке аргументов, импорта или экспорта.
+ */
+export async function runCatalogCli (args: string[], io: CatalogCliIO = {}): Promise<number> {
+  const cwd = io.cwd ?? process.cwd()
+  const stdout = io.stdout ?? ((text: string) => { process.stdout.write(text) })
+  const stderr = io.stderr ?? ((text: string) => { process.stderr.write(text) })
+
+  let parsed: ParsedCatalogCliArgs
+  try {
+    parsed = parseCatalogCliArgs(args)
+  } catch (error) {
+    stderr(`${(error as Error).message}\n\n${USAGE}`)
+    return 1
+  }
+  const { values, positionals } = parsed
+  if (values.help === true) {
+    stdout(USAGE)
+    return 0
+  }
+  const format = (values.format ?? 'json') as CatalogCliFormat
+  if (!CATALOG_CLI_FORMATS.includes(format) || positionals.length === 0) {
+    stderr(positionals.length === 0 ? `No modules specified.\n\n${USAGE}` : `Unknown format "${format}".\n\n${USAGE}`)
+    return 1
+  }
+
+  try {
+    const specs: Array<ErrorSpec<object>> = []
+    for (const modulePath of positionals) {
+      const moduleExports = await import(pathToFileURL(resolve(cwd, modulePath)).href) as object
+      specs.push(...findErrorSpecs(moduleExports))
+    }
+    const catalog = createErrorCatalog(specs)
+    const output = format === 'markdown'
+      ? toErrorCatalogMarkdown(catalog, { title: values.title })
+      : JSON.stringify(format === 'schema' ? toErrorCatalogJSONSchema(catalog, values.title) : catalog, null, 2) + '\n'
+    if (values.out !== undefined) {
+      await writeFile(resolve(cwd, values.out), output, 'utf8')
+    } else {
+      stdout(output)
+    }
+    return 0
+  } catch (error) {
+    stderr(`fab-errors-catalog: ${(error as Error).message}\n`)
+    return 1
+  }
+}
+
+// END OF: src/catalog-cli.ts
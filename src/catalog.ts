@@ -0,0 +1,292 @@
+/**
+ * @file src/catalog.ts
+ * @description Экспорт каталога спецификаций ошибок: JSON-каталог, JSON Schema и справочник в Markdown.
+ * @version 1.1.0
+ * @date 2026-10-19
+ * @updated Ключи и типы контекста из defaultContext, publicContextKeys и contextSchema.
+ *
+ * HISTORY:
+ * v1.1.0 (2026-10-19): contextKeys дополняются ключами defaultContext, publicContextKeys и contextSchema; в запись
+ *   добавлены publicContextKeys и contextSchema (DSL); JSON Schema описывает типы и обязательные поля контекста.
+ * v1.0.0 (2026-10-19): Начальная реализация createErrorCatalog, findErrorSpecs, toErrorCatalogJSONSchema и toErrorCatalogMarkdown.
+ */
+
+import { SPEC_DUPLICATE_CODE_SPEC } from './base-specs.js'
+import { config } from './config.js'
+import { type ContextFieldDefinition, toContextJSONSchema } from './context-schema.js'
+import type { ErrorCategory, ErrorSeverity, ErrorSpec, ErrorVisibility } from './error-spec.js'
+import { FabError } from './fab-error.js'
+import { redactValue } from './redaction.js'
+import type { GrpcStatusCode } from './rpc-status.js'
+import type { ErrorSpecRegistry } from './spec-registry.js'
+import { parseTemplatePlaceholders } from './utils.js'
+
+/**
+ * Описание одной спецификации в каталоге ошибок.
+ */
+export interface ErrorCatalogEntry {
+  code: string
+  messageTemplate: string
+  /** Пути плейсхолдеров шаблона сообщения (без повторов), например `['orderId', 'user.id']`. */
+  placeholders: string[]
+  /**
+   * Корневые ключи контекста (без повторов): из плейсхолдеров шаблона, `defaultContext`, `publicContextKeys`
+   * и `contextSchema`.
+   */
+  contextKeys: string[]
+  /** Поля контекста, передаваемые клиентам (`spec.publicContextKeys`). */
+  publicContextKeys?: string[]
+  /** Схема контекста во встроенном DSL (функции проверки в каталог не переносятся). */
+  contextSchema?: Record<string, ContextFieldDefinition>
+  /** Значения контекста по умолчанию (после маскирования по `spec.redact` и глобальной политике). */
+  defaultContext?: object
+  docs?: string
+  httpStatus?: number
+  visibility?: ErrorVisibility
+  grpcStatus?: GrpcStatusCode
+  jsonRpcCode?: number
+  severity?: ErrorSeverity
+  category?: ErrorCategory
+  retryable?: boolean
+  tags?: string[]
+}
+
+/**
+ * Каталог спецификаций ошибок (JSON-совместимый). Записи отсортированы по коду.
+ */
+export interface ErrorCatalog {
+  /** Версия формата каталога. */
+  version: 1
+  errors: ErrorCatalogEntry[]
+}
+
+/**
+ * Опции справочника в Markdown.
+ */
+export interface ErrorCatalogMarkdownOptions {
+  /** Заголовок страницы. По умолчанию `'Error Catalog'`. */
+  title?: string
+}
+
+/** Опциональные поля спецификации, переносимые в запись каталога как есть. */
+const COPIED_SPEC_FIELDS = [
+  'docs', 'httpStatus', 'visibility', 'grpcStatus', 'jsonRpcCode', 'severity', 'category', 'retryable'
+] as const
+
+/** Возможные значения `severity` (для JSON Schema). */
+const SEVERITY_VALUES: readonly ErrorSeverity[] = ['trace', 'debug', 'info', 'warn', 'error', 'fatal']
+
+/**
+ * Проверяет, является ли значение реестром спецификаций.
+ */
+function isErrorSpecRegistry (value: unknown): value is ErrorSpecRegistry {
+  return typeof value === 'object' && value !== null && typeof (value as { list?: unknown }).list === 'function'
+}
+
+/**
+ * Создает запись каталога по спецификации.
+ */
+function createEntry (spec: ErrorSpec<object>): ErrorCatalogEntry {
+  const placeholders = parseTemplatePlaceholders(spec.messageTemplate)
+  const contextSchema = typeof spec.contextSchema === 'object'
+    ? spec.contextSchema as Record<string, ContextFieldDefinition>
+    : undefined
+  const entry: ErrorCatalogEntry = {
+    code: spec.code,
+    messageTemplate: spec.messageTemplate,
+    placeholders: [...new Set(placeholders.map(placeholder => placeholder.path))],
+    contextKeys: [...new Set([
+      ...placeholders.map(placeholder => placeholder.root),
+      ...Object.keys(spec.defaultContext ?? {}),
+      ...(spec.publicContextKeys ?? []),
+      ...Object.keys(contextSchema ?? {})
+    ])]
+  }
+  if (spec.defaultContext !== undefined) {
+    entry.defaultContext = redactValue(spec.defaultContext, [spec.redact, config.redaction]) as object
+  }
+  if (spec.publicContextKeys !== undefined) {
+    entry.publicContextKeys = [...spec.publicContextKeys]
+  }
+  if (contextSchema !== undefined) {
+    entry.contextSchema = { ...contextSchema }
+  }
+  for (const field of COPIED_SPEC_FIELDS) {
+    if (spec[field] !== undefined) {
+      Object.assign(entry, { [field]: spec[field] })
+    }
+  }
+  if (spec.tags !== undefined) {
+    entry.tags = [...spec.tags]
+  }
+  return entry
+}
+
+/**
+ * Выбирает спецификации ошибок из экспортов модуля: объекты со строковыми полями `code`
+ * и `messageTemplate`. Прочие экспорты (функции, типы, константы) пропускаются.
+ *
+ * @example
+ * findErrorSpecs(await import('./errors.js'))
+ *
+ * @param moduleExports Объект пространства имен модуля (результат `import()`).
+ * @returns Найденные спецификации в порядке экспортов.
+ */
+export function findErrorSpecs (moduleExports: object): Array<ErrorSpec<object>> {
+  return Object.values(moduleExports).filter((value): value is ErrorSpec<object> =>
+    typeof value === 'object' && value !== null &&
+    typeof (value as { code?: unknown }).code === 'string' &&
+    typeof (value as { messageTemplate?: unknown }).messageTemplate === 'string'
+  )
+}
+
+/**
+ * Создает каталог ошибок из набора спецификаций или реестра. Повторы одного объекта спецификации
+ * (например, реэкспорт из нескольких модулей) учитываются один раз.
+ *
+ * @example
+ * const catalog = createErrorCatalog(defaultErrorSpecRegistry)
+ * await writeFile('errors.json', JSON.stringify(catalog, null, 2))
+ *
+ * @param source Спецификации или реестр (`ErrorSpecRegistry.list()`).
+ * @returns Каталог с записями, отсортированными по коду.
+ * @throws {FabError<SpecDuplicateCodeContext>} `FAB_SPEC_DUPLICATE_CODE`, если разные спецификации имеют один код.
+ * @deterministic Да, для того же набора спецификаций.
+ */
+export function createErrorCatalog (source: Iterable<ErrorSpec<object>> | ErrorSpecRegistry): ErrorCatalog {
+  const specs = isErrorSpecRegistry(source) ? source.list() : source
+  const byCode = new Map<string, ErrorSpec<object>>()
+  for (const spec of specs) {
+    const existing = byCode.get(spec.code)
+    if (existing !== undefined && existing !== spec) {
+      throw new FabError(SPEC_DUPLICATE_CODE_SPEC, { code: spec.code })
+    }
+    byCode.set(spec.code, spec)
+  }
+  const errors = [...byCode.values()]
+    .sort((a, b) => a.code < b.code ? -1 : a.code > b.code ? 1 : 0)
+    .map(createEntry)
+  return { version: 1, errors }
+}
+
+/**
+ * Строит схему контекста записи: поля из `contextSchema` с типами и обязательностью,
+ * остальные ключи `contextKeys` — без ограничений типа.
+ */
+function createContextSchema (entry: ErrorCatalogEntry): Record<string, unknown> {
+  const typed = toContextJSONSchema(entry.contextSchema ?? {})
+  const typedProperties = typed.properties as Record<string, unknown>
+  return {
+    ...typed,
+    properties: Object.fromEntries(entry.contextKeys.map(key => [key, typedProperties[key] ?? {}]))
+  }
+}
+
+/**
+ * Строит схему `FabErrorJSON` для одной записи каталога.
+ */
+function createEntrySchema (entry: ErrorCatalogEntry): Record<string, unknown> {
+  const constOrType = (value: unknown, type: string): Record<string, unknown> =>
+    value !== undefined ? { const: value } : { type }
+  return {
+    type: 'object',
+    description: entry.messageTemplate,
+    required: ['name', 'code', 'message', 'context', 'spec'],
+    properties: {
+      name: { type: 'string' },
+      code: { const: entry.code },
+      message: { type: 'string' },
+      context: createContextSchema(entry),
+      docs: constOrType(entry.docs, 'string'),
+      severity: entry.severity !== undefined ? { const: entry.severity } : { enum: SEVERITY_VALUES },
+      category: constOrType(entry.category, 'string'),
+      retryable: constOrType(entry.retryable, 'boolean'),
+      tags: { type: 'array', items: { type: 'string' } },
+      fingerprint: { type: 'string' },
+      stack: { type: 'string' },
+      frames: { type: 'array', items: { type: 'object' } },
+      spec: {
+        type: 'object',
+        required: ['code', 'messageTemplate'],
+        properties: {
+          code: { const: entry.code },
+          messageTemplate: { const: entry.messageTemplate }
+        }
+      },
+      cause: { type: 'object' },
+      errors: { type: 'array', items: { type: 'object' } }
+    }
+  }
+}
+
+/**
+ * Строит JSON Schema (draft 2020-12), описывающую `FabErrorJSON` (`error.toJSON()`) для каждого кода
+ * каталога: схема кода лежит в `$defs[code]`, корневая схема принимает любую из них (`oneOf`).
+ * В схеме закреплены `code`, `spec.code`, `spec.messageTemplate` и заданные в спецификации
+ * `docs`, `severity`, `category`, `retryable`; поля контекста перечислены по `contextKeys`, а поля
+ * из `contextSchema` (встроенный DSL) описаны с типами и обязательностью.
+ *
+ * @param catalog Каталог ошибок (`createErrorCatalog`).
+ * @param title Заголовок схемы. По умолчанию `'FabErrorJSON'`.
+ * @returns JSON-совместимый объект схемы.
+ * @deterministic Да.
+ */
+export function toErrorCatalogJSONSchema (catalog: ErrorCatalog, title = 'FabErrorJSON'): Record<string, unknown> {
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title,
+    oneOf: catalog.errors.map(entry => ({ $ref: `#/$defs/${entry.code}` })),
+    $defs: Object.fromEntries(catalog.errors.map(entry => [entry.code, createEntrySchema(entry)]))
+  }
+}
+
+/**
+ * Экранирует символы, нарушающие ячейку таблицы Markdown.
+ */
+function escapeTableCell (text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ')
+}
+
+/**
+ * Строит справочник ошибок в Markdown: оглавление и раздел на каждый код с шаблоном сообщения,
+ * полями контекста, таблицей свойств спецификации и ссылкой на документацию.
+ *
+ * @param catalog Каталог ошибок (`createErrorCatalog`).
+ * @param options Опции справочника.
+ * @returns Текст Markdown (с завершающим переводом строки).
+ * @deterministic Да.
+ */
+export function toErrorCatalogMarkdown (catalog: ErrorCatalog, options: ErrorCatalogMarkdownOptions = {}): string {
+  const lines = [`# ${options.title ?? 'Error Catalog'}`, '']
+  for (const entry of catalog.errors) {
+    lines.push(`- [\`${entry.code}\`](#${entry.code.toLowerCase()})`)
+  }
+  for (const entry of catalog.errors) {
+    lines.push('', `## ${entry.code}`, '', `Message: \`${entry.messageTemplate}\``)
+    if (entry.placeholders.length > 0) {
+      lines.push('', `Context: ${entry.placeholders.map(path => `\`${path}\``).join(', ')}`)
+    }
+    const properties: Array<[string, unknown]> = [
+      ['HTTP status', entry.httpStatus],
+      ['gRPC status', entry.grpcStatus],
+      ['JSON-RPC code', entry.jsonRpcCode],
+      ['Visibility', entry.visibility],
+      ['Severity', entry.severity],
+      ['Category', entry.category],
+      ['Retryable', entry.retryable],
+      ['Tags', entry.tags?.join(', ')],
+      ['Default context', entry.defaultContext !== undefined ? `\`${JSON.stringify(entry.defaultContext)}\`` : undefined]
+    ]
+    const rows = properties.filter(([, value]) => value !== undefined)
+    if (rows.length > 0) {
+      lines.push('', '| Property | Value |', '| --- | --- |')
+      lines.push(...rows.map(([name, value]) => `| ${name} | ${escapeTableCell(String(value))} |`))
+    }
+    if (entry.docs !== undefined) {
+      lines.push('', `Docs: <${entry.docs}>`)
+    }
+  }
+  return lines.join('\n') + '\n'
+}
+
+// END OF: src/catalog.ts
@@ -1,11 +1,24 @@
 /**
  * @file src/chain-utils.ts
  * @description Утилиты для работы с цепочками ошибок (Error.cause).
- * @version 1.0.8
- * @date 2025-05-30
- * @updated Добавлена пустая строка в конце файла (eol-last).
+ * @version 1.7.1
+ * @date 2026-10-19
+ * @updated matchErrorChain проверяет цепочку без ограничения глубины.
  *
  * HISTORY:
+ * v1.7.1 (2026-10-19): matchErrorChain проверяет цепочку cause без ограничения глубины; checkErrorChain не дублирует
+ *   проверку expectedChain.
+ * v1.7.0 (2026-10-19): Опция causesOnly в ErrorTreeTraversalOptions; matchErrorChain строит цепочку через getErrorChain.
+ * v1.6.1 (2026-10-19): checkErrorChain выбрасывает FabError FAB_INVALID_ARGUMENT вместо Error для некорректного expectedChain.
+ * v1.6.0 (2026-10-19): Добавлен matchErrorChain (отчет о несоответствии, режимы exact/prefix/partial);
+ *   checkErrorChain построена на нем и выбрасывает FabError FAB_ERROR_CHAIN_MISMATCH.
+ * v1.5.0 (2026-10-19): Добавлены findAllErrorsInChain, findErrorDepthInChain, getErrorChain и getRootCause.
+ * v1.4.0 (2026-10-19): ErrorCriteria: spec, context, RegExp/exactMessage, шаблоны кодов (DB_*), predicate,
+ *   anyOf/allOf/not; matchesCriteria экспортирована; добавлен findErrorInChain; checkErrorChain учитывает все критерии.
+ * v1.3.0 (2026-10-19): ErrorCriteria поддерживает severity, category, retryable и tags.
+ * v1.2.0 (2026-10-19): traverseErrorTree пропускает уже посещенные ошибки; checkErrorChain завершает цепочку на цикле.
+ * v1.1.0 (2026-10-19): Добавлены traverseErrorTree и getChildErrors; hasErrorInChain ищет во всех ветвях дерева,
+ *   checkErrorChain поддерживает ожидания для дочерних ошибок (errors).
  * v1.0.8 (2025-05-30): Исправлено правило eol-last.
  * v1.0.7 (2025-05-30): Изменен ErrorCriteria.type на `new (...args: any[]) => Error`. Добавлено явное присвоение confirmedError: Error.
  * v1.0.6 (2025-05-30): Исправления ESLint (no-unused-vars, no-explicit-any, space-before-function-paren), eol-last. (Версия из XML)
@@ -17,14 +30,40 @@
  * v1.0.0 (2025-05-29): Начальная реализация hasErrorInChain и checkErrorChain.
  */
 
-// FabError здесь не используется напрямую для проверок, работаем с общим Error
+// Критерии проверяются на общем Error; FabError нужен для критерия spec и ошибок несоответствия
+
+import { ERROR_CHAIN_MISMATCH_SPEC, INVALID_ARGUMENT_SPEC } from './base-specs.js'
+import type { ErrorCategory, ErrorSeverity, ErrorSpec } from './error-spec.js'
+import { FabError } from './fab-error.js'
+
+/**
+ * Частичный образец контекста для критерия `ErrorCriteria.context`: указанные поля сравниваются
+ * рекурсивно, строковые поля можно сравнивать с `RegExp`, массивы — поэлементно.
+ *
+ * @template T Тип контекста.
+ */
+export type ContextMatcher<T> = T extends readonly unknown[]
+  ? T
+  : T extends object
+    ? { readonly [K in keyof T]?: ContextMatcher<T[K]> }
+    : T | RegExp
 
 /**
- * Критерии для поиска ошибки в цепочке с помощью `hasErrorInChain`.
+ * Критерии для поиска ошибки в цепочке с помощью `hasErrorInChain` и `findErrorInChain`.
+ * Все указанные критерии должны выполняться для одной и той же ошибки.
+ *
+ * @template TContext Тип контекста для критериев `spec` и `context`.
  */
-export interface ErrorCriteria {
-  /** Ожидаемый код ошибки (свойство `code` у `FabError` или аналогичных). */
-  code?: string
+export interface ErrorCriteria<TContext extends object = object> {
+  /**
+   * Ожидаемый код ошибки (свойство `code` у `FabError` или аналогичных): точное значение, шаблон
+   * со звездочкой (`'DB_*'` — любой код с префиксом `DB_`) или `RegExp`.
+   */
+  code?: string | RegExp
+  /** Ожидаемая спецификация: ошибка должна быть `FabError` с кодом `spec.code`. */
+  spec?: ErrorSpec<TContext>
+  /** Частичный образец контекста (`context` у `FabError`), см. `ContextMatcher`. */
+  context?: ContextMatcher<TContext>
   /**
    * Ожидаемый тип/класс ошибки (сравнение через `instanceof`).
    * Использование 'any' для аргументов конструктора здесь для совместимости
@@ -35,148 +74,701 @@ export interface ErrorCriteria {
   /**
    * Ожидаемый фрагмент(ы) для поиска в сообщении ошибки (`error.message`).
    * Поиск регистронезависимый. Если массив, то все строки из массива должны присутствовать.
+   * `RegExp` проверяется как есть.
+   */
+  message?: string | string[] | RegExp
+  /** Ожидаемое сообщение целиком (точное совпадение с учетом регистра). */
+  exactMessage?: string
+  /** Ожидаемый уровень серьезности (свойство `severity` у `FabError`). */
+  severity?: ErrorSeverity
+  /** Ожидаемая категория (свойство `category` у `FabError`). */
+  category?: ErrorCategory
+  /**
+   * Ожидаемый признак временной ошибки. `false` соответствует и ошибкам без признака `retryable`.
    */
-  message?: string | string[]
+  retryable?: boolean
+  /** Ожидаемый тег или теги (свойство `tags` у `FabError`). Если массив, то должны присутствовать все теги. */
+  tags?: string | string[]
+  /** Произвольная проверка ошибки. */
+  predicate?: (error: Error) => boolean
+  /** Ошибка должна соответствовать хотя бы одному из критериев. */
+  anyOf?: ErrorCriteria[]
+  /** Ошибка должна соответствовать всем критериям. */
+  allOf?: ErrorCriteria[]
+  /** Ошибка не должна соответствовать критериям. */
+  not?: ErrorCriteria
 }
 
 /**
  * Описание ожидаемого уровня в цепочке ошибок для функции `checkErrorChain`.
  */
 export interface ExpectedChainLevel extends ErrorCriteria {
-  // Наследует code, type, message от ErrorCriteria
+  // Наследует все критерии ErrorCriteria (code, type, message, context, комбинаторы и т.д.)
+  /**
+   * Ожидаемые цепочки дочерних ошибок уровня (`errors` у `AggregateFabError` / `AggregateError`):
+   * по одной цепочке на каждую дочернюю ошибку, в том же порядке.
+   */
+  errors?: ExpectedChainLevel[][]
 }
 
 /**
- * Проверяет, присутствует ли в цепочке ошибок (начиная с `error` и далее по `error.cause`)
- * ошибка, соответствующая указанным критериям.
- *
- * @param error Начальная ошибка для проверки.
- * @param criteria Объект с критериями поиска (`code`, `type`, `message`).
- * @returns `true`, если ошибка, соответствующая критериям, найдена в цепочке, иначе `false`.
- * @deterministic Да, для той же ошибки и критериев.
+ * Режим сопоставления цепочки с ожидаемыми уровнями:
+ * - `'exact'` — уровни описывают всю цепочку `cause`, лишние уровни цепочки считаются несоответствием;
+ * - `'prefix'` — уровни описывают начало цепочки, более глубокие уровни допускаются;
+ * - `'partial'` — уровни встречаются в цепочке в том же порядке, но не обязательно подряд.
  */
-export function hasErrorInChain (error: Error | undefined | null, criteria: ErrorCriteria): boolean {
-  let currentError: Error | undefined | null = error
+export type ErrorChainMatchMode = 'exact' | 'prefix' | 'partial'
 
-  while (currentError) {
-    let codeMatch = true
-    if (criteria.code !== undefined) {
-      const errorWithCode = currentError as { code?: unknown }
-      codeMatch = typeof errorWithCode.code === 'string' && errorWithCode.code === criteria.code
-    }
+/**
+ * Опции сопоставления цепочки для `matchErrorChain` и `checkErrorChain`.
+ */
+export interface ErrorChainMatchOptions {
+  /** Режим сопоставления; применяется и к цепочкам дочерних ошибок. По умолчанию `'exact'`. */
+  mode?: ErrorChainMatchMode
+}
 
-    let typeMatch = true
-    if (criteria.type !== undefined) {
-      typeMatch = currentError instanceof criteria.type
-    }
+/**
+ * Проверка, на которой уровень не совпал:
+ * - `'chain'` — подходящей ошибки нет (цепочка закончилась или, в режиме `'partial'`, не подошла ни одна ошибка);
+ * - `'code'`, `'type'`, `'message'`, `'exactMessage'` — соответствующий критерий уровня;
+ * - `'criteria'` — остальные критерии (spec, context, метаданные, predicate, комбинаторы);
+ * - `'errors'` — число дочерних ошибок или цепочка одной из них (см. `childIndex`);
+ * - `'extraLevels'` — в режиме `'exact'` цепочка длиннее ожидаемой.
+ */
+export type ErrorChainMismatchField =
+  | 'chain'
+  | 'code'
+  | 'type'
+  | 'message'
+  | 'exactMessage'
+  | 'criteria'
+  | 'errors'
+  | 'extraLevels'
 
-    let messageMatch = true
-    if (criteria.message !== undefined) {
-      if (typeof currentError.message === 'string') {
-        const currentMessageLower = currentError.message.toLowerCase()
-        const expectedMessages = Array.isArray(criteria.message) ? criteria.message : [criteria.message]
-        messageMatch = expectedMessages.every(msg =>
-          typeof msg === 'string' && currentMessageLower.includes(msg.toLowerCase())
-        )
-      } else {
-        messageMatch = false
+/**
+ * Описание первого несоответствия цепочки ожидаемым уровням.
+ */
+export interface ErrorChainMismatch {
+  /** Индекс ожидаемого уровня (для `'extraLevels'` — число ожидаемых уровней). */
+  levelIndex: number
+  /** Позиция ошибки в цепочке `cause` (в режиме `'partial'` может отличаться от `levelIndex`). */
+  chainIndex: number
+  /** Проверка, которая не прошла. */
+  field: ErrorChainMismatchField
+  /** Ожидаемое значение (критерий уровня, число дочерних ошибок или уровней). */
+  expected: unknown
+  /** Фактическое значение (код, конструктор, сообщение, ошибка, число дочерних ошибок или уровней). */
+  actual: unknown
+  /** Индекс дочерней ошибки, цепочка которой не совпала. */
+  childIndex?: number
+  /** Несоответствие в цепочке дочерней ошибки `childIndex` (с позициями внутри дочерней цепочки). */
+  childMismatch?: ErrorChainMismatch
+  /** Текстовое описание несоответствия (сообщение ошибки `checkErrorChain`). */
+  description: string
+}
+
+/**
+ * Отчет `matchErrorChain` о сопоставлении цепочки с ожидаемыми уровнями.
+ */
+export interface ErrorChainMatchResult {
+  /** `true`, если цепочка соответствует всем ожидаемым уровням в выбранном режиме. */
+  matched: boolean
+  /** Число ожидаемых уровней, сопоставленных до первого несоответствия. */
+  matchedLevels: number
+  /** Первое несоответствие (отсутствует при `matched: true`). */
+  mismatch?: ErrorChainMismatch
+  /** Ожидаемые уровни, оставшиеся несопоставленными, начиная с несовпавшего. */
+  unmatchedLevels: ExpectedChainLevel[]
+  /** Ошибки цепочки после последнего сопоставленного уровня (заполняется, если сопоставлены все уровни). */
+  remainingErrors: Error[]
+}
+
+/**
+ * Опции обхода дерева ошибок.
+ */
+export interface ErrorTreeTraversalOptions {
+  /**
+   * Максимальная глубина обхода: корневая ошибка имеет глубину 0, ее `cause` и `errors` — 1 и т.д.
+   * Более глубокие ошибки не посещаются. По умолчанию `DEFAULT_MAX_ERROR_TREE_DEPTH`.
+   */
+  maxDepth?: number
+  /**
+   * Обходить только ветвь `cause` (линейная цепочка причин без дочерних `errors`). По умолчанию `false`.
+   */
+  causesOnly?: boolean
+}
+
+/**
+ * Узел дерева ошибок, посещаемый `traverseErrorTree`.
+ */
+export interface ErrorTreeNode {
+  error: Error
+  /** Глубина узла (0 для корневой ошибки). */
+  depth: number
+}
+
+/** Глубина обхода дерева ошибок по умолчанию. */
+export const DEFAULT_MAX_ERROR_TREE_DEPTH = 100
+
+/**
+ * Возвращает непосредственные дочерние ошибки: сначала `cause`, затем элементы `errors`
+ * (у `AggregateFabError`, стандартного `AggregateError` и аналогичных). Значения, не являющиеся `Error`, пропускаются.
+ *
+ * @param error Ошибка.
+ * @returns Массив дочерних ошибок.
+ * @deterministic Да, для той же ошибки.
+ */
+export function getChildErrors (error: Error): Error[] {
+  const children: Error[] = []
+  if (error.cause instanceof Error) {
+    children.push(error.cause)
+  }
+  const errors: unknown = (error as { errors?: unknown }).errors
+  if (Array.isArray(errors)) {
+    for (const child of errors) {
+      if (child instanceof Error) {
+        children.push(child)
       }
     }
+  }
+  return children
+}
+
+/**
+ * Обходит дерево ошибок в глубину (pre-order): сама ошибка, затем ветвь `cause`, затем ветви `errors`.
+ * Каждая ошибка посещается не более одного раза, поэтому циклические ссылки (например, `error.cause = error`)
+ * не приводят к зацикливанию.
+ *
+ * @param error Корневая ошибка.
+ * @param options Опции обхода (максимальная глубина, только ветвь `cause`).
+ * @returns Итератор по узлам дерева.
+ */
+export function * traverseErrorTree (
+  error: Error | undefined | null,
+  options: ErrorTreeTraversalOptions = {}
+): Generator<ErrorTreeNode> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_ERROR_TREE_DEPTH
+  const stack: ErrorTreeNode[] = error ? [{ error, depth: 0 }] : []
+  const visited = new Set<Error>()
 
-    if (codeMatch && typeMatch && messageMatch) {
-      return true
+  while (stack.length > 0) {
+    const node = stack.pop() as ErrorTreeNode
+    if (node.depth > maxDepth || visited.has(node.error)) {
+      continue
     }
+    visited.add(node.error)
+    yield node
+    const children = options.causesOnly === true
+      ? (node.error.cause instanceof Error ? [node.error.cause] : [])
+      : getChildErrors(node.error)
+    for (let index = children.length - 1; index >= 0; index--) {
+      stack.push({ error: children[index], depth: node.depth + 1 })
+    }
+  }
+}
 
-    const cause = currentError.cause
-    if (cause instanceof Error) {
-      currentError = cause
-    } else {
-      currentError = undefined
+/**
+ * Проверяет код ошибки: точное значение, шаблон со звездочкой или `RegExp`.
+ */
+function matchesCode (code: unknown, expected: string | RegExp): boolean {
+  if (typeof code !== 'string') {
+    return false
+  }
+  if (expected instanceof RegExp) {
+    return testPattern(expected, code)
+  }
+  if (!expected.includes('*')) {
+    return code === expected
+  }
+  const pattern = expected.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*')
+  return new RegExp(`^${pattern}$`).test(code)
+}
+
+/**
+ * Проверяет строку по `RegExp`, сбрасывая `lastIndex` у выражений с флагами `g`/`y`.
+ */
+function testPattern (pattern: RegExp, value: string): boolean {
+  pattern.lastIndex = 0
+  return pattern.test(value)
+}
+
+/**
+ * Проверяет сообщение: регистронезависимое вхождение всех фрагментов или `RegExp`.
+ */
+function matchesMessage (message: unknown, expected: string | string[] | RegExp): boolean {
+  if (typeof message !== 'string') {
+    return false
+  }
+  if (expected instanceof RegExp) {
+    return testPattern(expected, message)
+  }
+  const messageLower = message.toLowerCase()
+  const expectedMessages = Array.isArray(expected) ? expected : [expected]
+  return expectedMessages.every(msg => typeof msg === 'string' && messageLower.includes(msg.toLowerCase()))
+}
+
+/**
+ * Рекурсивно сравнивает значение с частичным образцом (`ContextMatcher`).
+ */
+function matchesContext (actual: unknown, expected: unknown): boolean {
+  if (expected instanceof RegExp) {
+    return typeof actual === 'string' ? testPattern(expected, actual) : String(actual) === String(expected)
+  }
+  if (expected instanceof Date) {
+    return actual instanceof Date && actual.getTime() === expected.getTime()
+  }
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length &&
+      expected.every((item, index) => matchesContext(actual[index], item))
+  }
+  if (typeof expected === 'object' && expected !== null && Object.getPrototypeOf(expected) === Object.prototype) {
+    if (typeof actual !== 'object' || actual === null) {
+      return false
+    }
+    return Object.entries(expected).every(([key, value]) =>
+      matchesContext((actual as Record<string, unknown>)[key], value))
+  }
+  return Object.is(actual, expected)
+}
+
+/**
+ * Проверяет, соответствует ли одна ошибка критериям (без обхода цепочки).
+ * Используется `hasErrorInChain`, `findErrorInChain` и `checkErrorChain`.
+ *
+ * @param error Проверяемая ошибка.
+ * @param criteria Критерии.
+ * @returns `true`, если ошибка соответствует всем указанным критериям.
+ */
+export function matchesCriteria<TContext extends object> (error: Error, criteria: ErrorCriteria<TContext>): boolean {
+  const candidate = error as {
+    code?: unknown
+    context?: unknown
+    severity?: unknown
+    category?: unknown
+    retryable?: unknown
+    tags?: unknown
+  }
+
+  if (criteria.code !== undefined && !matchesCode(candidate.code, criteria.code)) {
+    return false
+  }
+  if (criteria.spec !== undefined && !(error instanceof FabError && error.code === criteria.spec.code)) {
+    return false
+  }
+  if (criteria.type !== undefined && !(error instanceof criteria.type)) {
+    return false
+  }
+  if (criteria.message !== undefined && !matchesMessage(error.message, criteria.message)) {
+    return false
+  }
+  if (criteria.exactMessage !== undefined && error.message !== criteria.exactMessage) {
+    return false
+  }
+  if (criteria.context !== undefined && !matchesContext(candidate.context, criteria.context)) {
+    return false
+  }
+
+  if (criteria.severity !== undefined && candidate.severity !== criteria.severity) {
+    return false
+  }
+  if (criteria.category !== undefined && candidate.category !== criteria.category) {
+    return false
+  }
+  if (criteria.retryable !== undefined && (candidate.retryable === true) !== criteria.retryable) {
+    return false
+  }
+  if (criteria.tags !== undefined) {
+    const tags: unknown[] = Array.isArray(candidate.tags) ? candidate.tags : []
+    const expectedTags = Array.isArray(criteria.tags) ? criteria.tags : [criteria.tags]
+    if (!expectedTags.every(tag => tags.includes(tag))) {
+      return false
     }
   }
 
-  return false
+  if (criteria.predicate !== undefined && !criteria.predicate(error)) {
+    return false
+  }
+  if (criteria.anyOf !== undefined && !criteria.anyOf.some(item => matchesCriteria(error, item))) {
+    return false
+  }
+  if (criteria.allOf !== undefined && !criteria.allOf.every(item => matchesCriteria(error, item))) {
+    return false
+  }
+  if (criteria.not !== undefined && matchesCriteria(error, criteria.not)) {
+    return false
+  }
+
+  return true
 }
 
 /**
- * Проверяет, соответствует ли цепочка ошибок (начиная с `error` и далее по `error.cause`)
- * ожидаемой структуре, описанной в `expectedChain`.
+ * Проверяет, присутствует ли в дереве ошибок (начиная с `error` и далее по `error.cause`
+ * и дочерним `errors`) ошибка, соответствующая указанным критериям. Ветви обходятся в глубину.
  *
  * @param error Начальная ошибка для проверки.
- * @param expectedChain Массив объектов `ExpectedChainLevel`, описывающих каждый ожидаемый уровень цепочки.
- * @returns `true`, если цепочка полностью соответствует ожиданиям.
- * @throws `Error` если цепочка не соответствует ожиданиям (сообщение содержит детали несоответствия).
- * @deterministic Да, для той же ошибки и ожидаемой цепочки.
+ * @param criteria Объект с критериями поиска (см. `ErrorCriteria`).
+ * @param options Опции обхода (максимальная глубина).
+ * @returns `true`, если ошибка, соответствующая критериям, найдена в любой ветви, иначе `false`.
+ * @deterministic Да, для той же ошибки и критериев.
  */
-export function checkErrorChain (error: Error | undefined | null, expectedChain: ExpectedChainLevel[]): boolean {
-  let currentErrorInChain: Error | undefined | null = error
-  let levelIndex = 0
+export function hasErrorInChain<TContext extends object> (
+  error: Error | undefined | null,
+  criteria: ErrorCriteria<TContext>,
+  options: ErrorTreeTraversalOptions = {}
+): boolean {
+  return findErrorInChain(error, criteria, options) !== undefined
+}
 
-  if (!Array.isArray(expectedChain)) {
-    throw new Error('checkErrorChain: expectedChain must be an array.')
+/**
+ * Возвращает первую ошибку дерева (обход в глубину, как в `hasErrorInChain`), соответствующую критериям.
+ * Если задан критерий `spec`, результат типизирован как `FabError` с контекстом этой спецификации.
+ *
+ * @example
+ * const timeout = findErrorInChain(error, { spec: TIMEOUT_SPEC, context: { service: /^billing/ } })
+ * timeout?.context.service
+ *
+ * @param error Начальная ошибка.
+ * @param criteria Критерии поиска (см. `ErrorCriteria`).
+ * @param options Опции обхода (максимальная глубина).
+ * @returns Найденная ошибка или `undefined`.
+ * @deterministic Да, для той же ошибки и критериев.
+ */
+export function findErrorInChain<TContext extends object> (
+  error: Error | undefined | null,
+  criteria: ErrorCriteria<TContext> & { spec: ErrorSpec<TContext> },
+  options?: ErrorTreeTraversalOptions
+): FabError<TContext> | undefined
+export function findErrorInChain<TContext extends object> (
+  error: Error | undefined | null,
+  criteria: ErrorCriteria<TContext>,
+  options?: ErrorTreeTraversalOptions
+): Error | undefined
+export function findErrorInChain<TContext extends object> (
+  error: Error | undefined | null,
+  criteria: ErrorCriteria<TContext>,
+  options: ErrorTreeTraversalOptions = {}
+): Error | undefined {
+  for (const node of traverseErrorTree(error, options)) {
+    if (matchesCriteria(node.error, criteria)) {
+      return node.error
+    }
   }
+  return undefined
+}
 
-  for (levelIndex = 0; levelIndex < expectedChain.length; levelIndex++) {
-    const expectedLevel = expectedChain[levelIndex]
-    const errorPrefix = `Error chain mismatch at level ${levelIndex}`
-
-    const errorForThisIteration = currentErrorInChain
-    if (!errorForThisIteration) {
-      throw new Error(`${errorPrefix}: Expected level with code '${expectedLevel.code || 'any'}' but error chain ended.`)
+/**
+ * Возвращает все ошибки дерева, соответствующие критериям, в порядке обхода в глубину.
+ * Если задан критерий `spec`, результат типизирован как массив `FabError` с контекстом этой спецификации.
+ *
+ * @param error Начальная ошибка.
+ * @param criteria Критерии поиска (см. `ErrorCriteria`).
+ * @param options Опции обхода (максимальная глубина).
+ * @returns Массив найденных ошибок (пустой, если совпадений нет).
+ * @deterministic Да, для той же ошибки и критериев.
+ */
+export function findAllErrorsInChain<TContext extends object> (
+  error: Error | undefined | null,
+  criteria: ErrorCriteria<TContext> & { spec: ErrorSpec<TContext> },
+  options?: ErrorTreeTraversalOptions
+): Array<FabError<TContext>>
+export function findAllErrorsInChain<TContext extends object> (
+  error: Error | undefined | null,
+  criteria: ErrorCriteria<TContext>,
+  options?: ErrorTreeTraversalOptions
+): Error[]
+export function findAllErrorsInChain<TContext extends object> (
+  error: Error | undefined | null,
+  criteria: ErrorCriteria<TContext>,
+  options: ErrorTreeTraversalOptions = {}
+): Error[] {
+  const matches: Error[] = []
+  for (const node of traverseErrorTree(error, options)) {
+    if (matchesCriteria(node.error, criteria)) {
+      matches.push(node.error)
     }
-    // На этом этапе TypeScript должен знать, что errorForThisIteration это Error.
+  }
+  return matches
+}
 
-    // 1. Проверка кода ошибки (если указан)
-    if (expectedLevel.code !== undefined) {
-      const errorWithCode = errorForThisIteration as { code?: unknown }
-      if (typeof errorWithCode.code !== 'string' || errorWithCode.code !== expectedLevel.code) {
-        throw new Error(`${errorPrefix}: Expected code '${expectedLevel.code}', got '${String(errorWithCode.code) || 'undefined'}'. Message: "${errorForThisIteration.message}"`)
-      }
+/**
+ * Возвращает глубину первой ошибки дерева, соответствующей критериям (0 — сама `error`, 1 — ее `cause`
+ * или элемент `errors` и т.д.), аналогично `Array.prototype.findIndex`.
+ *
+ * @param error Начальная ошибка.
+ * @param criteria Критерии поиска (см. `ErrorCriteria`).
+ * @param options Опции обхода (максимальная глубина).
+ * @returns Глубина найденной ошибки или `-1`, если совпадений нет.
+ * @deterministic Да, для той же ошибки и критериев.
+ */
+export function findErrorDepthInChain<TContext extends object> (
+  error: Error | undefined | null,
+  criteria: ErrorCriteria<TContext>,
+  options: ErrorTreeTraversalOptions = {}
+): number {
+  for (const node of traverseErrorTree(error, options)) {
+    if (matchesCriteria(node.error, criteria)) {
+      return node.depth
     }
+  }
+  return -1
+}
 
-    // 2. Проверка типа ошибки (если указан)
-    if (expectedLevel.type !== undefined) {
-      if (!(errorForThisIteration instanceof expectedLevel.type)) {
-        // Явно присваиваем переменной с типом Error, чтобы помочь TS, если он "теряет" сужение.
-        const confirmedError: Error = errorForThisIteration
+/**
+ * Возвращает все ошибки дерева (`cause` и `errors`, включая ошибки, не являющиеся `FabError`)
+ * в виде плоского массива в порядке обхода в глубину. Каждая ошибка входит в массив один раз.
+ * С `causesOnly: true` возвращает линейную цепочку `cause`, которую проверяет `matchErrorChain`.
+ *
+ * @param error Начальная ошибка.
+ * @param options Опции обхода (максимальная глубина, только ветвь `cause`).
+ * @returns Массив ошибок, начиная с самой `error`; пустой для `null`/`undefined`.
+ * @deterministic Да, для той же ошибки.
+ */
+export function getErrorChain (error: Error | undefined | null, options: ErrorTreeTraversalOptions = {}): Error[] {
+  return Array.from(traverseErrorTree(error, options), node => node.error)
+}
 
-        const actualTypeName = confirmedError.constructor.name
-        const actualMessage = confirmedError.message
-        throw new Error(`${errorPrefix}: Expected type '${expectedLevel.type.name}', got '${actualTypeName}'. Message: "${actualMessage}"`)
-      }
+/**
+ * Возвращает первопричину: последнюю ошибку в цепочке `cause` (дочерние `errors` не учитываются).
+ * Значение `cause`, не являющееся `Error`, и циклическая ссылка завершают цепочку.
+ *
+ * @param error Начальная ошибка.
+ * @returns Первопричина (сама `error`, если у нее нет `cause`) или `undefined` для `null`/`undefined`.
+ * @deterministic Да, для той же ошибки.
+ */
+export function getRootCause (error: Error | undefined | null): Error | undefined {
+  if (!error) {
+    return undefined
+  }
+  const visited = new Set<Error>([error])
+  let current = error
+  while (current.cause instanceof Error && !visited.has(current.cause)) {
+    current = current.cause
+    visited.add(current)
+  }
+  return current
+}
+
+/**
+ * Проверяет одну ошибку на соответствие ожидаемому уровню в порядке: код, тип, сообщение, точное сообщение,
+ * остальные критерии, дочерние ошибки. Возвращает первое несоответствие или `undefined`.
+ */
+function findLevelMismatch (
+  error: Error,
+  expectedLevel: ExpectedChainLevel,
+  levelIndex: number,
+  chainIndex: number,
+  options: ErrorChainMatchOptions
+): ErrorChainMismatch | undefined {
+  const errorPrefix = `Error chain mismatch at level ${levelIndex}`
+  const mismatch = (
+    field: ErrorChainMismatchField,
+    expected: unknown,
+    actual: unknown,
+    details: string
+  ): ErrorChainMismatch => ({ levelIndex, chainIndex, field, expected, actual, description: `${errorPrefix}: ${details}` })
+
+  // 1. Проверка кода ошибки (если указан)
+  if (expectedLevel.code !== undefined) {
+    const actualCode = (error as { code?: unknown }).code
+    if (!matchesCode(actualCode, expectedLevel.code)) {
+      return mismatch('code', expectedLevel.code, actualCode,
+        `Expected code '${String(expectedLevel.code)}', got '${String(actualCode) || 'undefined'}'. Message: "${error.message}"`)
     }
+  }
+
+  // 2. Проверка типа ошибки (если указан)
+  if (expectedLevel.type !== undefined && !(error instanceof expectedLevel.type)) {
+    // Явная аннотация: после отрицательной проверки instanceof TypeScript сужает error до never
+    const confirmedError: Error = error
+    return mismatch('type', expectedLevel.type, confirmedError.constructor,
+      `Expected type '${expectedLevel.type.name}', got '${confirmedError.constructor.name}'. Message: "${confirmedError.message}"`)
+  }
 
-    // 3. Проверка содержания сообщения (если указано)
-    if (expectedLevel.message !== undefined) {
-      // errorForThisIteration здесь также должен быть Error
-      const errorWithMessage = errorForThisIteration as { message?: unknown, code?: unknown }
-      if (typeof errorWithMessage.message !== 'string') {
-        throw new Error(`${errorPrefix}: Error message is not a string or missing for code '${String(errorWithMessage.code) || 'unknown'}'.`)
+  // 3. Проверка содержания сообщения (если указано)
+  if (expectedLevel.message !== undefined) {
+    const errorWithMessage = error as { message?: unknown, code?: unknown }
+    if (typeof errorWithMessage.message !== 'string') {
+      return mismatch('message', expectedLevel.message, errorWithMessage.message,
+        `Error message is not a string or missing for code '${String(errorWithMessage.code) || 'unknown'}'.`)
+    }
+    if (expectedLevel.message instanceof RegExp) {
+      if (!testPattern(expectedLevel.message, errorWithMessage.message)) {
+        return mismatch('message', expectedLevel.message, errorWithMessage.message,
+          `Message does not match ${String(expectedLevel.message)}. Full message: "${errorWithMessage.message}"`)
       }
+    } else {
       const currentMessageLower = errorWithMessage.message.toLowerCase()
       const expectedMessages = Array.isArray(expectedLevel.message) ? expectedLevel.message : [expectedLevel.message]
-
       for (const expectedMsg of expectedMessages) {
         if (typeof expectedMsg !== 'string' || !currentMessageLower.includes(expectedMsg.toLowerCase())) {
-          throw new Error(`${errorPrefix}: Message does not contain expected text '${expectedMsg}'. Full message: "${errorWithMessage.message}"`)
+          return mismatch('message', expectedLevel.message, errorWithMessage.message,
+            `Message does not contain expected text '${expectedMsg}'. Full message: "${errorWithMessage.message}"`)
+        }
+      }
+    }
+  }
+  if (expectedLevel.exactMessage !== undefined && error.message !== expectedLevel.exactMessage) {
+    return mismatch('exactMessage', expectedLevel.exactMessage, error.message,
+      `Expected message "${expectedLevel.exactMessage}", got "${error.message}"`)
+  }
+
+  // 4. Проверка остальных критериев (spec, context, метаданные, predicate, комбинаторы)
+  const { code: _code, type: _type, message: _message, exactMessage: _exactMessage, errors: _errors, ...otherCriteria } = expectedLevel
+  if (!matchesCriteria(error, otherCriteria)) {
+    return mismatch('criteria', otherCriteria, error,
+      `Error does not match criteria (${Object.keys(otherCriteria).join(', ')}). Message: "${error.message}"`)
+  }
+
+  // 5. Проверка дочерних ошибок (если указаны)
+  if (expectedLevel.errors !== undefined) {
+    const children: unknown = (error as { errors?: unknown }).errors
+    const actualCount = Array.isArray(children) ? children.length : 0
+    if (!Array.isArray(children) || children.length !== expectedLevel.errors.length) {
+      return mismatch('errors', expectedLevel.errors.length, actualCount,
+        `Expected ${expectedLevel.errors.length} child errors, got ${actualCount}. Message: "${error.message}"`)
+    }
+    for (const [childIndex, expectedChildChain] of expectedLevel.errors.entries()) {
+      const child: unknown = children[childIndex]
+      const childMismatch = matchErrorChain(child instanceof Error ? child : undefined, expectedChildChain, options).mismatch
+      if (childMismatch !== undefined) {
+        return {
+          ...mismatch('errors', expectedChildChain, child, `errors[${childIndex}]: ${childMismatch.description}`),
+          childIndex,
+          childMismatch
         }
       }
     }
+  }
+
+  return undefined
+}
 
-    const cause = errorForThisIteration.cause
-    if (cause instanceof Error) {
-      currentErrorInChain = cause
+/**
+ * Сопоставляет цепочку ошибок (начиная с `error` и далее по `error.cause`) с ожидаемыми уровнями
+ * `expectedChain` и возвращает структурированный отчет, не выбрасывая исключений.
+ *
+ * Каждый уровень проверяется по всем критериям `ErrorCriteria` (как в `hasErrorInChain`), дочерние
+ * ошибки (`errors`) — если для уровня задано `errors`. Цепочка `cause` проверяется целиком, без ограничения
+ * глубины `DEFAULT_MAX_ERROR_TREE_DEPTH`; ссылка `cause` на уже пройденный уровень (циклическая цепочка)
+ * считается концом цепочки. Режим `options.mode` определяет, должны ли уровни
+ * покрывать всю цепочку (`'exact'`), ее начало (`'prefix'`) или встречаться в ней по порядку (`'partial'`).
+ *
+ * @example
+ * const result = matchErrorChain(error, [{ code: 'API_*' }, { spec: DB_TIMEOUT_SPEC }], { mode: 'partial' })
+ * if (!result.matched) {
+ *   logger.warn({ mismatch: result.mismatch?.field, level: result.mismatch?.levelIndex }, 'Unexpected error chain')
+ * }
+ *
+ * @param error Начальная ошибка для проверки.
+ * @param expectedChain Массив объектов `ExpectedChainLevel`, описывающих ожидаемые уровни цепочки.
+ * @param options Опции сопоставления (режим).
+ * @returns Отчет о сопоставлении; при несоответствии `mismatch` описывает первый несовпавший уровень.
+ * @throws {FabError} `FAB_INVALID_ARGUMENT`, если `expectedChain` не является массивом.
+ * @deterministic Да, для той же ошибки, ожидаемой цепочки и опций.
+ */
+export function matchErrorChain (
+  error: Error | undefined | null,
+  expectedChain: ExpectedChainLevel[],
+  options: ErrorChainMatchOptions = {}
+): ErrorChainMatchResult {
+  if (!Array.isArray(expectedChain)) {
+    throw new FabError(INVALID_ARGUMENT_SPEC, {
+      argumentName: 'expectedChain',
+      argumentValue: expectedChain,
+      reason: 'Expected an array of chain levels'
+    })
+  }
+
+  const mode = options.mode ?? 'exact'
+  const chain = getErrorChain(error, { causesOnly: true, maxDepth: Infinity })
+  let position = 0
+
+  for (const [levelIndex, expectedLevel] of expectedChain.entries()) {
+    let mismatch: ErrorChainMismatch | undefined
+    if (position >= chain.length) {
+      mismatch = {
+        levelIndex,
+        chainIndex: position,
+        field: 'chain',
+        expected: expectedLevel,
+        actual: undefined,
+        description: `Error chain mismatch at level ${levelIndex}: Expected level with code '${String(expectedLevel.code || 'any')}' but error chain ended.`
+      }
+    } else if (mode === 'partial') {
+      const found = chain.findIndex((candidate, chainIndex) =>
+        chainIndex >= position && findLevelMismatch(candidate, expectedLevel, levelIndex, chainIndex, options) === undefined)
+      if (found === -1) {
+        mismatch = {
+          levelIndex,
+          chainIndex: position,
+          field: 'chain',
+          expected: expectedLevel,
+          actual: chain.slice(position),
+          description: `Error chain mismatch at level ${levelIndex}: No error from chain position ${position} matches level with code '${String(expectedLevel.code || 'any')}'.`
+        }
+      } else {
+        position = found + 1
+      }
     } else {
-      currentErrorInChain = undefined
+      mismatch = findLevelMismatch(chain[position], expectedLevel, levelIndex, position, options)
+      position++
+    }
+
+    if (mismatch !== undefined) {
+      return { matched: false, matchedLevels: levelIndex, mismatch, unmatchedLevels: expectedChain.slice(levelIndex), remainingErrors: [] }
     }
   }
 
-  if (currentErrorInChain) {
-    const nextError = currentErrorInChain as Error
+  const remainingErrors = chain.slice(position)
+  if (mode === 'exact' && remainingErrors.length > 0) {
+    const nextError = remainingErrors[0]
     const nextErrorCode = (nextError as { code?: unknown }).code
-    throw new Error(`Error chain validation failed: Error chain has more levels than expected (${expectedChain.length}). Next level error: ${nextError.constructor.name} [${String(nextErrorCode) || 'unknown'}] "${nextError.message}"`)
+    return {
+      matched: false,
+      matchedLevels: expectedChain.length,
+      mismatch: {
+        levelIndex: expectedChain.length,
+        chainIndex: position,
+        field: 'extraLevels',
+        expected: expectedChain.length,
+        actual: chain.length,
+        description: `Error chain validation failed: Error chain has more levels than expected (${expectedChain.length}). Next level error: ${nextError.constructor.name} [${String(nextErrorCode) || 'unknown'}] "${nextError.message}"`
+      },
+      unmatchedLevels: [],
+      remainingErrors
+    }
   }
 
+  return { matched: true, matchedLevels: expectedChain.length, unmatchedLevels: [], remainingErrors }
+}
+
+/**
+ * Проверяет, соответствует ли цепочка ошибок ожидаемой структуре `expectedChain`, и выбрасывает
+ * ошибку при несоответствии. Построена на `matchErrorChain` (см. описание критериев и режимов там).
+ *
+ * @param error Начальная ошибка для проверки.
+ * @param expectedChain Массив объектов `ExpectedChainLevel`, описывающих каждый ожидаемый уровень цепочки.
+ * @param options Опции сопоставления (режим). По умолчанию цепочка должна совпадать полностью.
+ * @returns `true`, если цепочка соответствует ожиданиям.
+ * @throws {FabError} `FAB_ERROR_CHAIN_MISMATCH`, если цепочка не соответствует ожиданиям (сообщение
+ *   содержит детали несоответствия, контекст — уровень и проверку).
+ * @throws {FabError} `FAB_INVALID_ARGUMENT`, если `expectedChain` не является массивом.
+ * @deterministic Да, для той же ошибки и ожидаемой цепочки.
+ */
+export function checkErrorChain (
+  error: Error | undefined | null,
+  expectedChain: ExpectedChainLevel[],
+  options: ErrorChainMatchOptions = {}
+): boolean {
+  const { mismatch } = matchErrorChain(error, expectedChain, options)
+  if (mismatch !== undefined) {
+    throw new FabError(ERROR_CHAIN_MISMATCH_SPEC, {
+      description: mismatch.description,
+      levelIndex: mismatch.levelIndex,
+      field: mismatch.field,
+      mode: options.mode ?? 'exact'
+    })
+  }
   return true
 }
 
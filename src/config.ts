@@ -0,0 +1,70 @@
+/**
+ * @file src/config.ts
+ * @description Глобальная конфигурация поведения библиотеки @fab33/fab-errors.
+ * @version 1.3.0
+ * @date 2026-10-19
+ * @updated Добавлены настройки проверки контекста (contextValidation).
+ *
+ * HISTORY:
+ * v1.3.0 (2026-10-19): Добавлена секция contextValidation (поведение при нарушении ErrorSpec.contextSchema).
+ * v1.2.0 (2026-10-19): Добавлена секция stackFrames (frames в toJSON, удаление кадров библиотеки).
+ * v1.1.0 (2026-10-19): Добавлена секция reporting (автоматическая отправка и сэмплирование).
+ * v1.0.0 (2026-10-19): Начальная реализация config и setFabErrorsConfig (политика redaction).
+ */
+
+import type { ContextValidationConfig } from './context-schema.js'
+import { DEFAULT_REDACTED_KEYS, type RedactionRule } from './redaction.js'
+import type { ErrorReportingConfig } from './report.js'
+import type { StackFramesConfig } from './stack.js'
+
+/**
+ * Интерфейс глобальной конфигурации библиотеки @fab33/fab-errors.
+ */
+export interface FabErrorsConfig {
+  /**
+   * Глобальная политика маскирования, применяемая ко всем ошибкам в дополнение к `ErrorSpec.redact`:
+   * к `context` в `toJSON()`, к сообщениям и к сериализованным причинам.
+   * По умолчанию маскируются поля из `DEFAULT_REDACTED_KEYS`. `undefined` отключает глобальную политику.
+   */
+  redaction?: RedactionRule
+
+  /**
+   * Настройки отправки ошибок в лог через `reportError`: автоматическая отправка при создании
+   * `FabError` и сэмплирование по кодам. По умолчанию автоматическая отправка выключена.
+   */
+  reporting: ErrorReportingConfig
+
+  /**
+   * Настройки структурированных кадров стека: массив `frames` в `toJSON()` и удаление кадров
+   * самой библиотеки. По умолчанию `frames` добавляются, кадры библиотеки удаляются.
+   */
+  stackFrames: StackFramesConfig
+
+  /**
+   * Настройки проверки контекста по `ErrorSpec.contextSchema`: выбросить ошибку, предупредить
+   * через логгер или сохранить нарушения в ошибке. По умолчанию `'warn'`.
+   */
+  contextValidation: ContextValidationConfig
+}
+
+/**
+ * Текущая конфигурация библиотеки.
+ */
+export const config: FabErrorsConfig = {
+  redaction: { keys: DEFAULT_REDACTED_KEYS },
+  reporting: { autoReport: false },
+  stackFrames: { includeInJSON: true, stripLibraryFrames: true },
+  contextValidation: { onViolation: 'warn' }
+}
+
+/**
+ * Обновляет глобальную конфигурацию библиотеки (частично или полностью),
+ * аналогично `setFabErrorsDependencies`.
+ *
+ * @param newConfig Объект с новыми значениями настроек.
+ */
+export function setFabErrorsConfig (newConfig: Partial<FabErrorsConfig>): void {
+  Object.assign(config, newConfig)
+}
+
+// END OF: src/config.ts
@@ -0,0 +1,307 @@
+/**
+ * @file src/context-schema.ts
+ * @description Проверка контекста ошибки во время выполнения по схеме из ErrorSpec (встроенный DSL и Standard Schema).
+ * @version 1.1.0
+ * @date 2026-10-19
+ * @updated Добавлено преобразование DSL в JSON Schema.
+ *
+ * HISTORY:
+ * v1.1.0 (2026-10-19): Добавлена toContextJSONSchema (схема контекста во встроенном DSL в виде JSON Schema для каталога).
+ * v1.0.0 (2026-10-19): Начальная реализация ContextSchema, validateContext и адаптера fromStandardSchema.
+ */
+
+/**
+ * Тип значения поля контекста во встроенном DSL. `'object'` — объект, не являющийся массивом и `null`;
+ * `'unknown'` — любое значение (проверяется только наличие).
+ */
+export type ContextFieldType = 'string' | 'number' | 'boolean' | 'bigint' | 'object' | 'array' | 'unknown'
+
+/**
+ * Краткая запись поля: тип, а суффикс `?` делает поле необязательным (`'string?'`).
+ */
+export type ContextFieldShorthand = ContextFieldType | `${ContextFieldType}?`
+
+/**
+ * Полная запись поля контекста во встроенном DSL.
+ */
+export interface ContextFieldSchema {
+  type: ContextFieldType
+  /** Поле может отсутствовать (`undefined`). По умолчанию `false`. */
+  optional?: boolean
+  /** Допустимые значения (сравнение через `Object.is`). */
+  enum?: readonly unknown[]
+  /** Схема полей вложенного объекта (для `type: 'object'`). */
+  properties?: Readonly<Record<string, ContextFieldShorthand | ContextFieldSchema>>
+  /** Схема элементов массива (для `type: 'array'`). */
+  items?: ContextFieldShorthand | ContextFieldSchema
+}
+
+/**
+ * Описание поля контекста: краткая или полная запись.
+ */
+export type ContextFieldDefinition = ContextFieldShorthand | ContextFieldSchema
+
+/**
+ * Схема контекста во встроенном DSL: описания полей верхнего уровня. Поля, не описанные в схеме,
+ * не проверяются.
+ *
+ * @example
+ * { argumentName: 'string', reason: 'string', expected: 'string?', mode: { type: 'string', enum: ['a', 'b'] } }
+ */
+export type ContextSchema<TContext extends object = Record<string, unknown>> = {
+  readonly [K in keyof TContext]?: ContextFieldDefinition
+}
+
+/**
+ * Нарушение схемы контекста.
+ */
+export interface ContextValidationIssue {
+  /** Путь к полю от корня контекста (`'user.id'`, `'items[0]'`); пустая строка — контекст целиком. */
+  path: string
+  /** Описание нарушения. */
+  message: string
+}
+
+/**
+ * Произвольная функция проверки контекста. Возвращает нарушения или пустой массив, если контекст корректен.
+ */
+export type ContextValidator = (context: object) => readonly ContextValidationIssue[]
+
+/**
+ * Поведение `FabError` при нарушении схемы контекста:
+ * - `'throw'`: конструктор выбрасывает `FabError` с кодом `FAB_CONTEXT_VALIDATION_FAILED`;
+ * - `'warn'`: нарушение сообщается через внедренный `LoggerLike` (`warn`), ошибка создается как обычно;
+ * - `'annotate'`: нарушения сохраняются в `error.contextIssues` и в `contextIssues` в `toJSON()`.
+ */
+export type ContextValidationMode = 'throw' | 'warn' | 'annotate'
+
+/**
+ * Настройки проверки контекста (секция `contextValidation` глобальной конфигурации).
+ */
+export interface ContextValidationConfig {
+  /** Поведение при нарушении схемы. По умолчанию `'warn'`. */
+  onViolation?: ContextValidationMode
+}
+
+/**
+ * Результат проверки Standard Schema v1: значение или список нарушений.
+ */
+export type StandardSchemaV1Result =
+  | { readonly value: unknown, readonly issues?: undefined }
+  | {
+    readonly issues: ReadonlyArray<{
+      readonly message: string
+      readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+    }>
+  }
+
+/**
+ * Минимальный структурный тип схемы, совместимой со Standard Schema v1 (Zod, Valibot, ArkType и др.).
+ */
+export interface StandardSchemaV1Like {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (value: unknown) => StandardSchemaV1Result | Promise<StandardSchemaV1Result>
+  }
+}
+
+/**
+ * Описывает тип значения для сообщений о нарушениях.
+ */
+function describeType (value: unknown): string {
+  if (value === null) {
+    return 'null'
+  }
+  return Array.isArray(value) ? 'array' : typeof value
+}
+
+/**
+ * Приводит краткую запись поля к полной.
+ */
+function normalizeField (field: ContextFieldDefinition): ContextFieldSchema {
+  if (typeof field !== 'string') {
+    return field
+  }
+  return field.endsWith('?')
+    ? { type: field.slice(0, -1) as ContextFieldType, optional: true }
+    : { type: field as ContextFieldType }
+}
+
+/**
+ * Соединяет путь родителя с ключом объекта или индексом массива.
+ */
+function joinPath (parent: string, key: PropertyKey): string {
+  if (typeof key === 'number') {
+    return `${parent}[${key}]`
+  }
+  return parent === '' ? String(key) : `${parent}.${String(key)}`
+}
+
+/**
+ * Проверяет значение поля по описанию и добавляет нарушения в `issues`.
+ */
+function checkField (value: unknown, definition: ContextFieldDefinition, path: string, issues: ContextValidationIssue[]): void {
+  const field = normalizeField(definition)
+  if (value === undefined) {
+    if (field.optional !== true) {
+      issues.push({ path, message: 'is required' })
+    }
+    return
+  }
+  const actualType = describeType(value)
+  if (field.type !== 'unknown' && field.type !== actualType) {
+    issues.push({ path, message: `expected ${field.type}, got ${actualType}` })
+    return
+  }
+  if (field.enum !== undefined && !field.enum.some(allowed => Object.is(allowed, value))) {
+    issues.push({ path, message: `must be one of ${field.enum.map(allowed => JSON.stringify(allowed) ?? String(allowed)).join(', ')}` })
+  }
+  if (field.properties !== undefined && actualType === 'object') {
+    checkObject(value as Record<string, unknown>, field.properties, path, issues)
+  }
+  if (field.items !== undefined && Array.isArray(value)) {
+    const items = field.items
+    value.forEach((item, index) => checkField(item, items, joinPath(path, index), issues))
+  }
+}
+
+/**
+ * Проверяет поля объекта по описаниям.
+ */
+function checkObject (
+  value: Record<string, unknown>,
+  properties: Readonly<Record<string, ContextFieldDefinition | undefined>>,
+  path: string,
+  issues: ContextValidationIssue[]
+): void {
+  for (const [key, definition] of Object.entries(properties)) {
+    if (definition !== undefined) {
+      checkField(value[key], definition, joinPath(path, key), issues)
+    }
+  }
+}
+
+/**
+ * Преобразует описание поля в JSON Schema значения поля в `toJSON()`: `bigint` сериализуется строкой,
+ * `'unknown'` допускает любое значение.
+ */
+function toFieldJSONSchema (definition: ContextFieldDefinition): Record<string, unknown> {
+  const field = normalizeField(definition)
+  const schema: Record<string, unknown> = field.type === 'unknown'
+    ? {}
+    : { type: field.type === 'bigint' ? 'string' : field.type }
+  if (field.enum !== undefined) {
+    schema.enum = field.enum.map(value => typeof value === 'bigint' ? String(value) : value)
+  }
+  if (field.properties !== undefined) {
+    Object.assign(schema, toContextJSONSchema(field.properties))
+  }
+  if (field.items !== undefined) {
+    schema.items = toFieldJSONSchema(field.items)
+  }
+  return schema
+}
+
+/**
+ * Преобразует схему контекста во встроенном DSL в JSON Schema объекта: типы полей, `enum`, вложенные
+ * `properties`, `items` и список обязательных полей (`required`).
+ *
+ * @example
+ * toContextJSONSchema({ orderId: 'string', note: 'string?' })
+ * // { type: 'object', properties: { orderId: { type: 'string' }, note: { type: 'string' } }, required: ['orderId'] }
+ *
+ * @param schema Схема контекста (описания полей).
+ * @returns JSON-совместимый объект схемы.
+ * @deterministic Да.
+ */
+export function toContextJSONSchema (
+  schema: Readonly<Record<string, ContextFieldDefinition | undefined>>
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = {}
+  const required: string[] = []
+  for (const [key, definition] of Object.entries(schema)) {
+    if (definition === undefined) {
+      continue
+    }
+    properties[key] = toFieldJSONSchema(definition)
+    if (normalizeField(definition).optional !== true) {
+      required.push(key)
+    }
+  }
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) }
+}
+
+/**
+ * Создает функцию проверки контекста из схемы, совместимой со Standard Schema v1. Поддерживается
+ * только синхронная проверка: асинхронный результат считается нарушением.
+ *
+ * @example
+ * import { z } from 'zod'
+ * const PAYMENT_FAILED_SPEC: ErrorSpec<{ orderId: string }> = {
+ *   code: 'PAYMENT_FAILED',
+ *   messageTemplate: 'Payment {orderId} failed.',
+ *   contextSchema: fromStandardSchema(z.object({ orderId: z.string().uuid() }))
+ * }
+ *
+ * @param schema Схема Standard Schema v1.
+ * @returns Функция проверки для `ErrorSpec.contextSchema`.
+ */
+export function fromStandardSchema (schema: StandardSchemaV1Like): ContextValidator {
+  return (context) => {
+    const result = schema['~standard'].validate(context)
+    if (result instanceof Promise) {
+      result.catch(() => {}) // Результат не используется; предотвращаем unhandled rejection
+      return [{ path: '', message: `asynchronous validation (${schema['~standard'].vendor}) is not supported` }]
+    }
+    return (result.issues ?? []).map(issue => ({
+      path: (issue.path ?? []).reduce<string>((path, segment) =>
+        joinPath(path, typeof segment === 'object' ? segment.key : segment), ''),
+      message: issue.message
+    }))
+  }
+}
+
+/**
+ * Проверяет контекст по `spec.contextSchema` (встроенный DSL или функция проверки). Исключение
+ * функции проверки считается нарушением контекста целиком.
+ *
+ * @example
+ * validateContext(INVALID_ARGUMENT_SPEC, { reason: 'empty' }) // [{ path: 'argumentName', message: 'is required' }]
+ *
+ * @param spec Спецификация ошибки (используется только `contextSchema`).
+ * @param context Контекст (с учетом `spec.defaultContext`).
+ * @returns Нарушения; пустой массив, если схема не задана или контекст корректен.
+ * @deterministic Да, для встроенного DSL.
+ */
+export function validateContext (
+  spec: { readonly contextSchema?: ContextSchema<object> | ContextValidator },
+  context: object
+): ContextValidationIssue[] {
+  const schema = spec.contextSchema
+  if (schema === undefined) {
+    return []
+  }
+  if (typeof schema === 'function') {
+    try {
+      return [...schema(context)]
+    } catch (error) {
+      return [{ path: '', message: `validator threw: ${error instanceof Error ? error.message : String(error)}` }]
+    }
+  }
+  const issues: ContextValidationIssue[] = []
+  checkObject(context as Record<string, unknown>, schema as Readonly<Record<string, ContextFieldDefinition>>, '', issues)
+  return issues
+}
+
+/**
+ * Краткое описание нарушений для сообщений: `'argumentName: is required; reason: expected string, got number'`.
+ *
+ * @param issues Нарушения схемы контекста.
+ * @returns Строка с нарушениями через `; `.
+ */
+export function summarizeContextIssues (issues: readonly ContextValidationIssue[]): string {
+  return issues.map(issue => issue.path === '' ? issue.message : `${issue.path}: ${issue.message}`).join('; ')
+}
+
+// END OF: src/context-schema.ts
@@ -0,0 +1,120 @@
+/**
+ * @file src/define-error.ts
+ * @description Генератор типизированных помощников (create/is/assert/findInChain) для ErrorSpec.
+ * @version 1.2.2
+ * @date 2026-10-19
+ * @updated create() объявлена именованной функцией для распознавания кадра стека.
+ *
+ * HISTORY:
+ * v1.2.2 (2026-10-19): create() объявлена функцией createDefinedError (кадр библиотеки распознается и в бандле).
+ * v1.2.1 (2026-10-19): findInChain() делегирует поиск findErrorInChain с критерием spec.
+ * v1.2.0 (2026-10-19): findInChain() использует traverseErrorTree.
+ * v1.1.1 (2026-10-19): create() принимает cause типа unknown.
+ * v1.1.0 (2026-10-19): Добавлен defineErrorSpec.
+ * v1.0.0 (2026-10-19): Начальная реализация defineError.
+ */
+
+import { findErrorInChain } from './chain-utils.js'
+import type { ErrorSpec } from './error-spec.js'
+import { FabError } from './fab-error.js'
+import type { ValidateTemplate } from './template-types.js'
+
+/**
+ * Набор типизированных помощников для одной спецификации ошибки,
+ * возвращаемый функцией `defineError`.
+ *
+ * @template TContext Тип контекста спецификации.
+ */
+export interface DefinedError<TContext extends object> {
+  /** Спецификация, для которой созданы помощники. */
+  readonly spec: ErrorSpec<TContext>
+  /** Код ошибки из спецификации. */
+  readonly code: string
+  /**
+   * Создает `FabError` по спецификации (фабричная функция).
+   *
+   * @param context Контекст ошибки.
+   * @param cause Исходная ошибка (для `Error.cause`); значения, не являющиеся `Error`, нормализуются.
+   */
+  create: (context: TContext, cause?: unknown) => FabError<TContext>
+  /**
+   * Type guard: проверяет, что значение является `FabError` с кодом этой спецификации,
+   * и сужает тип `context` до `TContext`.
+   */
+  is: (error: unknown) => error is FabError<TContext>
+  /**
+   * Проверяет, что значение является ошибкой этой спецификации, и возвращает его с суженным типом.
+   * Если это не так, исходное значение пробрасывается дальше без изменений, что удобно в `catch`:
+   * `const err = MyError.assert(e)`.
+   */
+  assert: (error: unknown) => FabError<TContext>
+  /**
+   * Ищет в дереве ошибок (начиная с самой ошибки, по `cause` и `errors`) первую ошибку этой спецификации.
+   * Возвращает ее с суженным типом или `undefined`, если такой ошибки в цепочке нет.
+   */
+  findInChain: (error: unknown) => FabError<TContext> | undefined
+}
+
+/**
+ * Создает набор типизированных помощников для спецификации ошибки: фабрику `create`,
+ * type guard `is`, проверку `assert` и поиск в цепочке `findInChain`.
+ * Заменяет ручное написание фабричной функции для каждой `ErrorSpec`.
+ *
+ * @example
+ * const AuthFailedError = defineError(AUTH_FAILED_SPEC)
+ * throw AuthFailedError.create({ username: 'user123', attemptCount: 3 }, cause)
+ * // ...
+ * if (AuthFailedError.is(error)) { error.context.username }
+ *
+ * @param spec Спецификация ошибки.
+ * @returns Набор помощников `DefinedError<TContext>`.
+ */
+export function defineError<TContext extends object> (spec: ErrorSpec<TContext>): DefinedError<TContext> {
+  const is = (error: unknown): error is FabError<TContext> =>
+    error instanceof FabError && error.code === spec.code
+
+  // Отдельное имя функции отличает кадр стека фабрики (`Object.createDefinedError [as create]`) от кода приложения
+  function createDefinedError (context: TContext, cause?: unknown): FabError<TContext> {
+    return new FabError(spec, context, cause)
+  }
+
+  return {
+    spec,
+    code: spec.code,
+    create: createDefinedError,
+    is,
+    assert (error) {
+      if (is(error)) {
+        return error
+      }
+      throw error
+    },
+    findInChain (error) {
+      return findErrorInChain(error instanceof Error ? error : undefined, { spec })
+    }
+  }
+}
+
+/**
+ * Объявляет `ErrorSpec<TContext>` с проверкой шаблона сообщения на этапе компиляции:
+ * если `messageTemplate` ссылается на ключ (или вложенный путь), отсутствующий в `TContext`,
+ * код не скомпилируется. Функция каррирована, чтобы `TContext` задавался явно,
+ * а тип шаблона выводился из литерала.
+ *
+ * @example
+ * const SPEC = defineErrorSpec<OperationFailedContext>()({
+ *   code: 'MY_OPERATION_FAILED',
+ *   messageTemplate: 'Operation {operatonName} failed' // Ошибка компиляции: unknownPlaceholders: 'operatonName'
+ * })
+ *
+ * @returns Функция, принимающая спецификацию и возвращающую ее без изменений.
+ */
+export function defineErrorSpec<TContext extends object> () {
+  return <const TTemplate extends string>(
+    spec: Omit<ErrorSpec<TContext>, 'messageTemplate'> & {
+      readonly messageTemplate: TTemplate & ValidateTemplate<TTemplate, TContext>
+    }
+  ): ErrorSpec<TContext> => spec
+}
+
+// END OF: src/define-error.ts
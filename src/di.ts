@@ -1,11 +1,13 @@
 /**
  * @file src/di.ts
  * @description Механизм Dependency Injection для внутреннего логирования библиотеки @fab33/fab-errors.
- * @version 1.0.1
- * @date 2025-05-30
- * @updated Применены // eslint-disable-next-line для @typescript-eslint/no-explicit-any в LoggerLike. Исправлены пробелы, eol-last.
+ * @version 1.2.0
+ * @date 2026-10-19
+ * @updated Добавлены часы clock (для retry).
  *
  * HISTORY:
+ * v1.2.0 (2026-10-19): Добавлены интерфейс Clock и зависимость clock; random используется для jitter в retry.
+ * v1.1.0 (2026-10-19): Добавлена зависимость random; логгер используется reportError.
  * v1.0.1 (2025-05-30): Локальное отключение no-explicit-any для LoggerLike, исправления ESLint.
  * v1.0.0 (2025-05-29): Начальная реализация DI для внутреннего логгера.
  */
@@ -30,26 +32,46 @@ export interface LoggerLike {
   fatal?: (objOrMsg: any, msg?: string, ...args: any[]) => void // Опциональный метод
 }
 
+/**
+ * Источник времени и ожидания, используемый `retry` (в тестах заменяется на управляемые часы).
+ */
+export interface Clock {
+  /** Текущее время в миллисекундах (как `Date.now()`). */
+  now: () => number
+  /** Ожидание указанного числа миллисекунд. */
+  sleep: (ms: number) => Promise<void>
+}
+
 /**
  * Интерфейс для объекта зависимостей библиотеки @fab33/fab-errors.
- * В настоящее время содержит только опциональный логгер.
  */
 export interface FabErrorsDependencies {
+  /** Логгер для внутренних сообщений библиотеки и для `reportError`. */
   logger?: LoggerLike
+  /** Источник случайных чисел в диапазоне [0, 1) для сэмплирования `reportError` и jitter в `retry`. */
+  random: () => number
+  /** Часы для задержек и дедлайнов `retry`. */
+  clock: Clock
 }
 
 /**
  * Экземпляр зависимостей библиотеки.
- * По умолчанию логгер не установлен.
+ * По умолчанию логгер не установлен, `random` — `Math.random`, `clock` — системные часы и `setTimeout`.
  */
 export const dependencies: FabErrorsDependencies = {
-  logger: undefined
+  logger: undefined,
+  random: Math.random,
+  clock: {
+    now: Date.now,
+    sleep: async (ms) => await new Promise(resolve => setTimeout(resolve, ms))
+  }
 }
 
 /**
  * Устанавливает новые зависимости для библиотеки @fab33/fab-errors.
  * Позволяет пользователю предоставить собственный экземпляр логгера
- * для отладки внутренней работы библиотеки.
+ * (для отладки внутренней работы библиотеки и отправки ошибок через `reportError`)
+ * источник случайных чисел и часы (например, детерминированные в тестах).
  *
  * @param newDependencies Объект с новыми зависимостями для частичного или полного обновления.
  */
@@ -1,19 +1,65 @@
 /**
  * @file src/error-spec.ts
  * @description Определяет интерфейс ErrorSpec для декларативного описания ошибок.
- * @version 1.0.1
- * @date 2025-05-30
- * @updated Заменен тип 'any' на 'unknown' в дженерике TContext. Добавлена пустая строка в конце файла.
+ * @version 1.9.1
+ * @date 2026-10-19
+ * @updated Описано, что шаблон сверяется с контекстом только через defineErrorSpec.
  *
  * HISTORY:
+ * v1.9.1 (2026-10-19): В JSDoc ErrorSpec и messageTemplate описано, что проверка плейсхолдеров выполняет defineErrorSpec.
+ * v1.9.0 (2026-10-19): Добавлено опциональное поле publicContextKeys (поля контекста, передаваемые клиентам).
+ * v1.8.0 (2026-10-19): Добавлено опциональное поле contextSchema (проверка контекста во время выполнения).
+ * v1.7.0 (2026-10-19): Добавлено опциональное поле fingerprint (правило отпечатка ошибки).
+ * v1.6.0 (2026-10-19): Добавлены опциональные поля category, retryable, tags и тип ErrorCategory.
+ * v1.5.0 (2026-10-19): Добавлено опциональное поле severity и тип ErrorSeverity.
+ * v1.4.0 (2026-10-19): Добавлены опциональные поля grpcStatus и jsonRpcCode.
+ * v1.3.0 (2026-10-19): Добавлены опциональные поля httpStatus, visibility и тип ErrorVisibility.
+ * v1.2.0 (2026-10-19): Добавлено опциональное поле redact.
+ * v1.1.0 (2026-10-19): Добавлено опциональное поле messageFormat, описан расширенный синтаксис плейсхолдеров.
  * v1.0.1 (2025-05-30): Заменен 'any' на 'unknown' в TContext, eol-last.
  * v1.0.0 (2025-05-29): Начальная реализация ErrorSpec.
  */
 
+import type { ContextSchema, ContextValidator } from './context-schema.js'
+import type { ErrorFingerprintRule } from './fingerprint.js'
+import type { RedactionRule } from './redaction.js'
+import type { GrpcStatusCode } from './rpc-status.js'
+import type { FormatMessageOptions } from './utils.js'
+
+/**
+ * Видимость ошибки для внешних клиентов:
+ * - `'public'`: сообщение, код и контекст можно показывать клиенту (например, ошибки валидации);
+ * - `'internal'`: детали скрываются, клиент получает только HTTP-статус.
+ */
+export type ErrorVisibility = 'public' | 'internal'
+
+/**
+ * Уровень серьезности ошибки, определяющий метод логгера при отправке ошибки в лог (`reportError`).
+ */
+export type ErrorSeverity = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal'
+
+/**
+ * Категория ошибки: стандартные значения и произвольные строки для категорий приложения.
+ */
+export type ErrorCategory =
+  | 'validation'
+  | 'auth'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limit'
+  | 'dependency'
+  | 'internal'
+  | (string & {})
+
 /**
  * Интерфейс для декларативного определения "типа" или "чертежа" ошибки.
  * Используется для создания экземпляров `FabError`.
  *
+ * Аннотация `ErrorSpec<TContext>` не сверяет плейсхолдеры `messageTemplate` с `TContext`:
+ * литерал `const SPEC: ErrorSpec<Ctx> = { ... }` с опечаткой в плейсхолдере компилируется без ошибок.
+ * Для проверки на этапе компиляции объявляйте спецификацию через `defineErrorSpec<Ctx>()({ ... })`,
+ * для спецификаций из JSON используйте `validateSpec`.
+ *
  * @template TContext Тип объекта контекста, ожидаемого для данного типа ошибки.
  */
 export interface ErrorSpec<TContext extends object = Record<string, unknown>> {
@@ -25,11 +71,43 @@ export interface ErrorSpec<TContext extends object = Record<string, unknown>> {
 
   /**
    * Шаблон сообщения об ошибке. Может содержать плейсхолдеры вида `{key}`,
-   * которые будут заменены значениями из объекта контекста.
+   * которые будут заменены значениями из объекта контекста. Поддерживаются вложенные пути
+   * (`{details.id}`), индексы (`{items[0]}`), форматтеры (`{amount:currency}`) и экранирование
+   * скобок (`{{`, `}}`), см. `formatMessage`. Соответствие плейсхолдеров контексту проверяется
+   * только при объявлении через `defineErrorSpec`.
    * @example 'Operation {operationName} failed for item ID {itemId}.'
    */
   readonly messageTemplate: string
 
+  /**
+   * Опциональные настройки форматирования `messageTemplate`: политика для отсутствующих
+   * значений и дополнительные форматтеры.
+   */
+  readonly messageFormat?: FormatMessageOptions
+
+  /**
+   * Опциональные правила маскирования чувствительных полей контекста (имена полей, пути или предикат).
+   * Применяются вместе с глобальной политикой (`setFabErrorsConfig`) к сообщению, к `context`
+   * в `toJSON()` и к локализованным сообщениям. Свойство `error.context` остается без изменений.
+   * @example { keys: ['cardNumber'], paths: ['details.user.email'] }
+   */
+  readonly redact?: RedactionRule
+
+  /**
+   * Опциональное правило отпечатка ошибки (`fingerprint`): поля контекста, разделяющие группы,
+   * число учитываемых кадров стека и учет причин.
+   * @example { contextPaths: ['provider'], stackFrames: 0 }
+   */
+  readonly fingerprint?: ErrorFingerprintRule
+
+  /**
+   * Опциональная схема контекста, проверяемая при создании ошибки (с учетом `defaultContext`):
+   * встроенный DSL (`ContextSchema`) или функция проверки (`ContextValidator`, например `fromStandardSchema(...)`).
+   * Поведение при нарушении задается `setFabErrorsConfig({ contextValidation: { onViolation } })`.
+   * @example { argumentName: 'string', reason: 'string', expected: 'string?' }
+   */
+  readonly contextSchema?: ContextSchema<TContext> | ContextValidator
+
   /**
    * Опциональные значения по умолчанию для полей контекста `TContext`.
    * Эти значения будут использованы, если соответствующие поля не предоставлены
@@ -37,6 +115,55 @@ export interface ErrorSpec<TContext extends object = Record<string, unknown>> {
    */
   readonly defaultContext?: Partial<TContext>
 
+  /**
+   * Опциональный HTTP-статус ответа для этой ошибки (см. `toProblemDetails`). По умолчанию 500.
+   */
+  readonly httpStatus?: number
+
+  /**
+   * Опциональная видимость ошибки для внешних клиентов. По умолчанию `'internal'`.
+   */
+  readonly visibility?: ErrorVisibility
+
+  /**
+   * Опциональный список полей контекста, которые можно передавать внешним клиентам (расширения problem
+   * details, метаданные gRPC, `error.data` JSON-RPC). По умолчанию контекст клиентам не передается.
+   */
+  readonly publicContextKeys?: readonly string[]
+
+  /**
+   * Опциональный канонический код статуса gRPC (см. `GrpcStatus`). Переопределяет сопоставление
+   * по умолчанию (`getGrpcStatus`).
+   */
+  readonly grpcStatus?: GrpcStatusCode
+
+  /**
+   * Опциональный код ошибки JSON-RPC 2.0. Переопределяет сопоставление по умолчанию (`getJsonRpcCode`).
+   */
+  readonly jsonRpcCode?: number
+
+  /**
+   * Опциональный уровень серьезности, с которым ошибка пишется в лог (`reportError`). По умолчанию `'error'`.
+   */
+  readonly severity?: ErrorSeverity
+
+  /**
+   * Опциональная категория ошибки (валидация, авторизация, внешняя зависимость, внутренняя ошибка и т.д.).
+   */
+  readonly category?: ErrorCategory
+
+  /**
+   * Опциональный признак временной ошибки: `true`, если операцию имеет смысл повторить
+   * (таймаут, недоступность зависимости), `false`, если повтор не поможет.
+   */
+  readonly retryable?: boolean
+
+  /**
+   * Опциональные произвольные теги для группировки и поиска ошибок.
+   * @example ['billing', 'external']
+   */
+  readonly tags?: readonly string[]
+
   /**
    * Опциональная ссылка (URL или путь) на документацию, описывающую
    * данный тип ошибки, её причины и способы устранения.
@@ -1,18 +1,53 @@
 /**
  * @file src/fab-error.ts
  * @description Основной класс ошибок FabError для библиотеки @fab33/fab-errors.
- * @version 1.0.2
- * @date 2025-05-30
- * @updated Заменен тип 'any' на 'unknown' в дженерике TContext. Исправлены пробелы, eol-last.
+ * @version 1.13.3
+ * @date 2026-10-19
+ * @updated Обертки для преобразования и нормализованные причины не отправляются autoReport.
  *
  * HISTORY:
+ * v1.13.3 (2026-10-19): Добавлена toInternalFabError для конвертеров; FAB_NON_ERROR_THROWN из нормализации создается без autoReport.
+ * v1.13.2 (2026-10-19): createFabErrorWith заменена на createFabError; опции создания передаются внутренним параметром конструктора.
+ * v1.13.1 (2026-10-19): FAB_CONTEXT_VALIDATION_FAILED в режиме 'throw' получает cause; восстановленные ошибки не проверяются, fromJSON восстанавливает contextIssues.
+ * v1.13.0 (2026-10-19): Внутренние опции создания (createFabErrorWith); восстановленные и служебные ошибки не отправляются autoReport.
+ * v1.12.1 (2026-10-19): toJSON() заменяет bigint, symbol, функции и циклы в context строками (toJSONSafeValue).
+ * v1.12.0 (2026-10-19): Проверка контекста по spec.contextSchema (throw/warn/annotate), свойство contextIssues и поле в toJSON().
+ * v1.11.0 (2026-10-19): Поле fingerprint в toJSON() корневой ошибки.
+ * v1.10.0 (2026-10-19): Метод getStackFrames() и массив frames в toJSON() (для ошибки и причин).
+ * v1.9.0 (2026-10-19): Свойства severity/category/retryable/tags из спецификации; сериализация и восстановление в JSON.
+ * v1.8.0 (2026-10-19): Конструктор планирует автоматическую отправку ошибки в лог (scheduleAutoReport).
+ * v1.7.0 (2026-10-19): Применение spec.redact и глобальной политики маскирования к message, context в toJSON() и cause.
+ * v1.6.0 (2026-10-19): toJSON(options) с maxDepth; маркеры circular/truncated вместо циклических и слишком глубоких причин.
+ * v1.5.0 (2026-10-19): Добавлен AggregateFabError, сериализация и восстановление errors (включая AggregateError).
+ * v1.4.0 (2026-10-19): cause принимает unknown и нормализуется в Error; добавлены FabError.wrap() и toFabError().
+ * v1.3.0 (2026-10-19): Добавлен метод localize(locale, localizer).
+ * v1.2.0 (2026-10-19): Передача spec.messageFormat в formatMessage.
+ * v1.1.0 (2026-10-19): Добавлен FabError.fromJSON() с поиском спецификаций в реестре.
  * v1.0.2 (2025-05-30): Заменен 'any' на 'unknown' в TContext, исправления ESLint.
  * v1.0.1 (2025-05-29): Добавлен интерфейс FabErrorJSON и обновлена сигнатура toJSON.
  * v1.0.0 (2025-05-29): Первая реализация FabError с поддержкой Error.cause и типизированного контекста.
  */
 
-import type { ErrorSpec } from './error-spec.js'
-import { formatMessage } from './utils.js'
+import type { ErrorCategory, ErrorSeverity, ErrorSpec } from './error-spec.js'
+import { DEFAULT_MAX_ERROR_TREE_DEPTH } from './chain-utils.js'
+import { config } from './config.js'
+import {
+  CONTEXT_VALIDATION_FAILED_SPEC,
+  INVALID_ARGUMENT_SPEC,
+  NON_ERROR_THROWN_SPEC,
+  UNEXPECTED_ERROR_SPEC,
+  type ContextValidationFailedContext,
+  type UnexpectedErrorContext
+} from './base-specs.js'
+import { summarizeContextIssues, validateContext, type ContextValidationIssue } from './context-schema.js'
+import { dependencies } from './di.js'
+import { fingerprint } from './fingerprint.js'
+import { defaultErrorLocalizer, type ErrorLocalizer } from './i18n.js'
+import { redactValue } from './redaction.js'
+import { scheduleAutoReport } from './report.js'
+import { defaultErrorSpecRegistry, type ErrorSpecRegistry } from './spec-registry.js'
+import { parseStack, type ParseStackOptions, type StackFrame } from './stack.js'
+import { formatMessage, toJSONSafeValue } from './utils.js'
 
 /**
  * Структура объекта, возвращаемого методом `toJSON()` класса `FabError`.
@@ -23,13 +58,376 @@ export interface FabErrorJSON {
   message: string
   context: object // Сохраняем как object для простоты, т.к. TContext уже есть в экземпляре FabError
   docs?: string
+  severity?: ErrorSeverity
+  category?: ErrorCategory
+  retryable?: boolean
+  tags?: string[]
+  /** Нарушения схемы контекста (`FabError.contextIssues`), если ошибка создана в режиме `'annotate'`. */
+  contextIssues?: ContextValidationIssue[]
+  /** Отпечаток ошибки для группировки (`fingerprint(error)`); только у корневой ошибки. */
+  fingerprint?: string
   stack?: string
+  /** Разобранные кадры `stack` (см. `config.stackFrames`). */
+  frames?: StackFrame[]
   spec: {
     code: string
     messageTemplate: string
     docs?: string
+    severity?: ErrorSeverity
+    category?: ErrorCategory
+    retryable?: boolean
+    tags?: string[]
   }
+  /**
+   * Сериализованная причина. Вместо причины, уже встречавшейся выше по цепочке, записывается маркер
+   * `{ name, message, code?, circular: true }`, а вместо причины глубже `maxDepth` — `{ ..., truncated: true }`.
+   */
   cause?: FabErrorJSON | { name?: string; message?: string; stack?: string; [key: string]: any } // eslint-disable-line @typescript-eslint/no-explicit-any
+  /** Дочерние ошибки `AggregateFabError` (отсутствует у обычной `FabError`). */
+  errors?: Array<NonNullable<FabErrorJSON['cause']>>
+}
+
+/**
+ * Опции сериализации ошибки методом `toJSON()`.
+ */
+export interface FabErrorToJSONOptions {
+  /**
+   * Максимальная глубина сериализации причин (`cause` и `errors`): корневая ошибка имеет глубину 0.
+   * Более глубокие причины заменяются маркером `truncated`. По умолчанию `DEFAULT_MAX_ERROR_TREE_DEPTH`.
+   */
+  maxDepth?: number
+}
+
+/**
+ * Опции для восстановления ошибки методом `FabError.fromJSON()`.
+ */
+export interface FabErrorFromJSONOptions {
+  /**
+   * Реестр, в котором ищутся спецификации по коду ошибки.
+   * По умолчанию используется `defaultErrorSpecRegistry`.
+   */
+  registry?: ErrorSpecRegistry
+}
+
+/** Стандартные конструкторы ошибок, восстанавливаемые по имени из сериализованного `cause`. */
+const NATIVE_ERROR_CONSTRUCTORS: Record<string, ErrorConstructor> = {
+  Error,
+  TypeError,
+  RangeError,
+  SyntaxError,
+  ReferenceError,
+  URIError,
+  EvalError
+}
+
+/**
+ * Проверяет, похож ли объект на сериализованный `FabError` (`FabErrorJSON`).
+ */
+function isFabErrorJSON (value: unknown): value is FabErrorJSON {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const candidate = value as { code?: unknown, spec?: { code?: unknown } }
+  return typeof candidate.code === 'string' &&
+    typeof candidate.spec === 'object' && candidate.spec !== null &&
+    typeof candidate.spec.code === 'string'
+}
+
+/**
+ * Восстанавливает стандартную ошибку (не `FabError`) из ее сериализованного представления.
+ * Имя, сообщение и стек переносятся как есть, прочие поля копируются в экземпляр.
+ * Массив `errors` восстанавливается поэлементно; при имени `AggregateError` создается `AggregateError`.
+ */
+function restoreNativeError (
+  json: Record<string, unknown>,
+  options: FabErrorFromJSONOptions = {}
+): Error {
+  const { name, message, stack, ...rest } = json
+  const text = typeof message === 'string' ? message : ''
+  let error: Error
+  if (Array.isArray(rest.errors)) {
+    const errors = rest.errors.map(item => restoreCause(item, options))
+    delete rest.errors
+    error = name === 'AggregateError' ? new AggregateError(errors, text) : Object.assign(new Error(text), { errors })
+  } else {
+    const ErrorConstructor = (typeof name === 'string' && NATIVE_ERROR_CONSTRUCTORS[name]) || Error
+    error = new ErrorConstructor(text)
+  }
+  if (typeof name === 'string') {
+    error.name = name
+  }
+  if (typeof stack === 'string') {
+    error.stack = stack
+  }
+  return Object.assign(error, rest)
+}
+
+/**
+ * Восстанавливает сериализованную причину (`cause` или элемент `errors`): `FabErrorJSON` — как `FabError`,
+ * объект с `name`/`message` — как стандартную ошибку, прочие значения возвращаются как есть.
+ */
+function restoreCause (json: unknown, options: FabErrorFromJSONOptions): unknown {
+  if (isFabErrorJSON(json)) {
+    return FabError.fromJSON(json, options)
+  }
+  if (typeof json === 'object' && json !== null) {
+    const candidate = json as { name?: unknown, message?: unknown }
+    if (typeof candidate.name === 'string' || typeof candidate.message === 'string') {
+      return restoreNativeError(json as Record<string, unknown>, options)
+    }
+  }
+  return json
+}
+
+/**
+ * Состояние сериализации дерева ошибок.
+ */
+interface SerializationState {
+  /** Ошибки на пути от корня до текущей причины (для обнаружения циклов). */
+  ancestors: Set<Error>
+  maxDepth: number
+}
+
+/**
+ * Создает маркер вместо циклической (`circular`) или слишком глубокой (`truncated`) причины.
+ */
+function createCauseMarker (error: Error, marker: 'circular' | 'truncated'): NonNullable<FabErrorJSON['cause']> {
+  const code = (error as { code?: unknown }).code
+  return {
+    name: error.name,
+    message: error.message,
+    ...(typeof code === 'string' ? { code } : {}),
+    [marker]: true
+  }
+}
+
+/**
+ * Возвращает кадры стека для `toJSON()` по настройкам `config.stackFrames` или `undefined`, если они отключены.
+ */
+function serializeFrames (stack: string | undefined): StackFrame[] | undefined {
+  const { includeInJSON, stripLibraryFrames } = config.stackFrames
+  if (includeInJSON === false || typeof stack !== 'string') {
+    return undefined
+  }
+  return parseStack(stack, { stripLibraryFrames: stripLibraryFrames !== false })
+}
+
+/**
+ * Сериализует `FabError` (и дочерние ошибки `AggregateFabError`) на глубине `depth`.
+ */
+function serializeFabError (error: FabError<object>, state: SerializationState, depth: number): FabErrorJSON {
+  const json: FabErrorJSON = {
+    name: error.name,
+    code: error.code,
+    message: error.message,
+    context: toJSONSafeValue(redactValue(error.context, [error.spec.redact, config.redaction])) as object,
+    docs: error.docs,
+    severity: error.severity,
+    category: error.category,
+    retryable: error.retryable,
+    tags: error.tags?.slice(),
+    ...(error.contextIssues !== undefined ? { contextIssues: error.contextIssues.slice() } : {}),
+    stack: error.stack,
+    frames: serializeFrames(error.stack),
+    spec: {
+      code: error.spec.code,
+      messageTemplate: error.spec.messageTemplate,
+      docs: error.spec.docs,
+      severity: error.spec.severity,
+      category: error.spec.category,
+      retryable: error.spec.retryable,
+      tags: error.spec.tags?.slice()
+    },
+    cause: error.cause ? serializeCause(error.cause, state, depth + 1) : undefined
+  }
+  if (error instanceof AggregateFabError) {
+    json.errors = error.errors.map(child => serializeCause(child, state, depth + 1))
+  }
+  return json
+}
+
+/**
+ * Сериализует причину (`cause` или элемент `errors`) на глубине `depth`. Для стандартных ошибок
+ * с массивом `errors` (например, `AggregateError`) дочерние ошибки сериализуются рекурсивно.
+ * Циклические и слишком глубокие причины заменяются маркерами.
+ */
+function serializeCause (cause: unknown, state: SerializationState, depth: number): NonNullable<FabErrorJSON['cause']> {
+  if (cause instanceof Error) {
+    if (state.ancestors.has(cause)) {
+      return createCauseMarker(cause, 'circular')
+    }
+    if (depth > state.maxDepth) {
+      return createCauseMarker(cause, 'truncated')
+    }
+    state.ancestors.add(cause)
+    try {
+      if (cause instanceof FabError) {
+        return serializeFabError(cause, state, depth)
+      }
+      const json: NonNullable<FabErrorJSON['cause']> = {
+        name: cause.name,
+        message: cause.message,
+        stack: cause.stack,
+        frames: serializeFrames(cause.stack)
+      }
+      const errors: unknown = (cause as { errors?: unknown }).errors
+      if (Array.isArray(errors)) {
+        json.errors = errors.map(child => serializeCause(child, state, depth + 1))
+      }
+      return json
+    } finally {
+      state.ancestors.delete(cause)
+    }
+  }
+  if (typeof cause === 'object' && cause !== null) {
+    return toJSONSafeValue(redactValue({ ...cause }, [config.redaction])) as Record<string, unknown>
+  }
+  return { value: String(cause) }
+}
+
+/** Максимальная длина строкового представления значения в контексте `NON_ERROR_THROWN_SPEC`. */
+const PREVIEW_MAX_LENGTH = 200
+
+/**
+ * Внутренние опции создания `FabError` (не входят в публичный API пакета).
+ */
+export interface FabErrorCreationOptions {
+  /** Планировать автоматическую отправку ошибки в лог (`scheduleAutoReport`). По умолчанию `true`. */
+  autoReport?: boolean
+  /** Проверять контекст по `spec.contextSchema`. По умолчанию `true`. */
+  validateContext?: boolean
+  /** Нарушения схемы контекста, сохраняемые в `contextIssues` без проверки (восстановление из JSON). */
+  contextIssues?: readonly ContextValidationIssue[]
+}
+
+/**
+ * Опции создания ошибок, восстановленных из сериализованного вида (`fromJSON`, problem details, gRPC, JSON-RPC):
+ * их контекст может быть замаскирован или приведен к строкам, поэтому он не проверяется повторно.
+ */
+export const RESTORED_ERROR_CREATION_OPTIONS: Readonly<FabErrorCreationOptions> = Object.freeze({
+  autoReport: false,
+  validateContext: false
+})
+
+/**
+ * Опции создания служебных ошибок библиотеки, которые не отправляются в лог автоматически: предупреждения,
+ * которые библиотека пишет сама, нормализованные причины и обертки, создаваемые только для преобразования.
+ */
+export const INTERNAL_ERROR_CREATION_OPTIONS: Readonly<FabErrorCreationOptions> = Object.freeze({ autoReport: false })
+
+/** Ключ внутреннего параметра конструктора с опциями создания. Не экспортируется из модуля. */
+const CREATION_OPTIONS: unique symbol = Symbol('fab-errors.creationOptions')
+
+/**
+ * Внутренний параметр конструктора `FabError` с опциями создания. Создать его можно только в этом
+ * модуле, поэтому снаружи опции передаются через `createFabError`.
+ */
+interface FabErrorCreationParameter {
+  readonly [CREATION_OPTIONS]: Readonly<FabErrorCreationOptions>
+}
+
+/**
+ * Создает `FabError` с внутренними опциями создания (без автоматической отправки, без проверки контекста и т.д.).
+ *
+ * @param options Внутренние опции создания.
+ * @param spec Спецификация ошибки.
+ * @param context Объект контекста.
+ * @param cause Причина ошибки, если есть.
+ * @returns Новая `FabError`.
+ */
+export function createFabError<TContext extends object> (
+  options: Readonly<FabErrorCreationOptions>,
+  spec: ErrorSpec<TContext>,
+  context: TContext,
+  cause?: unknown
+): FabError<TContext> {
+  return new FabError(spec, context, cause, { [CREATION_OPTIONS]: options })
+}
+
+/**
+ * Создает ошибку `FAB_CONTEXT_VALIDATION_FAILED` для нарушений схемы контекста ошибки с кодом `errorCode`.
+ * `cause` — причина, переданная в конструктор проверяемой ошибки.
+ */
+function createContextValidationError (
+  errorCode: string,
+  issues: ContextValidationIssue[],
+  cause?: Error,
+  options: Readonly<FabErrorCreationOptions> = {}
+): FabError<ContextValidationFailedContext> {
+  return createFabError(options, CONTEXT_VALIDATION_FAILED_SPEC, { errorCode, issues, summary: summarizeContextIssues(issues) }, cause)
+}
+
+/** Контекст `UNEXPECTED_ERROR_SPEC`, используемый `FabError.wrap()` без явной спецификации. */
+const DEFAULT_WRAP_CONTEXT: UnexpectedErrorContext = { situation: 'an unknown operation' }
+
+/**
+ * Возвращает тип значения для контекста `NON_ERROR_THROWN_SPEC`.
+ */
+function describeValueType (value: unknown): string {
+  if (value === null) {
+    return 'null'
+  }
+  return Array.isArray(value) ? 'array' : typeof value
+}
+
+/**
+ * Возвращает строковое представление значения (JSON, иначе `String()`), обрезанное до `PREVIEW_MAX_LENGTH`.
+ */
+function previewValue (value: unknown): string {
+  let preview: string | undefined
+  if (typeof value === 'string') {
+    preview = value
+  } else {
+    try {
+      preview = JSON.stringify(value)
+    } catch (_e) {
+      // Циклические структуры, BigInt и т.п.
+    }
+    if (preview === undefined) {
+      try {
+        preview = String(value)
+      } catch (_e) {
+        preview = `[${describeValueType(value)}]` // Например, объект без прототипа
+      }
+    }
+  }
+  return preview.length > PREVIEW_MAX_LENGTH ? `${preview.slice(0, PREVIEW_MAX_LENGTH)}…` : preview
+}
+
+/**
+ * Проверяет, является ли значение ошибкой из другого realm (iframe, vm) или `DOMException`
+ * в окружении, где она не наследуется от `Error`: `instanceof Error` для них ложно.
+ */
+function isForeignError (value: unknown): value is { name?: unknown, message?: unknown, stack?: unknown } {
+  const tag = Object.prototype.toString.call(value)
+  return tag === '[object Error]' || tag === '[object DOMException]'
+}
+
+/**
+ * Приводит любое выброшенное значение к `Error`:
+ * - экземпляры `Error` (включая `AggregateError` и `DOMException`) возвращаются как есть;
+ * - ошибки из другого realm восстанавливаются как стандартные ошибки с тем же именем, сообщением и стеком;
+ * - прочие значения (строки, простые объекты, `null` и т.д.) оборачиваются в `FabError` по
+ *   `NON_ERROR_THROWN_SPEC` с исходным значением в `context.value`.
+ */
+function normalizeThrownValue (value: unknown): Error {
+  if (value instanceof Error) {
+    return value
+  }
+  if (isForeignError(value)) {
+    return restoreNativeError({
+      ...value,
+      name: typeof value.name === 'string' ? value.name : undefined,
+      message: typeof value.message === 'string' ? value.message : undefined,
+      stack: typeof value.stack === 'string' ? value.stack : undefined
+    })
+  }
+  // Нормализованное значение всегда становится причиной или дочерней ошибкой и отправляется в лог вместе с ней
+  return createFabError(INTERNAL_ERROR_CREATION_OPTIONS, NON_ERROR_THROWN_SPEC, {
+    valueType: describeValueType(value),
+    preview: previewValue(redactValue(value, [config.redaction])),
+    value
+  })
 }
 
 /**
@@ -64,20 +462,58 @@ export class FabError<TContext extends object = Record<string, unknown>> extends
    */
   public readonly docs?: string
 
+  /**
+   * Опциональный уровень серьезности ошибки, из `ErrorSpec`.
+   */
+  public readonly severity?: ErrorSeverity
+
+  /**
+   * Опциональная категория ошибки, из `ErrorSpec`.
+   */
+  public readonly category?: ErrorCategory
+
+  /**
+   * Опциональный признак временной ошибки (имеет ли смысл повторить операцию), из `ErrorSpec`.
+   */
+  public readonly retryable?: boolean
+
+  /**
+   * Опциональные теги ошибки, из `ErrorSpec`.
+   */
+  public readonly tags?: readonly string[]
+
+  /**
+   * Нарушения схемы контекста (`spec.contextSchema`). Заполняется только при
+   * `contextValidation.onViolation: 'annotate'` и наличии нарушений.
+   */
+  public readonly contextIssues?: readonly ContextValidationIssue[]
+
   /**
    * Создает экземпляр `FabError`.
    *
    * @param spec Спецификация ошибки (`ErrorSpec`), содержащая `code`, `messageTemplate` и др.
    * @param context Объект контекста, соответствующий `TContext` и дополняющий `spec.defaultContext`.
    * @param cause Оригинальная ошибка, которая привела к возникновению текущей (для `Error.cause`).
+   *   Значение, не являющееся `Error` (например, из `catch (e: unknown)`), оборачивается
+   *   в `FabError` с кодом `FAB_NON_ERROR_THROWN`, сохраняющую исходное значение в `context.value`.
+   * @param creation Внутренний параметр библиотеки с опциями создания (см. `createFabError`).
    */
   constructor (
     spec: ErrorSpec<TContext>,
     context: TContext,
-    cause?: Error
+    cause?: unknown,
+    creation?: FabErrorCreationParameter
   ) {
+    const creationOptions = creation?.[CREATION_OPTIONS] ?? {}
     const fullContext = { ...spec.defaultContext, ...context }
-    const formattedMessage = formatMessage(spec.messageTemplate, fullContext)
+    const normalizedCause = cause !== undefined ? normalizeThrownValue(cause) : undefined
+    const contextIssues = creationOptions.validateContext !== false ? validateContext(spec, fullContext) : []
+    const onViolation = config.contextValidation.onViolation ?? 'warn'
+    if (contextIssues.length > 0 && onViolation === 'throw') {
+      throw createContextValidationError(spec.code, contextIssues, normalizedCause)
+    }
+    const messageContext = redactValue(fullContext, [spec.redact, config.redaction]) as object
+    const formattedMessage = formatMessage(spec.messageTemplate, messageContext, spec.messageFormat)
 
     super(formattedMessage)
 
@@ -86,51 +522,225 @@ export class FabError<TContext extends object = Record<string, unknown>> extends
     this.spec = spec
     this.context = Object.freeze(fullContext) // Делаем контекст неизменяемым
     this.docs = spec.docs
+    this.severity = spec.severity
+    this.category = spec.category
+    this.retryable = spec.retryable
+    this.tags = spec.tags
+
+    if (creationOptions.contextIssues !== undefined) {
+      this.contextIssues = Object.freeze(creationOptions.contextIssues.map(issue => ({ ...issue })))
+    } else if (contextIssues.length > 0) {
+      if (onViolation === 'annotate') {
+        this.contextIssues = Object.freeze(contextIssues)
+      } else if (dependencies.logger !== undefined) {
+        const violation = createContextValidationError(spec.code, contextIssues, undefined, INTERNAL_ERROR_CREATION_OPTIONS)
+        dependencies.logger.warn({ err: violation.toJSON(), code: violation.code }, `[fab-errors] ${violation.message}`)
+      }
+    }
+
+    if (normalizedCause !== undefined) {
+      this.cause = normalizedCause
+    }
 
-    if (cause instanceof Error) {
-      this.cause = cause
+    if (creationOptions.autoReport !== false) {
+      scheduleAutoReport(this)
     }
   }
 
   /**
-   * Сериализует ошибку в JSON-совместимый объект для логирования или передачи.
-   * Включает все ключевые свойства ошибки и рекурсивно сериализует `cause`.
+   * Оборачивает произвольное перехваченное значение в новую `FabError`, используя его как `cause`.
+   * Значения, не являющиеся `Error`, нормализуются (см. параметр `cause` конструктора).
+   * Без спецификации используется `UNEXPECTED_ERROR_SPEC`.
    *
-   * @returns Сериализованное представление ошибки, соответствующее интерфейсу `FabErrorJSON`.
+   * @example
+   * try { await loadUser(id) } catch (e) { throw FabError.wrap(e, LOAD_USER_FAILED_SPEC, { userId: id }) }
+   *
+   * @param value Перехваченное значение (`unknown` из `catch` или причина отклонения промиса).
+   * @param target Необязательная пара `[spec, context]`: спецификация и контекст ошибки-обертки.
+   * @returns Новая `FabError` с `value` (нормализованным) в `cause`.
    */
-  toJSON (): FabErrorJSON {
-    let causeJSON: FabErrorJSON['cause']
-    if (this.cause) {
-      if (this.cause instanceof FabError) {
-        causeJSON = this.cause.toJSON()
-      } else if (this.cause instanceof Error) {
-        causeJSON = {
-          name: this.cause.name,
-          message: this.cause.message,
-          stack: this.cause.stack
-        }
-      } else if (typeof this.cause === 'object' && this.cause !== null) {
-        causeJSON = { ...(this.cause as object) }
-      } else if (this.cause !== undefined) {
-        causeJSON = { value: String(this.cause) }
-      }
+  static wrap<TContext extends object = UnexpectedErrorContext> (
+    value: unknown,
+    ...target: [] | [spec: ErrorSpec<TContext>, context: TContext]
+  ): FabError<TContext> {
+    if (target.length === 0) {
+      return new FabError(UNEXPECTED_ERROR_SPEC, DEFAULT_WRAP_CONTEXT, value) as unknown as FabError<TContext>
+    }
+    return new FabError(target[0], target[1], value)
+  }
+
+  /**
+   * Возвращает локализованное сообщение ошибки, построенное из `context` по шаблону
+   * из каталога сообщений для указанной локали (с учетом цепочки fallback).
+   * Стабильное свойство `message`, используемое в логах, не изменяется.
+   *
+   * @param locale Локаль, например `'ru'` или `'en-US'`.
+   * @param localizer Локализатор с каталогами сообщений. По умолчанию `defaultErrorLocalizer`.
+   * @returns Локализованное сообщение или сообщение по `spec.messageTemplate`, если перевода нет.
+   */
+  localize (locale: string, localizer: ErrorLocalizer = defaultErrorLocalizer): string {
+    return localizer.localize(this, locale)
+  }
+
+  /**
+   * Возвращает разобранные кадры стека ошибки (`parseStack(this.stack)`).
+   *
+   * @param options Опции разбора. По умолчанию кадры библиотеки удаляются согласно
+   *   `config.stackFrames.stripLibraryFrames`.
+   * @returns Кадры стека; первый кадр — место создания ошибки.
+   */
+  getStackFrames (options?: ParseStackOptions): StackFrame[] {
+    return parseStack(this.stack, {
+      stripLibraryFrames: config.stackFrames.stripLibraryFrames !== false,
+      ...options
+    })
+  }
+
+  /**
+   * Восстанавливает экземпляр `FabError` (вместе со всей цепочкой `cause`) из объекта,
+   * полученного ранее через `toJSON()`, например после передачи через границу процесса.
+   *
+   * Если код ошибки зарегистрирован в реестре, к ошибке прикрепляется зарегистрированная
+   * `ErrorSpec`. Иначе спецификация реконструируется из блока `spec` в JSON.
+   * Сообщение, имя и стек берутся из JSON без повторного форматирования. Контекст не проверяется
+   * по `spec.contextSchema` повторно, нарушения берутся из `contextIssues` в JSON.
+   * Причины, не являющиеся `FabError`, восстанавливаются как стандартные ошибки
+   * (с учетом имени: `TypeError`, `RangeError` и т.д.), прочие значения сохраняются как есть.
+   *
+   * @param json Сериализованное представление ошибки.
+   * @param options Опции восстановления (реестр спецификаций).
+   * @returns Восстановленный экземпляр `FabError`.
+   * @throws {FabError} `FAB_INVALID_ARGUMENT`, если `json` не является `FabErrorJSON`.
+   */
+  static fromJSON<TContext extends object = Record<string, unknown>> (
+    json: FabErrorJSON,
+    options: FabErrorFromJSONOptions = {}
+  ): FabError<TContext> {
+    if (!isFabErrorJSON(json)) {
+      throw new FabError(INVALID_ARGUMENT_SPEC, {
+        argumentName: 'json',
+        argumentValue: json,
+        reason: 'Expected a FabErrorJSON object with string "code" and "spec.code"'
+      })
+    }
+
+    const registry = options.registry ?? defaultErrorSpecRegistry
+    const spec = (registry.get(json.code) ?? Object.freeze({
+      code: json.spec.code,
+      messageTemplate: json.spec.messageTemplate,
+      docs: json.spec.docs,
+      severity: json.spec.severity,
+      category: json.spec.category,
+      retryable: json.spec.retryable,
+      tags: json.spec.tags
+    })) as ErrorSpec<TContext>
+
+    const context = { ...json.context } as TContext
+    const errors = Array.isArray(json.errors) ? json.errors.map(item => restoreCause(item, options)) : undefined
+    const creationOptions = Array.isArray(json.contextIssues)
+      ? { ...RESTORED_ERROR_CREATION_OPTIONS, contextIssues: json.contextIssues }
+      : RESTORED_ERROR_CREATION_OPTIONS
+    const error = errors !== undefined
+      ? new AggregateFabError<TContext>(spec, context, errors, undefined, { [CREATION_OPTIONS]: creationOptions })
+      : createFabError(creationOptions, spec, context)
+    error.name = json.name
+    error.message = json.message
+    if (typeof json.stack === 'string') {
+      error.stack = json.stack
     }
 
-    return {
-      name: this.name,
-      code: this.code,
-      message: this.message,
-      context: this.context,
-      docs: this.docs,
-      stack: this.stack,
-      spec: {
-        code: this.spec.code,
-        messageTemplate: this.spec.messageTemplate,
-        docs: this.spec.docs
-      },
-      cause: causeJSON
+    if (json.cause !== undefined) {
+      error.cause = restoreCause(json.cause, options)
     }
+
+    return error
+  }
+
+  /**
+   * Сериализует ошибку в JSON-совместимый объект для логирования или передачи.
+   * Включает все ключевые свойства ошибки и рекурсивно сериализует `cause` (и `errors`).
+   * Циклические ссылки и причины глубже `options.maxDepth` заменяются маркерами
+   * `circular` / `truncated`, поэтому сериализация всегда завершается. Чувствительные поля
+   * `context` (и причин) маскируются по `spec.redact` и глобальной политике (`setFabErrorsConfig`).
+   * Значения `context`, которые `JSON.stringify` не поддерживает (`bigint`, `symbol`, функции, циклы),
+   * заменяются строками (см. `toJSONSafeValue`). Корневая ошибка получает поле `fingerprint` (см. `fingerprint()`).
+   *
+   * @param options Опции сериализации (максимальная глубина).
+   * @returns Сериализованное представление ошибки, соответствующее интерфейсу `FabErrorJSON`.
+   */
+  toJSON (options?: FabErrorToJSONOptions): FabErrorJSON {
+    // JSON.stringify вызывает toJSON(key) со строковым ключом: тогда используются опции по умолчанию
+    const maxDepth = typeof options === 'object' && options !== null ? options.maxDepth : undefined
+    const json = serializeFabError(this, {
+      ancestors: new Set([this]),
+      maxDepth: maxDepth ?? DEFAULT_MAX_ERROR_TREE_DEPTH
+    }, 0)
+    json.fingerprint = fingerprint(this)
+    return json
   }
 }
 
+/**
+ * Ошибка с несколькими независимыми дочерними ошибками (например, при пакетной обработке),
+ * аналог стандартного `AggregateError` для `FabError`. Дочерние ошибки хранятся в `errors`
+ * и обходятся утилитами цепочек наравне с `cause`, образуя дерево ошибок. `toJSON()`
+ * сериализует их в поле `errors`.
+ *
+ * @example
+ * throw new AggregateFabError(BATCH_FAILED_SPEC, { batchId: 7 }, failures)
+ *
+ * @template TContext Тип объекта контекста, связанного с ошибкой.
+ */
+export class AggregateFabError<TContext extends object = Record<string, unknown>> extends FabError<TContext> {
+  /**
+   * Дочерние ошибки. Значения, не являющиеся `Error`, нормализуются так же, как `cause`.
+   */
+  public readonly errors: readonly Error[]
+
+  /**
+   * Создает экземпляр `AggregateFabError`.
+   *
+   * @param spec Спецификация ошибки.
+   * @param context Объект контекста.
+   * @param errors Дочерние ошибки (любые перехваченные значения).
+   * @param cause Общая причина (для `Error.cause`), если есть.
+   * @param creation Внутренний параметр библиотеки с опциями создания.
+   */
+  constructor (
+    spec: ErrorSpec<TContext>,
+    context: TContext,
+    errors: Iterable<unknown>,
+    cause?: unknown,
+    creation?: FabErrorCreationParameter
+  ) {
+    super(spec, context, cause, creation)
+    this.errors = Object.freeze(Array.from(errors, normalizeThrownValue))
+  }
+}
+
+/**
+ * Приводит произвольное перехваченное значение к `FabError`. Экземпляры `FabError`
+ * возвращаются без изменений, все остальное оборачивается через `FabError.wrap(value)`
+ * (спецификация `UNEXPECTED_ERROR_SPEC`).
+ *
+ * @param value Перехваченное значение.
+ * @returns `FabError`, в цепочке которой сохранено исходное значение.
+ */
+export function toFabError (value: unknown): FabError<object> {
+  return value instanceof FabError ? value : FabError.wrap(value)
+}
+
+/**
+ * Как `toFabError`, но обертка создается без автоматической отправки в лог: для конвертеров
+ * и форматирования (`toProblemDetails`, `toGrpcStatus`, `formatErrorChain` и т.д.), которые не должны логировать ошибку.
+ *
+ * @param value Перехваченное значение.
+ * @returns `FabError`, в цепочке которой сохранено исходное значение.
+ */
+export function toInternalFabError (value: unknown): FabError<object> {
+  return value instanceof FabError
+    ? value
+    : createFabError(INTERNAL_ERROR_CREATION_OPTIONS, UNEXPECTED_ERROR_SPEC, DEFAULT_WRAP_CONTEXT, value)
+}
+
 // END OF: src/fab-error.ts
@@ -0,0 +1,133 @@
+/**
+ * @file src/fingerprint.ts
+ * @description Стабильный отпечаток ошибки для группировки и дедупликации.
+ * @version 1.0.1
+ * @date 2026-10-19
+ * @updated Опции, явно заданные как undefined, заменяются значениями по умолчанию.
+ *
+ * HISTORY:
+ * v1.0.1 (2026-10-19): Слияние правила спецификации, опций вызова и умолчаний по полям через ??, а не spread.
+ * v1.0.0 (2026-10-19): Начальная реализация fingerprint (коды, шаблоны, нормализованные кадры стека, правила спецификаций).
+ */
+
+import { traverseErrorTree } from './chain-utils.js'
+import { config } from './config.js'
+import { FabError } from './fab-error.js'
+import { redactValue } from './redaction.js'
+import { parseStack, type StackFrame } from './stack.js'
+import { getValueByPath } from './utils.js'
+
+/**
+ * Опции вычисления отпечатка.
+ */
+export interface FingerprintOptions {
+  /** Число верхних кадров стека приложения, учитываемых в отпечатке; 0 отключает стек. По умолчанию 3. */
+  stackFrames?: number
+  /** Учитывать причины (`cause` и `errors`). По умолчанию `true`. */
+  includeCauses?: boolean
+}
+
+/**
+ * Правило отпечатка в спецификации ошибки (`ErrorSpec.fingerprint`). Опции правила спецификации
+ * корневой ошибки имеют приоритет над опциями вызова `fingerprint`.
+ */
+export interface ErrorFingerprintRule extends FingerprintOptions {
+  /**
+   * Пути в контексте (как в `getValueByPath`), значения которых входят в отпечаток, чтобы разделить
+   * группы по значимым полям (например, `['provider']`). Значения берутся после маскирования.
+   */
+  contextPaths?: readonly string[]
+}
+
+/** Значения опций по умолчанию. */
+const DEFAULT_FINGERPRINT_OPTIONS = {
+  stackFrames: 3,
+  includeCauses: true
+}
+
+/** Параметры 64-битного FNV-1a. */
+const FNV_OFFSET_BASIS = 0xcbf29ce484222325n
+const FNV_PRIME = 0x100000001b3n
+const UINT64_MASK = 0xffffffffffffffffn
+
+/**
+ * 64-битный хеш FNV-1a строки (по UTF-16 кодам символов) в шестнадцатеричном виде.
+ */
+function hashString (value: string): string {
+  let hash = FNV_OFFSET_BASIS
+  for (let index = 0; index < value.length; index++) {
+    hash ^= BigInt(value.charCodeAt(index))
+    hash = (hash * FNV_PRIME) & UINT64_MASK
+  }
+  return hash.toString(16).padStart(16, '0')
+}
+
+/**
+ * Нормализует кадр стека: имя функции и два последних сегмента пути файла без протокола, хоста,
+ * параметров запроса и номеров строки/столбца, чтобы отпечаток не зависел от каталога развертывания
+ * и мелких правок кода.
+ */
+function normalizeFrame (frame: StackFrame): string {
+  const path = (frame.file ?? '')
+    .replace(/^[a-z][a-z\d+.-]*:\/\/[^/]*/i, '')
+    .replace(/[?#].*$/, '')
+  const file = path.split(/[\\/]/).filter(segment => segment !== '').slice(-2).join('/')
+  return `${frame.functionName ?? '<anonymous>'} ${file}`
+}
+
+/**
+ * Составляющая отпечатка для одной ошибки цепочки: код и шаблон сообщения для `FabError`
+ * (с полями контекста из `spec.fingerprint.contextPaths`), имя для прочих ошибок.
+ */
+function describeLevel (error: Error): string {
+  if (!(error instanceof FabError)) {
+    return error.name
+  }
+  const { spec } = error
+  const parts = [error.code, spec.messageTemplate]
+  const contextPaths = spec.fingerprint?.contextPaths ?? []
+  if (contextPaths.length > 0) {
+    const context = redactValue(error.context, [spec.redact, config.redaction])
+    for (const path of contextPaths) {
+      parts.push(`${path}=${JSON.stringify(getValueByPath(context, path)) ?? 'undefined'}`)
+    }
+  }
+  return parts.join('|')
+}
+
+/**
+ * Вычисляет стабильный отпечаток ошибки для группировки на дашбордах и дедупликации отчетов.
+ *
+ * В отпечаток входят коды и шаблоны сообщений (`spec.messageTemplate`, а не отформатированные сообщения
+ * с идентификаторами) всех ошибок дерева (`cause` и `errors`), имена стандартных ошибок и нормализованные
+ * верхние кадры стека приложения корневой ошибки (без кадров библиотеки, `node_modules` и среды выполнения,
+ * без номеров строк). Спецификация корневой ошибки может переопределить опции через `spec.fingerprint`.
+ *
+ * @example
+ * const ORDER_NOT_FOUND_SPEC = { code: 'ORDER_NOT_FOUND', messageTemplate: 'Order {orderId} not found.', fingerprint: { stackFrames: 0 } }
+ * fingerprint(new FabError(ORDER_NOT_FOUND_SPEC, { orderId: 1 })) === fingerprint(new FabError(ORDER_NOT_FOUND_SPEC, { orderId: 2 })) // true
+ *
+ * @param error Ошибка.
+ * @param options Опции вычисления.
+ * @returns Шестнадцатеричная строка из 16 символов (64-битный хеш FNV-1a).
+ * @deterministic Да, для ошибок с теми же кодами, шаблонами, полями контекста и кадрами стека.
+ */
+export function fingerprint (error: Error, options: FingerprintOptions = {}): string {
+  const rule = error instanceof FabError ? error.spec.fingerprint : undefined
+  const stackFrames = rule?.stackFrames ?? options.stackFrames ?? DEFAULT_FINGERPRINT_OPTIONS.stackFrames
+  const includeCauses = rule?.includeCauses ?? options.includeCauses ?? DEFAULT_FINGERPRINT_OPTIONS.includeCauses
+
+  const levels = includeCauses
+    ? Array.from(traverseErrorTree(error), node => `${node.depth}:${describeLevel(node.error)}`)
+    : [`0:${describeLevel(error)}`]
+  const frames = stackFrames > 0
+    ? parseStack(error.stack, { stripLibraryFrames: true })
+      .filter(frame => !frame.isInternal && !frame.isNodeModules)
+      .slice(0, stackFrames)
+      .map(normalizeFrame)
+    : []
+
+  return hashString([...levels, ...frames].join('\n'))
+}
+
+// END OF: src/fingerprint.ts
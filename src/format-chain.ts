@@ -0,0 +1,286 @@
+/**
+ * @file src/format-chain.ts
+ * @description Человекочитаемый вывод цепочек ошибок (уровни, коды, контекст, документация, стек).
+ * @version 1.0.3
+ * @date 2026-10-19
+ * @updated Опции объединяются по полям, кадры библиотеки не выводятся.
+ *
+ * HISTORY:
+ * v1.0.3 (2026-10-19): Опции со значением undefined заменяются значениями по умолчанию; кадры библиотеки удаляются
+ *   согласно config.stackFrames.stripLibraryFrames.
+ * v1.0.2 (2026-10-19): Значения, не являющиеся Error, приводятся через toInternalFabError (без autoReport).
+ * v1.0.1 (2026-10-19): Кадры стека извлекаются через parseStack.
+ * v1.0.0 (2026-10-19): Начальная реализация formatErrorChain: текст с ANSI-цветом, Markdown, сворачивание кадров стека.
+ */
+
+import { config } from './config.js'
+import { FabError, toInternalFabError } from './fab-error.js'
+import { redactValue } from './redaction.js'
+import { parseStack } from './stack.js'
+
+/**
+ * Формат вывода `formatErrorChain`: простой текст (с ANSI-цветом или без) или Markdown.
+ */
+export type ErrorChainOutputFormat = 'text' | 'markdown'
+
+/**
+ * Опции вывода цепочки ошибок.
+ */
+export interface FormatErrorChainOptions {
+  /** Формат вывода. По умолчанию `'text'`. */
+  format?: ErrorChainOutputFormat
+  /**
+   * Раскрашивать текстовый вывод ANSI-последовательностями. По умолчанию `true`, если `process.stdout`
+   * является терминалом и не задана переменная окружения `NO_COLOR`. В формате Markdown не применяется.
+   */
+  color?: boolean
+  /**
+   * Поля контекста `FabError` для вывода. По умолчанию выводятся все поля верхнего уровня; `false`
+   * отключает вывод контекста. Значения маскируются по `spec.redact` и глобальной политике.
+   */
+  contextKeys?: readonly string[] | false
+  /** Максимальная длина значения поля контекста (длинные значения обрезаются). По умолчанию 80. */
+  maxValueLength?: number
+  /** Максимальное число кадров стека на уровень; 0 отключает вывод стека. По умолчанию 5. */
+  maxStackFrames?: number
+  /**
+   * Не повторять у причины кадры стека, совпадающие с концом стека предыдущего уровня
+   * (выводится `... N more`). По умолчанию `true`.
+   */
+  collapseDuplicateFrames?: boolean
+}
+
+/** Значения опций по умолчанию (кроме `color`, который определяется окружением). */
+const DEFAULT_FORMAT_OPTIONS = {
+  format: 'text' as ErrorChainOutputFormat,
+  contextKeys: undefined as readonly string[] | false | undefined,
+  maxValueLength: 80,
+  maxStackFrames: 5,
+  collapseDuplicateFrames: true
+}
+
+type ResolvedFormatOptions = typeof DEFAULT_FORMAT_OPTIONS & { color: boolean }
+
+/** ANSI-стили текстового вывода. */
+const ANSI = {
+  name: ['\u001b[1;31m', '\u001b[0m'],
+  code: ['\u001b[33m', '\u001b[39m'],
+  key: ['\u001b[36m', '\u001b[39m'],
+  link: ['\u001b[4;34m', '\u001b[0m'],
+  dim: ['\u001b[2m', '\u001b[22m']
+} as const
+
+type AnsiStyle = keyof typeof ANSI
+
+/**
+ * Подготовленное к выводу описание одного уровня цепочки.
+ */
+interface RenderedLevel {
+  name: string
+  code?: string
+  message: string
+  context: Array<[string, string]>
+  docs?: string
+  frames: string[]
+  omittedFrames: number
+}
+
+/**
+ * Определяет, поддерживает ли текущий вывод ANSI-цвет.
+ */
+function detectColor (): boolean {
+  if (typeof process === 'undefined') {
+    return false
+  }
+  return process.stdout?.isTTY === true && process.env.NO_COLOR === undefined
+}
+
+/**
+ * Извлекает строки кадров стека (`at fn (file:line:col)` или `fn@file:line:col`). Кадры библиотеки удаляются
+ * согласно `config.stackFrames.stripLibraryFrames`, чтобы стек начинался с кода приложения.
+ */
+function getStackFrames (error: Error): string[] {
+  return parseStack(error.stack, { stripLibraryFrames: config.stackFrames.stripLibraryFrames !== false })
+    .map(frame => frame.raw)
+}
+
+/**
+ * Число общих кадров в конце двух стеков.
+ */
+function countCommonTailFrames (frames: string[], enclosingFrames: string[]): number {
+  let count = 0
+  while (
+    count < frames.length &&
+    count < enclosingFrames.length &&
+    frames[frames.length - 1 - count] === enclosingFrames[enclosingFrames.length - 1 - count]
+  ) {
+    count++
+  }
+  return count
+}
+
+/**
+ * Строковое представление значения контекста с ограничением длины.
+ */
+function formatContextValue (value: unknown, maxLength: number): string {
+  let text: string
+  try {
+    text = typeof value === 'bigint' ? `${value}n` : JSON.stringify(value) ?? String(value)
+  } catch (_e) {
+    text = String(value)
+  }
+  return text.length > maxLength ? `${text.slice(0, Math.max(0, maxLength - 1))}…` : text
+}
+
+/**
+ * Выбирает и маскирует поля контекста уровня.
+ */
+function getContextEntries (error: Error, options: ResolvedFormatOptions): Array<[string, string]> {
+  if (!(error instanceof FabError) || options.contextKeys === false) {
+    return []
+  }
+  const context = redactValue(error.context, [error.spec.redact, config.redaction]) as Record<string, unknown>
+  const keys = options.contextKeys ?? Object.keys(context)
+  return keys
+    .filter(key => Object.prototype.hasOwnProperty.call(context, key) && context[key] !== undefined)
+    .map(key => [key, formatContextValue(context[key], options.maxValueLength)])
+}
+
+/**
+ * Подготавливает уровень к выводу; `enclosingFrames` — кадры предыдущего уровня цепочки `cause`.
+ */
+function renderLevel (error: Error, enclosingFrames: string[], options: ResolvedFormatOptions): RenderedLevel {
+  const allFrames = getStackFrames(error)
+  const common = options.collapseDuplicateFrames ? countCommonTailFrames(allFrames, enclosingFrames) : 0
+  const frames = allFrames.slice(0, Math.min(allFrames.length - common, Math.max(0, options.maxStackFrames)))
+  const code = (error as { code?: unknown }).code
+  return {
+    name: error.name,
+    code: typeof code === 'string' ? code : undefined,
+    message: error.message,
+    context: getContextEntries(error, options),
+    docs: error instanceof FabError ? error.docs : undefined,
+    frames,
+    omittedFrames: allFrames.length - frames.length
+  }
+}
+
+/**
+ * Форматирует уровень как текст; `indent` — отступ, `label` — префикс заголовка (`Caused by:`, `[0]`).
+ */
+function formatTextLevel (level: RenderedLevel, indent: string, label: string, color: boolean): string[] {
+  const paint = (style: AnsiStyle, text: string): string => color ? `${ANSI[style][0]}${text}${ANSI[style][1]}` : text
+  const code = level.code !== undefined ? ` ${paint('code', `[${level.code}]`)}` : ''
+  const lines = [`${indent}${label !== '' ? paint('dim', label) + ' ' : ''}${paint('name', level.name)}${code}: ${level.message}`]
+  for (const [key, value] of level.context) {
+    lines.push(`${indent}    ${paint('key', key)}: ${value}`)
+  }
+  if (level.docs !== undefined) {
+    lines.push(`${indent}    docs: ${paint('link', level.docs)}`)
+  }
+  for (const frame of level.frames) {
+    lines.push(paint('dim', `${indent}    ${frame}`))
+  }
+  if (level.omittedFrames > 0) {
+    lines.push(paint('dim', `${indent}    ... ${level.omittedFrames} more`))
+  }
+  return lines
+}
+
+/**
+ * Форматирует уровень как Markdown; `indent` — префикс цитаты для дочерних ошибок.
+ */
+function formatMarkdownLevel (level: RenderedLevel, indent: string, label: string): string[] {
+  const code = level.code !== undefined ? ` \`${level.code}\`` : ''
+  const lines = [`${indent}${label !== '' ? `**${label}** ` : ''}**${level.name}**${code}: ${level.message}`]
+  if (level.context.length > 0 || level.docs !== undefined) {
+    lines.push(indent.trimEnd())
+  }
+  for (const [key, value] of level.context) {
+    lines.push(`${indent}- \`${key}\`: \`${value}\``)
+  }
+  if (level.docs !== undefined) {
+    lines.push(`${indent}- docs: <${level.docs}>`)
+  }
+  if (level.frames.length > 0 || level.omittedFrames > 0) {
+    lines.push(indent.trimEnd(), `${indent}\`\`\`text`)
+    lines.push(...level.frames.map(frame => `${indent}${frame}`))
+    if (level.omittedFrames > 0) {
+      lines.push(`${indent}... ${level.omittedFrames} more`)
+    }
+    lines.push(`${indent}\`\`\``)
+  }
+  return lines
+}
+
+/**
+ * Форматирует цепочку ошибок для чтения человеком: каждый уровень цепочки `cause` выводится с именем,
+ * кодом, сообщением, полями контекста (с маскированием), ссылкой на документацию (`spec.docs`)
+ * и первыми кадрами стека. Дочерние ошибки (`errors`) выводятся с отступом (в Markdown — цитатой)
+ * под своим уровнем. Циклические ссылки выводятся как `[Circular]`.
+ *
+ * @example
+ * console.error(formatErrorChain(error))
+ * // FabError [ORDER_SYNC_FAILED]: Order 42 sync failed.
+ * //     orderId: 42
+ * //     at syncOrder (src/orders.ts:18:11)
+ * // Caused by: FabError [DB_TIMEOUT]: Query timed out after 5000ms.
+ * //     ... 7 more
+ *
+ * @param error Ошибка (любое перехваченное значение; не-`Error` приводится через `toFabError`).
+ * @param options Опции вывода.
+ * @returns Многострочное представление цепочки.
+ */
+export function formatErrorChain (error: unknown, options: FormatErrorChainOptions = {}): string {
+  const resolved: ResolvedFormatOptions = {
+    format: options.format ?? DEFAULT_FORMAT_OPTIONS.format,
+    color: options.color ?? detectColor(),
+    contextKeys: options.contextKeys ?? DEFAULT_FORMAT_OPTIONS.contextKeys,
+    maxValueLength: options.maxValueLength ?? DEFAULT_FORMAT_OPTIONS.maxValueLength,
+    maxStackFrames: options.maxStackFrames ?? DEFAULT_FORMAT_OPTIONS.maxStackFrames,
+    collapseDuplicateFrames: options.collapseDuplicateFrames ?? DEFAULT_FORMAT_OPTIONS.collapseDuplicateFrames
+  }
+  const markdown = resolved.format === 'markdown'
+  const color = !markdown && resolved.color
+  const visited = new Set<Error>()
+  const childIndent = markdown ? '> ' : '    '
+  const separator = markdown ? [''] : []
+
+  function formatChain (start: Error, indent: string, firstLabel: string): string[] {
+    const lines: string[] = []
+    let current: unknown = start
+    let label = firstLabel
+    let enclosingFrames: string[] = []
+    while (current instanceof Error) {
+      if (lines.length > 0) {
+        lines.push(...separator.map(() => indent.trimEnd()))
+      }
+      if (visited.has(current)) {
+        lines.push(`${indent}${label !== '' ? label + ' ' : ''}[Circular]`)
+        break
+      }
+      visited.add(current)
+
+      const level = renderLevel(current, enclosingFrames, resolved)
+      lines.push(...(markdown ? formatMarkdownLevel(level, indent, label) : formatTextLevel(level, indent, label, color)))
+      const children: unknown = (current as { errors?: unknown }).errors
+      if (Array.isArray(children)) {
+        children.forEach((child, index) => {
+          const childError = child instanceof Error ? child : toInternalFabError(child)
+          lines.push(...separator.map(() => indent.trimEnd()))
+          lines.push(...formatChain(childError, indent + childIndent, `[${index}]`))
+        })
+      }
+
+      enclosingFrames = getStackFrames(current)
+      current = current.cause
+      label = 'Caused by:'
+    }
+    return lines
+  }
+
+  const root = error instanceof Error ? error : toInternalFabError(error)
+  return formatChain(root, '', '').join('\n')
+}
+
+// END OF: src/format-chain.ts
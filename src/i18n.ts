@@ -0,0 +1,167 @@
+/**
+ * @file src/i18n.ts
+ * @description Локализация сообщений FabError: каталоги шаблонов по локалям и кодам ошибок, цепочки fallback.
+ * @version 1.1.0
+ * @date 2026-10-19
+ * @updated localize() маскирует чувствительные поля контекста.
+ *
+ * HISTORY:
+ * v1.1.0 (2026-10-19): localize() применяет spec.redact и глобальную политику маскирования.
+ * v1.0.0 (2026-10-19): Начальная реализация локализации сообщений ошибок.
+ */
+
+import { config } from './config.js'
+import type { ErrorSpec } from './error-spec.js'
+import type { FabError } from './fab-error.js'
+import { redactValue } from './redaction.js'
+import { formatMessage } from './utils.js'
+
+/**
+ * Каталог сообщений одной локали: код ошибки -> шаблон сообщения.
+ * Шаблоны используют тот же синтаксис плейсхолдеров, что и `ErrorSpec.messageTemplate`.
+ */
+export type MessageCatalog = Readonly<Record<string, string>>
+
+/**
+ * Отсутствующий перевод: код ошибки без шаблона в каталоге локали.
+ */
+export interface MissingTranslation {
+  code: string
+  locale: string
+}
+
+/**
+ * Найденный шаблон для кода ошибки.
+ */
+export interface ResolvedTemplate {
+  /** Шаблон сообщения. */
+  template: string
+  /** Локаль каталога, из которого взят шаблон. */
+  locale: string
+}
+
+/**
+ * Опции создания локализатора.
+ */
+export interface ErrorLocalizerOptions {
+  /** Начальные каталоги: локаль -> каталог сообщений. */
+  catalogs?: Readonly<Record<string, MessageCatalog>>
+  /** Локаль, используемая последней в цепочке fallback (например, `'en'`). */
+  defaultLocale?: string
+  /**
+   * Дополнительные fallback-локали для конкретных языков, проверяемые после самой локали
+   * и ее базового языка. Например, `{ uk: ['ru'] }`.
+   */
+  fallbacks?: Readonly<Record<string, readonly string[]>>
+  /**
+   * Вызывается, когда для запрошенной локали (и ее базового языка) нет перевода
+   * и сообщение взято из fallback-локали или из `spec.messageTemplate`.
+   */
+  onMissingTranslation?: (missing: MissingTranslation) => void
+}
+
+/**
+ * Локализатор сообщений ошибок.
+ */
+export interface ErrorLocalizer {
+  /** Добавляет (или дополняет) каталог сообщений локали. */
+  addCatalog: (locale: string, catalog: MessageCatalog) => void
+  /**
+   * Возвращает цепочку локалей для поиска перевода:
+   * `'ru-RU'` -> `['ru-RU', 'ru', ...fallbacks.ru, defaultLocale]` (без повторов).
+   */
+  getLocaleChain: (locale: string) => string[]
+  /** Ищет шаблон для кода ошибки по цепочке локалей. */
+  resolveTemplate: (code: string, locale: string) => ResolvedTemplate | undefined
+  /**
+   * Формирует локализованное сообщение ошибки из ее `context` по шаблону из каталога.
+   * Если перевода нет ни в одной локали цепочки, используется `spec.messageTemplate`.
+   * Свойство `error.message` при этом не меняется. Чувствительные поля маскируются так же, как в `message`.
+   */
+  localize: (error: FabError<object>, locale: string) => string
+  /**
+   * Возвращает коды (или спецификации) без перевода в каталогах указанных локалей
+   * (без учета fallback). По умолчанию проверяются все локали с каталогами.
+   */
+  findMissingTranslations: (codes: Array<string | ErrorSpec<object>>, locales?: readonly string[]) => MissingTranslation[]
+}
+
+/**
+ * Создает локализатор сообщений ошибок.
+ *
+ * @param options Каталоги, локаль по умолчанию, fallback-цепочки и обработчик отсутствующих переводов.
+ * @returns Новый экземпляр `ErrorLocalizer`.
+ */
+export function createErrorLocalizer (options: ErrorLocalizerOptions = {}): ErrorLocalizer {
+  const catalogs = new Map<string, Record<string, string>>()
+
+  function addCatalog (locale: string, catalog: MessageCatalog): void {
+    catalogs.set(locale, { ...catalogs.get(locale), ...catalog })
+  }
+
+  /** Сама локаль и ее укороченные варианты: `'zh-Hant-TW'` -> `['zh-Hant-TW', 'zh-Hant', 'zh']`. */
+  function getOwnLocales (locale: string): string[] {
+    const parts = locale.split('-')
+    return parts.map((_part, index) => parts.slice(0, parts.length - index).join('-'))
+  }
+
+  function getLocaleChain (locale: string): string[] {
+    const own = getOwnLocales(locale)
+    const language = own[own.length - 1]
+    const chain = [...own, ...(options.fallbacks?.[locale] ?? []), ...(options.fallbacks?.[language] ?? [])]
+    if (options.defaultLocale !== undefined) {
+      chain.push(options.defaultLocale)
+    }
+    return [...new Set(chain)]
+  }
+
+  function resolveTemplate (code: string, locale: string): ResolvedTemplate | undefined {
+    for (const candidate of getLocaleChain(locale)) {
+      const template = catalogs.get(candidate)?.[code]
+      if (typeof template === 'string') {
+        return { template, locale: candidate }
+      }
+    }
+    return undefined
+  }
+
+  for (const [locale, catalog] of Object.entries(options.catalogs ?? {})) {
+    addCatalog(locale, catalog)
+  }
+
+  return {
+    addCatalog,
+    getLocaleChain,
+    resolveTemplate,
+    localize (error, locale) {
+      const resolved = resolveTemplate(error.code, locale)
+      if (resolved === undefined || !getOwnLocales(locale).includes(resolved.locale)) {
+        options.onMissingTranslation?.({ code: error.code, locale })
+      }
+      const template = resolved?.template ?? error.spec.messageTemplate
+      const context = redactValue(error.context, [error.spec.redact, config.redaction]) as object
+      return formatMessage(template, context, error.spec.messageFormat)
+    },
+    findMissingTranslations (codes, locales = [...catalogs.keys()]) {
+      const missing: MissingTranslation[] = []
+      for (const locale of locales) {
+        const catalog = catalogs.get(locale)
+        for (const entry of codes) {
+          const code = typeof entry === 'string' ? entry : entry.code
+          if (typeof catalog?.[code] !== 'string') {
+            missing.push({ code, locale })
+          }
+        }
+      }
+      return missing
+    }
+  }
+}
+
+/**
+ * Локализатор по умолчанию. Используется `FabError.localize()`, если локализатор не передан явно.
+ * Изначально не содержит каталогов: добавьте их через `defaultErrorLocalizer.addCatalog()`.
+ */
+export const defaultErrorLocalizer: ErrorLocalizer = createErrorLocalizer()
+
+// END OF: src/i18n.ts
@@ -1,42 +1,237 @@
 /**
  * @file src/index.ts
  * @description Основной файл экспорта (barrel file) для библиотеки @fab33/fab-errors.
- * @version 1.0.3
- * @date 2025-05-30
- * @updated Добавлена пустая строка в конце файла.
+ * @version 1.24.0
+ * @date 2026-10-19
+ * @updated Добавлен экспорт проверки контекста.
  *
  * HISTORY:
+ * v1.24.0 (2026-10-19): Экспорт validateContext, fromStandardSchema, summarizeContextIssues, CONTEXT_VALIDATION_FAILED_SPEC и типов схемы контекста.
+ * v1.23.0 (2026-10-19): Экспорт createErrorCatalog, findErrorSpecs, toErrorCatalogJSONSchema, toErrorCatalogMarkdown и типов каталога.
+ * v1.22.0 (2026-10-19): Экспорт fingerprint, FingerprintOptions и ErrorFingerprintRule.
+ * v1.21.0 (2026-10-19): Экспорт parseStack, StackFrame, ParseStackOptions и StackFramesConfig.
+ * v1.20.0 (2026-10-19): Экспорт formatErrorChain, FormatErrorChainOptions и ErrorChainOutputFormat.
+ * v1.19.0 (2026-10-19): Экспорт matchErrorChain, ERROR_CHAIN_MISMATCH_SPEC, ErrorChainMismatchContext и типов отчета.
+ * v1.18.0 (2026-10-19): Экспорт findAllErrorsInChain, findErrorDepthInChain, getErrorChain и getRootCause.
+ * v1.17.0 (2026-10-19): Экспорт findErrorInChain, matchesCriteria и ContextMatcher.
+ * v1.16.0 (2026-10-19): Экспорт retry, RETRY_EXHAUSTED_SPEC, RetryExhaustedContext и типов RetryPolicy, RetryAttemptInfo, Clock.
+ * v1.15.0 (2026-10-19): Экспорт ErrorCategory.
+ * v1.14.0 (2026-10-19): Экспорт reportError, ErrorSeverity, ReportErrorOptions и ErrorReportingConfig.
+ * v1.13.0 (2026-10-19): Экспорт GrpcStatus, JsonRpcErrorCode, конвертеров gRPC/JSON-RPC, RPC_ERROR_SPEC и типов.
+ * v1.12.0 (2026-10-19): Экспорт toProblemDetails, fromProblemDetails, HTTP_PROBLEM_SPEC, ErrorVisibility и типов.
+ * v1.11.0 (2026-10-19): Экспорт redactValue, REDACTED_MASK, DEFAULT_REDACTED_KEYS, setFabErrorsConfig и типов.
+ * v1.10.0 (2026-10-19): Экспорт FabErrorToJSONOptions.
+ * v1.9.0 (2026-10-19): Экспорт AggregateFabError, traverseErrorTree, getChildErrors и типов обхода.
+ * v1.8.0 (2026-10-19): Экспорт toFabError, NON_ERROR_THROWN_SPEC и NonErrorThrownContext.
+ * v1.7.0 (2026-10-19): Экспорт Result, ok/err, map/mapErr/andThen/unwrap/match, асинхронных вариантов и tryCatch.
+ * v1.6.0 (2026-10-19): Экспорт createErrorLocalizer, defaultErrorLocalizer и типов i18n.
+ * v1.5.0 (2026-10-19): Экспорт defineErrorSpec, validateSpec, parseTemplatePlaceholders и типов template-types.
+ * v1.4.0 (2026-10-19): Экспорт formatMessage, getValueByPath, DEFAULT_MESSAGE_FORMATTERS и типов форматирования.
+ * v1.3.0 (2026-10-19): Экспорт defineError и DefinedError.
+ * v1.2.0 (2026-10-19): Экспорт SPEC_DUPLICATE_CODE_SPEC, SPEC_INVALID_CODE_SPEC, ErrorSpecFilter, isValidErrorCode.
+ * v1.1.0 (2026-10-19): Экспорт createErrorSpecRegistry, defaultErrorSpecRegistry, FabErrorFromJSONOptions.
  * v1.0.1 (2025-05-30): eol-last.
  * v1.0.0 (2025-05-29): Начальный набор экспортов для v1.
  */
 
 // Основной класс ошибки
-export { FabError } from './fab-error.js'
-export type { FabErrorJSON } from './fab-error.js'
+export { FabError, AggregateFabError, toFabError } from './fab-error.js'
+export type { FabErrorJSON, FabErrorFromJSONOptions, FabErrorToJSONOptions } from './fab-error.js'
 
-// Тип для спецификации ошибки
-export type { ErrorSpec } from './error-spec.js'
+// Тип для спецификации ошибки и проверка шаблонов
+export type { ErrorSpec, ErrorVisibility, ErrorSeverity, ErrorCategory } from './error-spec.js'
+export type { TemplatePlaceholders, InvalidPlaceholders, ValidateTemplate, IsValidPath } from './template-types.js'
+export { validateSpec } from './spec-validation.js'
+export type {
+  SpecValidationIssue,
+  SpecValidationIssueKind,
+  SpecValidationResult,
+  ValidateSpecOptions
+} from './spec-validation.js'
+
+// Проверка контекста во время выполнения
+export { validateContext, fromStandardSchema, summarizeContextIssues } from './context-schema.js'
+export type {
+  ContextSchema,
+  ContextFieldType,
+  ContextFieldShorthand,
+  ContextFieldSchema,
+  ContextFieldDefinition,
+  ContextValidator,
+  ContextValidationIssue,
+  ContextValidationMode,
+  ContextValidationConfig,
+  StandardSchemaV1Like,
+  StandardSchemaV1Result
+} from './context-schema.js'
+
+// Генератор типизированных помощников для спецификации
+export { defineError, defineErrorSpec } from './define-error.js'
+export type { DefinedError } from './define-error.js'
+
+// Реестр спецификаций ошибок
+export { createErrorSpecRegistry, defaultErrorSpecRegistry } from './spec-registry.js'
+export type { ErrorSpecRegistry, ErrorSpecRegistryOptions, ErrorSpecFilter } from './spec-registry.js'
+
+// Каталог спецификаций ошибок (JSON, JSON Schema, Markdown)
+export { createErrorCatalog, findErrorSpecs, toErrorCatalogJSONSchema, toErrorCatalogMarkdown } from './catalog.js'
+export type { ErrorCatalog, ErrorCatalogEntry, ErrorCatalogMarkdownOptions } from './catalog.js'
 
 // Утилиты для работы с цепочками ошибок
-export { hasErrorInChain, checkErrorChain } from './chain-utils.js'
-export type { ErrorCriteria, ExpectedChainLevel } from './chain-utils.js'
+export {
+  hasErrorInChain,
+  findErrorInChain,
+  findAllErrorsInChain,
+  findErrorDepthInChain,
+  getErrorChain,
+  getRootCause,
+  matchesCriteria,
+  matchErrorChain,
+  checkErrorChain,
+  traverseErrorTree,
+  getChildErrors,
+  DEFAULT_MAX_ERROR_TREE_DEPTH
+} from './chain-utils.js'
+export type {
+  ErrorCriteria,
+  ContextMatcher,
+  ExpectedChainLevel,
+  ErrorChainMatchMode,
+  ErrorChainMatchOptions,
+  ErrorChainMismatchField,
+  ErrorChainMismatch,
+  ErrorChainMatchResult,
+  ErrorTreeTraversalOptions,
+  ErrorTreeNode
+} from './chain-utils.js'
+
+// Result для потоков без исключений
+export {
+  ok,
+  err,
+  isOk,
+  isErr,
+  map,
+  mapErr,
+  andThen,
+  unwrap,
+  unwrapOr,
+  match,
+  mapAsync,
+  mapErrAsync,
+  andThenAsync,
+  tryCatch,
+  tryCatchAsync,
+  isErrWith
+} from './result.js'
+export type { Result, Ok, Err, ResultMatchers } from './result.js'
+
+// Локализация сообщений ошибок
+export { createErrorLocalizer, defaultErrorLocalizer } from './i18n.js'
+export type {
+  ErrorLocalizer,
+  ErrorLocalizerOptions,
+  MessageCatalog,
+  MissingTranslation,
+  ResolvedTemplate
+} from './i18n.js'
 
 // Базовые спецификации ошибок (как примеры)
 export {
   INVALID_ARGUMENT_SPEC,
   OPERATION_FAILED_SPEC,
   NOT_IMPLEMENTED_SPEC,
-  UNEXPECTED_ERROR_SPEC
+  UNEXPECTED_ERROR_SPEC,
+  SPEC_DUPLICATE_CODE_SPEC,
+  SPEC_INVALID_CODE_SPEC,
+  NON_ERROR_THROWN_SPEC,
+  HTTP_PROBLEM_SPEC,
+  RPC_ERROR_SPEC,
+  RETRY_EXHAUSTED_SPEC,
+  ERROR_CHAIN_MISMATCH_SPEC,
+  CONTEXT_VALIDATION_FAILED_SPEC
 } from './base-specs.js'
 export type {
   InvalidArgumentContext,
   OperationFailedContext,
   NotImplementedContext,
-  UnexpectedErrorContext
+  UnexpectedErrorContext,
+  SpecDuplicateCodeContext,
+  SpecInvalidCodeContext,
+  NonErrorThrownContext,
+  HttpProblemContext,
+  RpcErrorContext,
+  RetryExhaustedContext,
+  ErrorChainMismatchContext,
+  ContextValidationFailedContext
 } from './base-specs.js'
 
+// Вспомогательные утилиты
+export {
+  isValidErrorCode,
+  formatMessage,
+  getValueByPath,
+  parseTemplatePlaceholders,
+  DEFAULT_MESSAGE_FORMATTERS
+} from './utils.js'
+export type { FormatMessageOptions, MessageFormatter, MissingValuePolicy, TemplatePlaceholder } from './utils.js'
+
+// HTTP problem details (RFC 9457)
+export { toProblemDetails, fromProblemDetails } from './problem-details.js'
+export type { ProblemDetails, ToProblemDetailsOptions, FromProblemDetailsOptions } from './problem-details.js'
+
+// Сопоставление с gRPC и JSON-RPC 2.0
+export {
+  GrpcStatus,
+  JsonRpcErrorCode,
+  DEFAULT_RPC_STATUS_MAPPINGS,
+  GRPC_ERROR_INFO_TYPE,
+  getGrpcStatus,
+  getJsonRpcCode,
+  toJsonRpcError,
+  fromJsonRpcError,
+  toGrpcStatus,
+  fromGrpcStatus
+} from './rpc-status.js'
+export type {
+  GrpcStatusCode,
+  RpcStatusMapping,
+  GrpcErrorInfo,
+  GrpcStatusObject,
+  JsonRpcErrorData,
+  JsonRpcErrorObject,
+  ToRpcErrorOptions,
+  FromRpcErrorOptions
+} from './rpc-status.js'
+
+// Маскирование чувствительных данных и глобальная конфигурация
+export { redactValue, REDACTED_MASK, DEFAULT_REDACTED_KEYS } from './redaction.js'
+export type { RedactionRule, RedactionPredicate } from './redaction.js'
+export { setFabErrorsConfig, config as fabErrorsConfig } from './config.js'
+export type { FabErrorsConfig } from './config.js'
+
+// Повтор операций при временных ошибках
+export { retry } from './retry.js'
+export type { RetryPolicy, RetryAttemptInfo } from './retry.js'
+
+// Разбор стека вызовов
+export { parseStack } from './stack.js'
+export type { StackFrame, ParseStackOptions, StackFramesConfig } from './stack.js'
+
+// Отпечаток ошибки для группировки и дедупликации
+export { fingerprint } from './fingerprint.js'
+export type { FingerprintOptions, ErrorFingerprintRule } from './fingerprint.js'
+
+// Человекочитаемый вывод цепочек ошибок
+export { formatErrorChain } from './format-chain.js'
+export type { FormatErrorChainOptions, ErrorChainOutputFormat } from './format-chain.js'
+
+// Отправка ошибок в лог
+export { reportError } from './report.js'
+export type { ReportErrorOptions, ErrorReportingConfig } from './report.js'
+
 // DI для внутреннего логирования библиотеки
-export type { LoggerLike, FabErrorsDependencies } from './di.js'
+export type { LoggerLike, FabErrorsDependencies, Clock } from './di.js'
 export { setFabErrorsDependencies, dependencies as fabErrorsInternalDependencies } from './di.js'
 
 // END OF: src/index.ts
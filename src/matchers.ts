@@ -0,0 +1,314 @@
+/**
+ * @file src/matchers.ts
+ * @description Пользовательские матчеры Vitest/Jest для проверки FabError и цепочек ошибок.
+ * @version 1.0.2
+ * @date 2026-10-19
+ * @updated Цепочка cause для diff строится через getErrorChain.
+ *
+ * HISTORY:
+ * v1.0.2 (2026-10-19): Удалена собственная getCauseChain; цепочка строится через getErrorChain({ causesOnly: true }), как в matchErrorChain.
+ * v1.0.1 (2026-10-19): toMatchErrorChain и проекция уровней построены на matchErrorChain.
+ * v1.0.0 (2026-10-19): Матчеры toHaveErrorInChain, toMatchErrorChain и toBeFabError со структурированным diff.
+ */
+
+import {
+  type ContextMatcher,
+  type ErrorCriteria,
+  type ExpectedChainLevel,
+  getErrorChain,
+  matchErrorChain,
+  matchesCriteria
+} from './chain-utils.js'
+import type { ErrorSpec } from './error-spec.js'
+import { FabError } from './fab-error.js'
+
+/**
+ * Минимальное подмножество контекста матчера (`this`), общее для Vitest и Jest.
+ */
+export interface FabErrorMatcherState {
+  isNot?: boolean
+  utils?: {
+    diff?: (expected: unknown, actual: unknown) => string | null | undefined
+    stringify?: (value: unknown) => string
+  }
+}
+
+/**
+ * Результат матчера в формате Vitest/Jest. `expected` и `actual` используются раннером для diff.
+ */
+export interface FabErrorMatcherResult {
+  pass: boolean
+  message: () => string
+  expected?: unknown
+  actual?: unknown
+}
+
+/**
+ * Сигнатуры матчеров для расширения типов `expect` (см. FAB_ERRORS.md, раздел о матчерах).
+ *
+ * @example
+ * declare module 'vitest' {
+ *   interface Assertion<T = any> extends FabErrorMatchers<T> {}
+ * }
+ *
+ * @template R Тип результата цепочки `expect` (задается раннером).
+ */
+export interface FabErrorMatchers<R = unknown> {
+  /** Проверяет, что в дереве ошибки (`cause` и `errors`) есть ошибка, соответствующая критериям. */
+  toHaveErrorInChain: <TContext extends object = object>(criteria: ErrorCriteria<TContext>) => R
+  /** Проверяет цепочку `cause` уровень за уровнем (как `checkErrorChain`). */
+  toMatchErrorChain: (levels: ExpectedChainLevel[]) => R
+  /** Проверяет, что значение является `FabError` спецификации `spec` с контекстом, содержащим `contextSubset`. */
+  toBeFabError: <TContext extends object>(spec: ErrorSpec<TContext>, contextSubset?: ContextMatcher<TContext>) => R
+}
+
+/**
+ * Краткое описание уровня цепочки для сообщений и diff.
+ */
+interface ErrorLevelSummary {
+  name: string
+  code?: string
+  message: string
+}
+
+/** Маркер «функция выполнилась без ошибки» / «промис выполнился успешно». */
+const NOTHING_THROWN = Symbol('nothing thrown')
+
+/**
+ * Получает проверяемую ошибку: функция вызывается (ошибка перехватывается), промис ожидается.
+ * Возвращает промис только для асинхронного источника.
+ */
+function resolveReceived (received: unknown): unknown {
+  let value = received
+  if (typeof received === 'function') {
+    try {
+      value = (received as () => unknown)()
+    } catch (error) {
+      return error
+    }
+    if (!isThenable(value)) {
+      return NOTHING_THROWN
+    }
+  }
+  if (isThenable(value)) {
+    return Promise.resolve(value).then(() => NOTHING_THROWN, (error: unknown) => error)
+  }
+  return value
+}
+
+/**
+ * Проверяет, является ли значение промисом (thenable).
+ */
+function isThenable (value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as { then?: unknown } | null)?.then === 'function'
+}
+
+/**
+ * Применяет проверку к ошибке из `received`, синхронно или асинхронно.
+ */
+function evaluate (
+  received: unknown,
+  check: (error: Error) => FabErrorMatcherResult
+): FabErrorMatcherResult | Promise<FabErrorMatcherResult> {
+  const apply = (value: unknown): FabErrorMatcherResult => {
+    if (!(value instanceof Error)) {
+      const description = value === NOTHING_THROWN ? 'nothing was thrown' : `received ${describeValue(value)}`
+      return { pass: false, message: () => `expected an Error, but ${description}` }
+    }
+    return check(value)
+  }
+  const value = resolveReceived(received)
+  return value instanceof Promise ? value.then(apply) : apply(value)
+}
+
+/**
+ * Строковое представление значения для сообщений.
+ */
+function describeValue (value: unknown): string {
+  if (typeof value === 'string') {
+    return JSON.stringify(value)
+  }
+  try {
+    return JSON.stringify(value) ?? String(value)
+  } catch (_e) {
+    return String(value)
+  }
+}
+
+/**
+ * Краткое описание ошибки: имя, код и сообщение.
+ */
+function summarize (error: Error): ErrorLevelSummary {
+  const code = (error as { code?: unknown }).code
+  return { name: error.name, ...(typeof code === 'string' ? { code } : {}), message: error.message }
+}
+
+/**
+ * Формирует текст ошибки матчера с diff (если раннер предоставляет `utils.diff`).
+ */
+function formatFailure (state: FabErrorMatcherState, header: string, expected: unknown, actual: unknown): string {
+  const diff = state.utils?.diff?.(expected, actual)
+  return typeof diff === 'string' && diff !== '' ? `${header}\n\n${diff}` : header
+}
+
+/**
+ * Проверяет один уровень (критерии и дочерние цепочки `errors`).
+ */
+function matchesLevel (error: Error, level: ExpectedChainLevel): boolean {
+  const { errors: expectedErrors, ...criteria } = level
+  if (!matchesCriteria(error, criteria)) {
+    return false
+  }
+  if (expectedErrors === undefined) {
+    return true
+  }
+  const children: unknown = (error as { errors?: unknown }).errors
+  return Array.isArray(children) && children.length === expectedErrors.length &&
+    expectedErrors.every((chain, index) => matchErrorChain(children[index] instanceof Error ? children[index] : undefined, chain).matched)
+}
+
+/**
+ * Проецирует ошибку на ключи ожидаемого уровня, чтобы diff показывал фактические значения тех же полей.
+ */
+function projectLevel (error: Error, level: ExpectedChainLevel): Record<string, unknown> {
+  const source = error as unknown as Record<string, unknown>
+  const projection: Record<string, unknown> = {}
+  for (const key of Object.keys(level)) {
+    switch (key) {
+      case 'type':
+        projection.type = error.constructor
+        break
+      case 'message':
+      case 'exactMessage':
+        projection[key] = error.message
+        break
+      case 'spec':
+        projection.spec = error instanceof FabError ? error.spec : undefined
+        break
+      case 'errors': {
+        const children: unknown = source.errors
+        projection.errors = Array.isArray(children)
+          ? children.map((child, index) => child instanceof Error ? projectChain(child, level.errors?.[index] ?? []) : child)
+          : children
+        break
+      }
+      case 'predicate':
+      case 'anyOf':
+      case 'allOf':
+      case 'not':
+        projection[key] = summarize(error)
+        break
+      default:
+        projection[key] = source[key]
+    }
+  }
+  return projection
+}
+
+/**
+ * Строит фактическую цепочку для diff: совпавшие уровни повторяют ожидание, несовпавшие
+ * проецируются на ожидаемые ключи, лишние уровни описываются кратко.
+ */
+function projectChain (error: Error, levels: ExpectedChainLevel[]): unknown[] {
+  const chain = getErrorChain(error, { causesOnly: true })
+  const projection: unknown[] = levels.map((level, index) => {
+    const current = chain[index]
+    if (current === undefined) {
+      return undefined
+    }
+    return matchesLevel(current, level) ? level : projectLevel(current, level)
+  })
+  return projection.concat(chain.slice(levels.length).map(summarize))
+}
+
+/**
+ * Матчер `toHaveErrorInChain(criteria)`.
+ */
+function toHaveErrorInChain (
+  this: FabErrorMatcherState,
+  received: unknown,
+  criteria: ErrorCriteria
+): FabErrorMatcherResult | Promise<FabErrorMatcherResult> {
+  return evaluate(received, error => {
+    const chain = getErrorChain(error)
+    const match = chain.find(item => matchesCriteria(item, criteria))
+    const actual = chain.map(summarize)
+    return {
+      pass: match !== undefined,
+      message: () => match !== undefined
+        ? `expected error chain not to contain an error matching criteria, but found ${describeValue(summarize(match))}`
+        : formatFailure(this, 'expected error chain to contain an error matching criteria', criteria, actual),
+      expected: criteria,
+      actual
+    }
+  })
+}
+
+/**
+ * Матчер `toMatchErrorChain(levels)`.
+ */
+function toMatchErrorChain (
+  this: FabErrorMatcherState,
+  received: unknown,
+  levels: ExpectedChainLevel[]
+): FabErrorMatcherResult | Promise<FabErrorMatcherResult> {
+  return evaluate(received, error => {
+    const { mismatch } = matchErrorChain(error, levels)
+    const actual = projectChain(error, levels)
+    return {
+      pass: mismatch === undefined,
+      message: () => mismatch === undefined
+        ? 'expected error chain not to match the expected levels'
+        : formatFailure(this, `expected error chain to match the expected levels\n${mismatch.description}`, levels, actual),
+      expected: levels,
+      actual
+    }
+  })
+}
+
+/**
+ * Матчер `toBeFabError(spec, contextSubset?)`.
+ */
+function toBeFabError (
+  this: FabErrorMatcherState,
+  received: unknown,
+  spec: ErrorSpec<object>,
+  contextSubset?: ContextMatcher<object>
+): FabErrorMatcherResult | Promise<FabErrorMatcherResult> {
+  return evaluate(received, error => {
+    const pass = matchesCriteria(error, { spec, context: contextSubset })
+    const expected = contextSubset === undefined ? { code: spec.code } : { code: spec.code, context: contextSubset }
+    const actual = error instanceof FabError
+      ? (contextSubset === undefined ? { code: error.code } : { code: error.code, context: error.context })
+      : summarize(error)
+    return {
+      pass,
+      message: () => pass
+        ? `expected error not to be FabError ${spec.code}${contextSubset === undefined ? '' : ' with matching context'}`
+        : formatFailure(this, `expected error to be FabError ${spec.code}${contextSubset === undefined ? '' : ' with matching context'}`, expected, actual),
+      expected,
+      actual
+    }
+  })
+}
+
+/**
+ * Набор матчеров для `expect.extend` (Vitest и Jest). Каждый матчер принимает ошибку, функцию
+ * (вызывается, выброшенная ошибка проверяется) или промис (проверяется причина отклонения);
+ * с модификатором `.rejects` матчеры работают как обычно.
+ *
+ * @example
+ * import { expect } from 'vitest'
+ * import { fabErrorMatchers } from '@fab33/fab-errors/matchers'
+ * expect.extend(fabErrorMatchers)
+ *
+ * expect(() => parse(input)).toBeFabError(INVALID_ARGUMENT_SPEC, { argumentName: 'input' })
+ * await expect(load()).rejects.toHaveErrorInChain({ code: 'DB_*' })
+ */
+export const fabErrorMatchers = {
+  toHaveErrorInChain,
+  toMatchErrorChain,
+  toBeFabError
+}
+
+// END OF: src/matchers.ts
@@ -0,0 +1,237 @@
+/**
+ * @file src/problem-details.ts
+ * @description Преобразование FabError в HTTP problem details (RFC 9457) и обратно.
+ * @version 1.1.4
+ * @date 2026-10-19
+ * @updated getPublicContext перенесена в public-context.ts.
+ *
+ * HISTORY:
+ * v1.1.4 (2026-10-19): getPublicContext перенесена в public-context.ts.
+ * v1.1.3 (2026-10-19): toProblemDetails приводит значения через toInternalFabError (без autoReport).
+ * v1.1.2 (2026-10-19): Восстановленные ошибки создаются через createFabError (явные опции создания).
+ * v1.1.1 (2026-10-19): fromProblemDetails создает ошибки с RESTORED_ERROR_CREATION_OPTIONS (без autoReport).
+ * v1.1.0 (2026-10-19): Расширения из контекста только по spec.publicContextKeys (getPublicContext), значения приводятся к JSON.
+ * v1.0.0 (2026-10-19): Начальная реализация toProblemDetails и fromProblemDetails.
+ */
+
+import { HTTP_PROBLEM_SPEC, INVALID_ARGUMENT_SPEC } from './base-specs.js'
+import { traverseErrorTree } from './chain-utils.js'
+import type { ErrorSpec } from './error-spec.js'
+import { createFabError, FabError, RESTORED_ERROR_CREATION_OPTIONS, toInternalFabError } from './fab-error.js'
+import { getPublicContext } from './public-context.js'
+import { defaultErrorSpecRegistry, type ErrorSpecRegistry } from './spec-registry.js'
+
+/**
+ * Тело ответа в формате HTTP problem details (RFC 9457).
+ * Помимо стандартных членов содержит расширения: `code` (код ошибки), поля контекста
+ * из `spec.publicContextKeys` и `causes` (публичные ошибки из цепочки).
+ */
+export interface ProblemDetails {
+  /** URI типа проблемы (`spec.docs`) или `'about:blank'`. */
+  type: string
+  /** Краткое описание проблемы, неизменное для одного статуса. */
+  title: string
+  /** HTTP-статус. */
+  status: number
+  /** Описание конкретного случая (сообщение ошибки, только для публичных ошибок). */
+  detail?: string
+  /** URI конкретного случая проблемы. */
+  instance?: string
+  /** Код ошибки (расширение, только для публичных ошибок). */
+  code?: string
+  /** Публичные ошибки из цепочки `cause`/`errors` (расширение). */
+  causes?: ProblemDetails[]
+  /** Прочие расширения (поля контекста из `spec.publicContextKeys`). */
+  [extension: string]: unknown
+}
+
+/**
+ * Опции преобразования в problem details.
+ */
+export interface ToProblemDetailsOptions {
+  /** Значение члена `instance`, например путь запроса. */
+  instance?: string
+  /**
+   * Показывать детали внутренних ошибок (`visibility: 'internal'`), например в окружении разработки.
+   * По умолчанию `false`.
+   */
+  exposeInternal?: boolean
+}
+
+/**
+ * Опции восстановления ошибки из problem details.
+ */
+export interface FromProblemDetailsOptions {
+  /** Реестр, в котором ищутся спецификации по коду. По умолчанию `defaultErrorSpecRegistry`. */
+  registry?: ErrorSpecRegistry
+}
+
+/** HTTP-статус ошибки без `spec.httpStatus`. */
+const DEFAULT_HTTP_STATUS = 500
+
+/** Стандартные члены problem details и расширения библиотеки, которые не заполняются из контекста. */
+const RESERVED_MEMBERS = new Set(['type', 'title', 'status', 'detail', 'instance', 'code', 'causes'])
+
+/** Стандартные фразы HTTP-статусов, используемые как `title`. */
+const STATUS_TITLES: Readonly<Record<number, string>> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  408: 'Request Timeout',
+  409: 'Conflict',
+  410: 'Gone',
+  412: 'Precondition Failed',
+  413: 'Content Too Large',
+  415: 'Unsupported Media Type',
+  422: 'Unprocessable Content',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  501: 'Not Implemented',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout'
+}
+
+/**
+ * Возвращает `title` для HTTP-статуса.
+ */
+function getStatusTitle (status: number): string {
+  return STATUS_TITLES[status] ?? (status >= 500 ? 'Server Error' : 'Client Error')
+}
+
+/**
+ * Проверяет, можно ли показывать детали ошибки клиенту.
+ */
+function isExposed (error: FabError<object>, options: ToProblemDetailsOptions): boolean {
+  return error.spec.visibility === 'public' || options.exposeInternal === true
+}
+
+/**
+ * Строит problem details для одной ошибки без `causes`.
+ */
+function describeProblem (error: FabError<object>, options: ToProblemDetailsOptions): ProblemDetails {
+  const status = error.spec.httpStatus ?? DEFAULT_HTTP_STATUS
+  const title = getStatusTitle(status)
+  if (!isExposed(error, options)) {
+    return { type: 'about:blank', title, status }
+  }
+
+  const problem: ProblemDetails = {
+    type: error.spec.docs ?? 'about:blank',
+    title,
+    status,
+    detail: error.message,
+    code: error.code
+  }
+  for (const [key, value] of Object.entries(getPublicContext(error))) {
+    if (!RESERVED_MEMBERS.has(key)) {
+      problem[key] = value
+    }
+  }
+  return problem
+}
+
+/**
+ * Преобразует ошибку в тело ответа HTTP problem details (RFC 9457).
+ *
+ * Для публичных ошибок (`spec.visibility: 'public'`) заполняются `type` (из `spec.docs`), `detail` (сообщение),
+ * `code` и расширения из полей `context`, перечисленных в `spec.publicContextKeys` (с маскированием
+ * чувствительных полей и приведением значений к JSON, см. `getPublicContext`). Для внутренних ошибок
+ * клиент получает только `status` и `title`. Публичные `FabError` из цепочки `cause`/`errors`
+ * перечисляются в расширении `causes` (в порядке обхода в глубину).
+ * Значения, не являющиеся `FabError`, приводятся через `toFabError` (внутренняя ошибка 500).
+ *
+ * @param error Ошибка (любое перехваченное значение).
+ * @param options Опции (`instance`, показ внутренних ошибок).
+ * @returns Объект problem details; HTTP-статус ответа — `status`.
+ */
+export function toProblemDetails (error: unknown, options: ToProblemDetailsOptions = {}): ProblemDetails {
+  const fabError = toInternalFabError(error)
+  const problem = describeProblem(fabError, options)
+  if (options.instance !== undefined) {
+    problem.instance = options.instance
+  }
+
+  const causes: ProblemDetails[] = []
+  for (const node of traverseErrorTree(fabError)) {
+    if (node.error !== fabError && node.error instanceof FabError && isExposed(node.error, options)) {
+      causes.push(describeProblem(node.error, options))
+    }
+  }
+  if (causes.length > 0) {
+    problem.causes = causes
+  }
+  return problem
+}
+
+/**
+ * Восстанавливает одну ошибку из problem details без `causes`.
+ */
+function restoreProblem (body: ProblemDetails, registry: ErrorSpecRegistry): FabError<object> {
+  const status = typeof body.status === 'number' ? body.status : DEFAULT_HTTP_STATUS
+  const title = typeof body.title === 'string' ? body.title : getStatusTitle(status)
+  const detail = typeof body.detail === 'string' ? body.detail : undefined
+  const type = typeof body.type === 'string' && body.type !== 'about:blank' ? body.type : undefined
+
+  if (typeof body.code !== 'string') {
+    return createFabError(RESTORED_ERROR_CREATION_OPTIONS, HTTP_PROBLEM_SPEC, { status, title, detail, type })
+  }
+
+  const context: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(body)) {
+    if (!RESERVED_MEMBERS.has(key)) {
+      context[key] = value
+    }
+  }
+  const spec: ErrorSpec<object> = registry.get(body.code) ?? Object.freeze({
+    code: body.code,
+    messageTemplate: detail ?? title,
+    docs: type,
+    httpStatus: status,
+    visibility: 'public',
+    publicContextKeys: Object.keys(context)
+  })
+  const error = createFabError(RESTORED_ERROR_CREATION_OPTIONS, spec, context)
+  error.message = detail ?? title
+  return error
+}
+
+/**
+ * Восстанавливает `FabError` из тела ответа HTTP problem details, например в клиентском SDK,
+ * чтобы обрабатывать ошибки сервера через `hasErrorInChain`.
+ *
+ * Код ошибки берется из члена `code`; зарегистрированная спецификация прикрепляется к ошибке,
+ * иначе она реконструируется из `detail`, `type` и `status` (расширения становятся ее `publicContextKeys`).
+ * Расширения становятся контекстом, сообщение — `detail` (или `title`). Тело без `code` восстанавливается как `FAB_HTTP_PROBLEM`.
+ * Элементы `causes` образуют цепочку `cause` в исходном порядке.
+ *
+ * @param body Разобранное тело ответа (`application/problem+json`).
+ * @param options Опции восстановления (реестр спецификаций).
+ * @returns Восстановленная `FabError`.
+ * @throws {FabError} `FAB_INVALID_ARGUMENT`, если `body` не похоже на problem details.
+ */
+export function fromProblemDetails (body: unknown, options: FromProblemDetailsOptions = {}): FabError<object> {
+  if (typeof body !== 'object' || body === null ||
+    (typeof (body as ProblemDetails).status !== 'number' && typeof (body as ProblemDetails).title !== 'string')) {
+    throw new FabError(INVALID_ARGUMENT_SPEC, {
+      argumentName: 'body',
+      argumentValue: body,
+      reason: 'Expected a problem details object with numeric "status" or string "title"'
+    })
+  }
+
+  const registry = options.registry ?? defaultErrorSpecRegistry
+  const problem = body as ProblemDetails
+  const chain = [problem, ...(Array.isArray(problem.causes) ? problem.causes : [])]
+    .filter((item): item is ProblemDetails => typeof item === 'object' && item !== null)
+    .map(item => restoreProblem(item, registry))
+
+  for (let index = 0; index < chain.length - 1; index++) {
+    chain[index].cause = chain[index + 1]
+  }
+  return chain[0]
+}
+
+// END OF: src/problem-details.ts
@@ -0,0 +1,40 @@
+/**
+ * @file src/public-context.ts
+ * @description Отбор полей контекста FabError, которые можно передавать внешним клиентам.
+ * @version 1.0.0
+ * @date 2026-10-19
+ * @updated getPublicContext вынесена из problem-details.ts для общих конвертеров.
+ *
+ * HISTORY:
+ * v1.0.0 (2026-10-19): getPublicContext перенесена из problem-details.ts (используется problem-details и rpc-status).
+ */
+
+import { config } from './config.js'
+import type { FabError } from './fab-error.js'
+import { redactValue } from './redaction.js'
+import { toJSONSafeValue } from './utils.js'
+
+/**
+ * Возвращает поля контекста, которые можно передавать клиентам: только ключи из `spec.publicContextKeys`
+ * (по умолчанию ни одного), с маскированием чувствительных полей и значениями, приведенными к JSON
+ * (`toJSONSafeValue`). Поля со значением `undefined` пропускаются.
+ *
+ * @param error Ошибка.
+ * @returns Публичные поля контекста.
+ */
+export function getPublicContext (error: FabError<object>): Record<string, unknown> {
+  const keys = error.spec.publicContextKeys ?? []
+  if (keys.length === 0) {
+    return {}
+  }
+  const context = redactValue(error.context, [error.spec.redact, config.redaction]) as Record<string, unknown>
+  const publicContext: Record<string, unknown> = {}
+  for (const key of keys) {
+    if (context[key] !== undefined) {
+      publicContext[key] = toJSONSafeValue(context[key])
+    }
+  }
+  return publicContext
+}
+
+// END OF: src/public-context.ts
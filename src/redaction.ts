@@ -0,0 +1,137 @@
+/**
+ * @file src/redaction.ts
+ * @description Маскирование чувствительных полей контекста ошибок (пароли, токены, персональные данные).
+ * @version 1.0.0
+ * @date 2026-10-19
+ * @updated Начальная реализация правил маскирования и redactValue.
+ *
+ * HISTORY:
+ * v1.0.0 (2026-10-19): Начальная реализация RedactionRule, DEFAULT_REDACTED_KEYS и redactValue.
+ */
+
+/**
+ * Предикат маскирования: возвращает `true`, если значение нужно замаскировать.
+ *
+ * @param value Значение поля.
+ * @param path Путь к полю от корня контекста через точку (`'user.credentials.password'`, `'items.0.token'`).
+ * @param key Имя поля (последний сегмент пути).
+ */
+export type RedactionPredicate = (value: unknown, path: string, key: string) => boolean
+
+/**
+ * Правило маскирования чувствительных данных. Поле маскируется, если оно подходит
+ * хотя бы под один из критериев правила.
+ */
+export interface RedactionRule {
+  /** Имена полей, маскируемые на любой глубине (сравнение без учета регистра). */
+  readonly keys?: readonly string[]
+  /** Точные пути от корня контекста: `'credentials.password'`, `'items[0].token'`. */
+  readonly paths?: readonly string[]
+  /** Произвольный предикат для полей, которые нельзя описать именами или путями. */
+  readonly predicate?: RedactionPredicate
+  /** Значение-заменитель. По умолчанию `REDACTED_MASK`. */
+  readonly mask?: string
+}
+
+/** Значение-заменитель для замаскированных полей по умолчанию. */
+export const REDACTED_MASK = '[REDACTED]'
+
+/** Имена полей, маскируемые глобальной политикой по умолчанию (см. `setFabErrorsConfig`). */
+export const DEFAULT_REDACTED_KEYS: readonly string[] = Object.freeze([
+  'password',
+  'passwd',
+  'secret',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'apiKey',
+  'authorization',
+  'cookie'
+])
+
+/** Правило, подготовленное для быстрых проверок. */
+interface CompiledRule {
+  keys: Set<string>
+  paths: Set<string>
+  predicate?: RedactionPredicate
+  mask: string
+}
+
+/** Приводит путь к форме с точками: `'items[0].token'` -> `'items.0.token'`. */
+function normalizePath (path: string): string {
+  return path.replace(/\[(\d+)\]/g, '.$1')
+}
+
+function compileRule (rule: RedactionRule): CompiledRule {
+  return {
+    keys: new Set((rule.keys ?? []).map(key => key.toLowerCase())),
+    paths: new Set((rule.paths ?? []).map(normalizePath)),
+    predicate: rule.predicate,
+    mask: rule.mask ?? REDACTED_MASK
+  }
+}
+
+/** Проверяет, является ли значение массивом или простым объектом (их содержимое обходится рекурсивно). */
+function isTraversable (value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  if (Array.isArray(value)) {
+    return true
+  }
+  const prototype: unknown = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+/**
+ * Возвращает копию значения, в которой поля, подходящие под правила, заменены маской.
+ * Рекурсивно обходятся только массивы и простые объекты; экземпляры классов (`Date`, `Error` и т.д.)
+ * копируются по ссылке. Циклические ссылки заменяются строкой `'[Circular]'`.
+ * Если правил нет, значение возвращается без изменений.
+ *
+ * @param value Значение (обычно контекст ошибки).
+ * @param rules Правила маскирования; `undefined` пропускаются. При совпадении нескольких правил
+ *   используется маска первого из них.
+ * @returns Значение с замаскированными полями.
+ * @deterministic Да, при детерминированных предикатах.
+ */
+export function redactValue (value: unknown, rules: ReadonlyArray<RedactionRule | undefined>): unknown {
+  const compiled = rules.filter((rule): rule is RedactionRule => rule !== undefined).map(compileRule)
+  if (compiled.length === 0) {
+    return value
+  }
+
+  const ancestors = new Set<object>()
+
+  function findMask (fieldValue: unknown, path: string, key: string): string | undefined {
+    const lowerKey = key.toLowerCase()
+    const rule = compiled.find(candidate =>
+      candidate.keys.has(lowerKey) ||
+      candidate.paths.has(path) ||
+      candidate.predicate?.(fieldValue, path, key) === true
+    )
+    return rule?.mask
+  }
+
+  function visit (current: unknown, path: string): unknown {
+    if (!isTraversable(current)) {
+      return current
+    }
+    if (ancestors.has(current)) {
+      return '[Circular]'
+    }
+    ancestors.add(current)
+    const copy: Record<string, unknown> | unknown[] = Array.isArray(current) ? [] : {}
+    for (const [key, fieldValue] of Object.entries(current)) {
+      const fieldPath = path === '' ? key : `${path}.${key}`
+      const mask = findMask(fieldValue, fieldPath, key)
+      ;(copy as Record<string, unknown>)[key] = mask ?? visit(fieldValue, fieldPath)
+    }
+    ancestors.delete(current)
+    return copy
+  }
+
+  return visit(value, '')
+}
+
+// END OF: src/redaction.ts
@@ -0,0 +1,203 @@
+/**
+ * @file src/report.ts
+ * @description Отправка ошибок в лог через внедренный логгер (LoggerLike) с дедупликацией и сэмплированием.
+ * @version 1.2.1
+ * @date 2026-10-19
+ * @updated reportError не планирует автоматическую отправку обертки.
+ *
+ * HISTORY:
+ * v1.2.1 (2026-10-19): reportError приводит значения через toInternalFabError (без autoReport).
+ * v1.2.0 (2026-10-19): autoReport отправляет запланированные ошибки пакетом в макрозадаче и пропускает ошибки, ставшие причинами других.
+ * v1.1.0 (2026-10-19): Настройка dedupeWindowMs: повторные ошибки с тем же отпечатком в окне не отправляются.
+ * v1.0.0 (2026-10-19): Начальная реализация reportError, ErrorReportingConfig и автоматической отправки.
+ */
+
+import { traverseErrorTree } from './chain-utils.js'
+import { config } from './config.js'
+import { dependencies, type LoggerLike } from './di.js'
+import type { ErrorSeverity } from './error-spec.js'
+import { type FabError, toInternalFabError } from './fab-error.js'
+import { fingerprint } from './fingerprint.js'
+
+/**
+ * Настройки отправки ошибок в лог (секция `reporting` глобальной конфигурации).
+ */
+export interface ErrorReportingConfig {
+  /**
+   * Отправлять созданные `FabError` в лог автоматически (после завершения текущей макрозадачи).
+   * Отправляется только внешняя ошибка цепочки: ошибка, ставшая к этому моменту причиной
+   * (`cause`/`errors`) другой созданной ошибки, не отправляется отдельно. По умолчанию `false`.
+   */
+  autoReport?: boolean
+  /**
+   * Доля отправляемых ошибок (от 0 до 1) по коду ошибки, например `{ CACHE_MISS: 0.01 }`.
+   * Для кодов без записи используется `defaultSampleRate`.
+   */
+  sampleRates?: Readonly<Record<string, number>>
+  /** Доля отправляемых ошибок для кодов без записи в `sampleRates`. По умолчанию 1 (все ошибки). */
+  defaultSampleRate?: number
+  /**
+   * Окно дедупликации в миллисекундах: ошибка с тем же отпечатком (`fingerprint`), что и у уже
+   * отправленной в течение окна, не отправляется. Время берется из `dependencies.clock`.
+   * По умолчанию не задано (дедупликация по отпечатку выключена).
+   */
+  dedupeWindowMs?: number
+}
+
+/**
+ * Опции отправки одной ошибки в лог.
+ */
+export interface ReportErrorOptions {
+  /** Уровень логирования. По умолчанию `spec.severity`, иначе `'error'`. */
+  level?: ErrorSeverity
+  /** Дополнительные поля записи лога, например идентификатор запроса. */
+  fields?: Record<string, unknown>
+  /**
+   * Отправить ошибку, даже если она (или ее причина) уже была отправлена, и без сэмплирования.
+   * По умолчанию `false`.
+   */
+  force?: boolean
+}
+
+/** Ошибки, уже отправленные в лог (вместе со всеми их причинами). */
+const reportedErrors = new WeakSet<Error>()
+
+/** Ошибки, ожидающие автоматической отправки (в порядке создания). */
+const pendingAutoReports = new Set<FabError<object>>()
+
+/** Время последней отправки по отпечатку; порядок вставки совпадает с порядком отправки. */
+const recentFingerprints = new Map<string, number>()
+
+/**
+ * Проверяет, была ли ошибка или любая ошибка из ее дерева причин уже отправлена в лог.
+ */
+function isAlreadyReported (error: FabError<object>): boolean {
+  for (const node of traverseErrorTree(error)) {
+    if (reportedErrors.has(node.error)) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Решает по доле `sampleRates`/`defaultSampleRate`, отправлять ли ошибку с этим кодом.
+ */
+function isSampled (code: string): boolean {
+  const { sampleRates, defaultSampleRate } = config.reporting
+  const rate = sampleRates?.[code] ?? defaultSampleRate ?? 1
+  return rate >= 1 || dependencies.random() < rate
+}
+
+/**
+ * Проверяет, отправлялась ли ошибка с тем же отпечатком в течение `windowMs`. Записи старше окна удаляются.
+ */
+function isRecentFingerprint (value: string, windowMs: number, now: number): boolean {
+  for (const [key, reportedAt] of recentFingerprints) {
+    if (now - reportedAt < windowMs) {
+      break
+    }
+    recentFingerprints.delete(key)
+  }
+  return recentFingerprints.has(value)
+}
+
+/**
+ * Возвращает метод логгера для уровня; при отсутствии `fatal` используется `error`.
+ */
+function getLogMethod (logger: LoggerLike, level: ErrorSeverity): NonNullable<LoggerLike['fatal']> {
+  return level === 'fatal' ? (logger.fatal ?? logger.error) : logger[level]
+}
+
+/**
+ * Отправляет ошибку в лог через логгер, установленный `setFabErrorsDependencies`.
+ *
+ * Уровень берется из `spec.severity` (по умолчанию `'error'`), запись содержит структурированные
+ * поля `{ err: error.toJSON(), code, ...fields }` (с маскированием контекста) и сообщение ошибки.
+ * Ошибка отправляется один раз на цепочку: если она сама или любая ее причина (`cause`/`errors`)
+ * уже была отправлена, повторной записи не будет. Для кодов из `config.reporting.sampleRates`
+ * отправляется только заданная доля ошибок, а при `config.reporting.dedupeWindowMs` повторные ошибки
+ * с тем же отпечатком (`fingerprint`) в течение окна пропускаются. Значения, не являющиеся `FabError`,
+ * приводятся через `toFabError`.
+ *
+ * @example
+ * catch (e) { reportError(e, { fields: { requestId } }); throw e }
+ *
+ * @param error Ошибка (любое перехваченное значение).
+ * @param options Опции отправки (уровень, дополнительные поля, `force`).
+ * @returns `true`, если запись отправлена в лог; `false`, если логгер не установлен, ошибка уже
+ *   была отправлена, является повтором в окне дедупликации или не прошла сэмплирование.
+ */
+export function reportError (error: unknown, options: ReportErrorOptions = {}): boolean {
+  const { logger } = dependencies
+  if (logger === undefined) {
+    return false
+  }
+
+  const fabError = toInternalFabError(error)
+  const { dedupeWindowMs } = config.reporting
+  const now = dependencies.clock.now()
+  const errorFingerprint = dedupeWindowMs !== undefined ? fingerprint(fabError) : undefined
+  if (options.force !== true && (
+    isAlreadyReported(fabError) ||
+    (errorFingerprint !== undefined && isRecentFingerprint(errorFingerprint, dedupeWindowMs ?? 0, now)) ||
+    !isSampled(fabError.code)
+  )) {
+    return false
+  }
+  for (const node of traverseErrorTree(fabError)) {
+    reportedErrors.add(node.error)
+  }
+  if (errorFingerprint !== undefined) {
+    recentFingerprints.delete(errorFingerprint)
+    recentFingerprints.set(errorFingerprint, now)
+  }
+
+  const level = options.level ?? fabError.spec.severity ?? 'error'
+  getLogMethod(logger, level).call(logger, { ...options.fields, err: fabError.toJSON(), code: fabError.code }, fabError.message)
+  return true
+}
+
+/**
+ * Отправляет ожидающие ошибки в лог, пропуская ошибки из деревьев причин других ожидающих ошибок:
+ * за них отправляется внешняя ошибка. Исключения логгера игнорируются.
+ */
+function flushAutoReports (): void {
+  const errors = [...pendingAutoReports]
+  pendingAutoReports.clear()
+  const nested = new Set<Error>()
+  for (const error of errors) {
+    for (const node of traverseErrorTree(error)) {
+      if (node.error !== error) {
+        nested.add(node.error)
+      }
+    }
+  }
+  for (const error of errors) {
+    if (!nested.has(error)) {
+      try {
+        reportError(error)
+      } catch (_e) {
+        // Сбой логгера не должен влиять на приложение
+      }
+    }
+  }
+}
+
+/**
+ * Планирует отправку созданной ошибки в лог, если включен `config.reporting.autoReport`.
+ * Отправка откладывается до макрозадачи (`setTimeout`), чтобы ошибка была полностью построена
+ * (включая `errors` у `AggregateFabError`) и успела стать причиной внешней ошибки, в том числе
+ * после `await` — тогда отправляется только внешняя ошибка.
+ */
+export function scheduleAutoReport (error: FabError<object>): void {
+  if (config.reporting.autoReport !== true) {
+    return
+  }
+  if (pendingAutoReports.size === 0) {
+    setTimeout(flushAutoReports, 0)
+  }
+  pendingAutoReports.add(error)
+}
+
+// END OF: src/report.ts
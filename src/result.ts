@@ -0,0 +1,237 @@
+/**
+ * @file src/result.ts
+ * @description Тип Result<T, E> для потоков без исключений, построенный вокруг FabError.
+ * @version 1.0.1
+ * @date 2026-10-19
+ * @updated tryCatch и tryCatchAsync используют FabError.wrap для нормализации выброшенных значений.
+ *
+ * HISTORY:
+ * v1.0.1 (2026-10-19): tryCatch/tryCatchAsync используют FabError.wrap.
+ * v1.0.0 (2026-10-19): Начальная реализация Result и асинхронных вариантов комбинаторов.
+ */
+
+import { type ErrorCriteria, hasErrorInChain } from './chain-utils.js'
+import type { ErrorSpec } from './error-spec.js'
+import { FabError } from './fab-error.js'
+
+/** Успешный результат. */
+export interface Ok<T> {
+  readonly ok: true
+  readonly value: T
+}
+
+/** Неуспешный результат с ошибкой. */
+export interface Err<E> {
+  readonly ok: false
+  readonly error: E
+}
+
+/**
+ * Результат операции: либо значение (`Ok<T>`), либо ошибка `FabError` (`Err<E>`).
+ * Различается по полю `ok`.
+ *
+ * @template T Тип значения.
+ * @template E Тип ошибки (по умолчанию `FabError`).
+ */
+export type Result<T, E extends FabError<object> = FabError> = Ok<T> | Err<E>
+
+/** Значение или промис значения. */
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * Обработчики для `match`.
+ */
+export interface ResultMatchers<T, E, R> {
+  ok: (value: T) => R
+  err: (error: E) => R
+}
+
+/**
+ * Создает успешный результат.
+ *
+ * @param value Значение.
+ * @returns `Ok<T>`.
+ */
+export function ok<T> (value: T): Ok<T> {
+  return { ok: true, value }
+}
+
+/**
+ * Создает неуспешный результат.
+ *
+ * @param error Ошибка `FabError`.
+ * @returns `Err<E>`.
+ */
+export function err<E extends FabError<object>> (error: E): Err<E> {
+  return { ok: false, error }
+}
+
+/** Type guard для успешного результата. */
+export function isOk<T, E extends FabError<object>> (result: Result<T, E>): result is Ok<T> {
+  return result.ok
+}
+
+/** Type guard для неуспешного результата. */
+export function isErr<T, E extends FabError<object>> (result: Result<T, E>): result is Err<E> {
+  return !result.ok
+}
+
+/**
+ * Преобразует значение успешного результата. Ошибка передается без изменений.
+ *
+ * @param result Исходный результат.
+ * @param fn Функция преобразования значения.
+ * @returns Новый результат.
+ */
+export function map<T, U, E extends FabError<object>> (result: Result<T, E>, fn: (value: T) => U): Result<U, E> {
+  return result.ok ? ok(fn(result.value)) : result
+}
+
+/**
+ * Преобразует ошибку неуспешного результата (например, оборачивает ее в ошибку операции).
+ * Значение передается без изменений.
+ *
+ * @param result Исходный результат.
+ * @param fn Функция преобразования ошибки.
+ * @returns Новый результат.
+ */
+export function mapErr<T, E extends FabError<object>, F extends FabError<object>> (
+  result: Result<T, E>,
+  fn: (error: E) => F
+): Result<T, F> {
+  return result.ok ? result : err(fn(result.error))
+}
+
+/**
+ * Продолжает вычисление следующей операцией, возвращающей `Result`, если текущий результат успешен.
+ *
+ * @param result Исходный результат.
+ * @param fn Следующая операция.
+ * @returns Результат следующей операции или исходная ошибка.
+ */
+export function andThen<T, U, E extends FabError<object>, F extends FabError<object>> (
+  result: Result<T, E>,
+  fn: (value: T) => Result<U, F>
+): Result<U, E | F> {
+  return result.ok ? fn(result.value) : result
+}
+
+/**
+ * Возвращает значение успешного результата или выбрасывает ошибку неуспешного.
+ *
+ * @param result Результат.
+ * @returns Значение.
+ * @throws {FabError} Ошибка из `Err`.
+ */
+export function unwrap<T, E extends FabError<object>> (result: Result<T, E>): T {
+  if (result.ok) {
+    return result.value
+  }
+  throw result.error
+}
+
+/**
+ * Возвращает значение успешного результата или значение по умолчанию.
+ *
+ * @param result Результат.
+ * @param defaultValue Значение для неуспешного результата.
+ * @returns Значение.
+ */
+export function unwrapOr<T, E extends FabError<object>> (result: Result<T, E>, defaultValue: T): T {
+  return result.ok ? result.value : defaultValue
+}
+
+/**
+ * Сопоставляет результат с обработчиками `ok` и `err`.
+ *
+ * @param result Результат.
+ * @param matchers Обработчики успешного и неуспешного результата.
+ * @returns Значение, возвращенное соответствующим обработчиком.
+ */
+export function match<T, E extends FabError<object>, R> (result: Result<T, E>, matchers: ResultMatchers<T, E, R>): R {
+  return result.ok ? matchers.ok(result.value) : matchers.err(result.error)
+}
+
+/**
+ * Асинхронный вариант `map`: принимает результат или промис результата, функция может быть асинхронной.
+ */
+export async function mapAsync<T, U, E extends FabError<object>> (
+  result: MaybePromise<Result<T, E>>,
+  fn: (value: T) => MaybePromise<U>
+): Promise<Result<U, E>> {
+  const resolved = await result
+  return resolved.ok ? ok(await fn(resolved.value)) : resolved
+}
+
+/**
+ * Асинхронный вариант `mapErr`.
+ */
+export async function mapErrAsync<T, E extends FabError<object>, F extends FabError<object>> (
+  result: MaybePromise<Result<T, E>>,
+  fn: (error: E) => MaybePromise<F>
+): Promise<Result<T, F>> {
+  const resolved = await result
+  return resolved.ok ? resolved : err(await fn(resolved.error))
+}
+
+/**
+ * Асинхронный вариант `andThen`.
+ */
+export async function andThenAsync<T, U, E extends FabError<object>, F extends FabError<object>> (
+  result: MaybePromise<Result<T, E>>,
+  fn: (value: T) => MaybePromise<Result<U, F>>
+): Promise<Result<U, E | F>> {
+  const resolved = await result
+  return resolved.ok ? await fn(resolved.value) : resolved
+}
+
+/**
+ * Выполняет функцию и возвращает ее значение как `Ok`. Если функция выбрасывает исключение,
+ * возвращает `Err` с новой `FabError` по спецификации `spec`, где исходное значение — `cause`
+ * (значения, не являющиеся `Error`, нормализуются, см. `FabError.wrap`).
+ *
+ * @param fn Выполняемая функция.
+ * @param spec Спецификация ошибки-обертки.
+ * @param context Контекст ошибки-обертки.
+ * @returns Результат выполнения.
+ */
+export function tryCatch<T, TContext extends object> (
+  fn: () => T,
+  spec: ErrorSpec<TContext>,
+  context: TContext
+): Result<T, FabError<TContext>> {
+  try {
+    return ok(fn())
+  } catch (thrown) {
+    return err(FabError.wrap(thrown, spec, context))
+  }
+}
+
+/**
+ * Асинхронный вариант `tryCatch`: отклоненный промис превращается в `Err`.
+ */
+export async function tryCatchAsync<T, TContext extends object> (
+  fn: () => Promise<T>,
+  spec: ErrorSpec<TContext>,
+  context: TContext
+): Promise<Result<T, FabError<TContext>>> {
+  try {
+    return ok(await fn())
+  } catch (thrown) {
+    return err(FabError.wrap(thrown, spec, context))
+  }
+}
+
+/**
+ * Проверяет, что результат неуспешен и в цепочке его ошибки есть ошибка,
+ * соответствующая критериям (см. `hasErrorInChain`).
+ *
+ * @param result Результат.
+ * @param criteria Критерии поиска.
+ * @returns `true`, если это `Err` и в цепочке найдена подходящая ошибка.
+ */
+export function isErrWith<T, E extends FabError<object>> (result: Result<T, E>, criteria: ErrorCriteria): boolean {
+  return !result.ok && hasErrorInChain(result.error, criteria)
+}
+
+// END OF: src/result.ts
@@ -0,0 +1,197 @@
+/**
+ * @file src/retry.ts
+ * @description Повтор операций с экспоненциальной задержкой на основе критериев ошибок в цепочке.
+ * @version 1.0.1
+ * @date 2026-10-19
+ * @updated Поля политики, явно заданные как undefined, заменяются значениями по умолчанию.
+ *
+ * HISTORY:
+ * v1.0.1 (2026-10-19): Слияние политики с умолчаниями по полям через ??, а не spread.
+ * v1.0.0 (2026-10-19): Начальная реализация retry с backoff, jitter, дедлайном и retry-after из контекста.
+ */
+
+import { INVALID_ARGUMENT_SPEC, RETRY_EXHAUSTED_SPEC } from './base-specs.js'
+import { type ErrorCriteria, hasErrorInChain, traverseErrorTree } from './chain-utils.js'
+import { type Clock, dependencies } from './di.js'
+import { AggregateFabError, FabError, toFabError } from './fab-error.js'
+import { getValueByPath } from './utils.js'
+
+/**
+ * Информация о неудачной попытке, передаваемая в `RetryPolicy.onRetry` перед ожиданием.
+ */
+export interface RetryAttemptInfo {
+  /** Номер неудачной попытки (начиная с 1). */
+  attempt: number
+  /** Ошибка попытки (перехваченное значение как есть). */
+  error: unknown
+  /** Задержка перед следующей попыткой в миллисекундах. */
+  delayMs: number
+}
+
+/**
+ * Политика повторов для `retry`.
+ */
+export interface RetryPolicy {
+  /** Максимальное число попыток, включая первую. По умолчанию 3. */
+  maxAttempts?: number
+  /**
+   * Критерии временной ошибки, проверяемые по всей цепочке (`hasErrorInChain`); массив означает
+   * «любой из критериев». По умолчанию `{ retryable: true }`.
+   */
+  retryOn?: ErrorCriteria | ErrorCriteria[]
+  /** Задержка перед второй попыткой в миллисекундах. По умолчанию 100. */
+  initialDelayMs?: number
+  /** Множитель задержки для каждой следующей попытки. По умолчанию 2. */
+  backoffFactor?: number
+  /** Максимальная задержка в миллисекундах (без учета retry-after). По умолчанию 30000. */
+  maxDelayMs?: number
+  /**
+   * Доля задержки (от 0 до 1), заменяемая случайной величиной: задержка равна `delay * (1 - jitter * random())`.
+   * По умолчанию 1 (full jitter); 0 отключает случайность.
+   */
+  jitter?: number
+  /**
+   * Общий бюджет времени в миллисекундах от начала первой попытки. Если следующая попытка не успевает
+   * начаться до дедлайна, повторы прекращаются.
+   */
+  deadlineMs?: number
+  /**
+   * Путь к значению retry-after (в миллисекундах) в `context` ошибок цепочки. Если значение найдено,
+   * задержка не меньше него. По умолчанию `'retryAfterMs'`; `false` отключает поиск.
+   */
+  retryAfterPath?: string | false
+  /** Имя операции для сообщения об ошибке. По умолчанию имя функции `fn` или `'anonymous'`. */
+  operationName?: string
+  /** Вызывается после каждой неудачной попытки, за которой последует повтор. */
+  onRetry?: (info: RetryAttemptInfo) => void
+  /** Часы для задержек и дедлайна. По умолчанию `dependencies.clock` (см. `setFabErrorsDependencies`). */
+  clock?: Clock
+}
+
+/** Значения политики по умолчанию. */
+const DEFAULT_RETRY_POLICY = {
+  maxAttempts: 3,
+  retryOn: { retryable: true } satisfies ErrorCriteria,
+  initialDelayMs: 100,
+  backoffFactor: 2,
+  maxDelayMs: 30_000,
+  jitter: 1,
+  retryAfterPath: 'retryAfterMs'
+}
+
+/**
+ * Проверяет, является ли ошибка попытки временной по критериям политики.
+ */
+function isRetryableError (error: Error, retryOn: ErrorCriteria | ErrorCriteria[]): boolean {
+  const criteriaList = Array.isArray(retryOn) ? retryOn : [retryOn]
+  return criteriaList.some(criteria => hasErrorInChain(error, criteria))
+}
+
+/**
+ * Ищет в `context` ошибок цепочки значение retry-after (неотрицательное число миллисекунд).
+ */
+function findRetryAfter (error: Error, path: string): number | undefined {
+  for (const { error: current } of traverseErrorTree(error)) {
+    if (current instanceof FabError) {
+      const value = getValueByPath(current.context, path)
+      if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+        return value
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Выполняет операцию с повторами при временных ошибках.
+ *
+ * После каждой неудачной попытки ошибка проверяется по `policy.retryOn` во всей цепочке
+ * (`cause` и `errors`). Задержка растет экспоненциально (`initialDelayMs * backoffFactor^(n-1)`,
+ * не больше `maxDelayMs`) со случайной составляющей (`jitter`); значение retry-after из контекста
+ * (например, из ответа 429) увеличивает задержку до него. Ожидание и время берутся из `clock`.
+ *
+ * Если первая попытка завершилась невременной ошибкой, она выбрасывается как есть. Иначе при отказе
+ * (исчерпаны попытки, дедлайн или невременная ошибка после повторов) выбрасывается `AggregateFabError`
+ * с кодом `FAB_RETRY_EXHAUSTED`, содержащая ошибки всех попыток в `errors`.
+ *
+ * @example
+ * const user = await retry(() => api.getUser(id), { maxAttempts: 5, deadlineMs: 10_000 })
+ *
+ * @param fn Операция; получает номер попытки (начиная с 1).
+ * @param policy Политика повторов.
+ * @returns Результат первой успешной попытки.
+ * @throws {AggregateFabError} `FAB_RETRY_EXHAUSTED`, если операция не удалась после повторов.
+ * @throws {FabError} `FAB_INVALID_ARGUMENT`, если `maxAttempts` не является положительным целым числом.
+ */
+export async function retry<T> (
+  fn: (attempt: number) => T | Promise<T>,
+  policy: RetryPolicy = {}
+): Promise<T> {
+  // Слияние по полям: явно переданный undefined (проброс опций вызывающего) не заменяет значение по умолчанию
+  const options = {
+    ...policy,
+    maxAttempts: policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+    retryOn: policy.retryOn ?? DEFAULT_RETRY_POLICY.retryOn,
+    initialDelayMs: policy.initialDelayMs ?? DEFAULT_RETRY_POLICY.initialDelayMs,
+    backoffFactor: policy.backoffFactor ?? DEFAULT_RETRY_POLICY.backoffFactor,
+    maxDelayMs: policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    jitter: policy.jitter ?? DEFAULT_RETRY_POLICY.jitter,
+    retryAfterPath: policy.retryAfterPath ?? DEFAULT_RETRY_POLICY.retryAfterPath
+  }
+  if (!Number.isInteger(options.maxAttempts) || options.maxAttempts < 1) {
+    throw new FabError(INVALID_ARGUMENT_SPEC, {
+      argumentName: 'policy.maxAttempts',
+      argumentValue: options.maxAttempts,
+      reason: 'Expected a positive integer'
+    })
+  }
+
+  const clock = policy.clock ?? dependencies.clock
+  const startedAt = clock.now()
+  const attemptErrors: unknown[] = []
+  let reason: string
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt)
+    } catch (thrown) {
+      attemptErrors.push(thrown)
+      const error = thrown instanceof Error ? thrown : toFabError(thrown)
+
+      if (!isRetryableError(error, options.retryOn)) {
+        if (attempt === 1) {
+          throw thrown
+        }
+        reason = 'non-retryable error'
+        break
+      }
+      if (attempt >= options.maxAttempts) {
+        reason = 'max attempts reached'
+        break
+      }
+
+      const backoff = Math.min(options.maxDelayMs, options.initialDelayMs * options.backoffFactor ** (attempt - 1))
+      let delayMs = Math.round(backoff * (1 - options.jitter * dependencies.random()))
+      const retryAfter = options.retryAfterPath !== false ? findRetryAfter(error, options.retryAfterPath) : undefined
+      if (retryAfter !== undefined) {
+        delayMs = Math.max(delayMs, retryAfter)
+      }
+      if (options.deadlineMs !== undefined && clock.now() + delayMs - startedAt >= options.deadlineMs) {
+        reason = 'deadline exceeded'
+        break
+      }
+
+      options.onRetry?.({ attempt, error: thrown, delayMs })
+      await clock.sleep(delayMs)
+    }
+  }
+
+  throw new AggregateFabError(RETRY_EXHAUSTED_SPEC, {
+    operationName: options.operationName ?? (fn.name !== '' ? fn.name : 'anonymous'),
+    attempts: attemptErrors.length,
+    reason,
+    elapsedMs: clock.now() - startedAt
+  }, attemptErrors)
+}
+
+// END OF: src/retry.ts
@@ -0,0 +1,374 @@
+/**
+ * @file src/rpc-status.ts
+ * @description Сопоставление FabError с кодами gRPC и JSON-RPC 2.0, преобразование в объекты ошибок этих протоколов и обратно.
+ * @version 1.1.4
+ * @date 2026-10-19
+ * @updated getPublicContext импортируется из public-context.ts.
+ *
+ * HISTORY:
+ * v1.1.4 (2026-10-19): getPublicContext импортируется из public-context.ts вместо problem-details.ts.
+ * v1.1.3 (2026-10-19): toGrpcStatus/toJsonRpcError приводят значения через toInternalFabError (без autoReport).
+ * v1.1.2 (2026-10-19): Восстановленные ошибки создаются через createFabError (явные опции создания).
+ * v1.1.1 (2026-10-19): fromGrpcStatus/fromJsonRpcError создают ошибки с RESTORED_ERROR_CREATION_OPTIONS (без autoReport).
+ * v1.1.0 (2026-10-19): В metadata gRPC и data JSON-RPC передаются только поля из spec.publicContextKeys (getPublicContext).
+ * v1.0.0 (2026-10-19): Начальная реализация GrpcStatus, JsonRpcErrorCode, таблицы по умолчанию и конвертеров.
+ */
+
+import { INVALID_ARGUMENT_SPEC, RPC_ERROR_SPEC } from './base-specs.js'
+import { traverseErrorTree } from './chain-utils.js'
+import type { ErrorSpec } from './error-spec.js'
+import { createFabError, FabError, RESTORED_ERROR_CREATION_OPTIONS, toInternalFabError } from './fab-error.js'
+import { getPublicContext } from './public-context.js'
+import { defaultErrorSpecRegistry, type ErrorSpecRegistry } from './spec-registry.js'
+
+/**
+ * Канонические коды статуса gRPC (`google.rpc.Code`).
+ */
+export const GrpcStatus = Object.freeze({
+  OK: 0,
+  CANCELLED: 1,
+  UNKNOWN: 2,
+  INVALID_ARGUMENT: 3,
+  DEADLINE_EXCEEDED: 4,
+  NOT_FOUND: 5,
+  ALREADY_EXISTS: 6,
+  PERMISSION_DENIED: 7,
+  RESOURCE_EXHAUSTED: 8,
+  FAILED_PRECONDITION: 9,
+  ABORTED: 10,
+  OUT_OF_RANGE: 11,
+  UNIMPLEMENTED: 12,
+  INTERNAL: 13,
+  UNAVAILABLE: 14,
+  DATA_LOSS: 15,
+  UNAUTHENTICATED: 16
+})
+
+/** Числовой код статуса gRPC. */
+export type GrpcStatusCode = typeof GrpcStatus[keyof typeof GrpcStatus]
+
+/**
+ * Предопределенные коды ошибок JSON-RPC 2.0.
+ */
+export const JsonRpcErrorCode = Object.freeze({
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  /** Начало диапазона -32000..-32099, зарезервированного для ошибок сервера. */
+  SERVER_ERROR: -32000
+})
+
+/**
+ * Коды ошибки в протоколах gRPC и JSON-RPC.
+ */
+export interface RpcStatusMapping {
+  grpcStatus: GrpcStatusCode
+  jsonRpcCode: number
+}
+
+/**
+ * Сопоставление по умолчанию для спецификаций из `base-specs.ts`.
+ * Переопределяется полями `grpcStatus` / `jsonRpcCode` конкретной спецификации.
+ */
+export const DEFAULT_RPC_STATUS_MAPPINGS: Readonly<Record<string, Readonly<RpcStatusMapping>>> = Object.freeze({
+  FAB_INVALID_ARGUMENT: { grpcStatus: GrpcStatus.INVALID_ARGUMENT, jsonRpcCode: JsonRpcErrorCode.INVALID_PARAMS },
+  FAB_NOT_IMPLEMENTED: { grpcStatus: GrpcStatus.UNIMPLEMENTED, jsonRpcCode: JsonRpcErrorCode.METHOD_NOT_FOUND },
+  FAB_OPERATION_FAILED: { grpcStatus: GrpcStatus.INTERNAL, jsonRpcCode: JsonRpcErrorCode.INTERNAL_ERROR },
+  FAB_UNEXPECTED_ERROR: { grpcStatus: GrpcStatus.INTERNAL, jsonRpcCode: JsonRpcErrorCode.INTERNAL_ERROR },
+  FAB_NON_ERROR_THROWN: { grpcStatus: GrpcStatus.UNKNOWN, jsonRpcCode: JsonRpcErrorCode.INTERNAL_ERROR }
+})
+
+/** Статус gRPC для спецификаций без явного сопоставления, по их `httpStatus`. */
+const GRPC_STATUS_BY_HTTP_STATUS: Readonly<Record<number, GrpcStatusCode>> = {
+  400: GrpcStatus.INVALID_ARGUMENT,
+  401: GrpcStatus.UNAUTHENTICATED,
+  403: GrpcStatus.PERMISSION_DENIED,
+  404: GrpcStatus.NOT_FOUND,
+  408: GrpcStatus.DEADLINE_EXCEEDED,
+  409: GrpcStatus.ALREADY_EXISTS,
+  412: GrpcStatus.FAILED_PRECONDITION,
+  429: GrpcStatus.RESOURCE_EXHAUSTED,
+  499: GrpcStatus.CANCELLED,
+  501: GrpcStatus.UNIMPLEMENTED,
+  503: GrpcStatus.UNAVAILABLE,
+  504: GrpcStatus.DEADLINE_EXCEEDED
+}
+
+/** Значение `@type` для деталей `google.rpc.ErrorInfo`. */
+export const GRPC_ERROR_INFO_TYPE = 'type.googleapis.com/google.rpc.ErrorInfo'
+
+/**
+ * Детали `google.rpc.ErrorInfo`: код ошибки (`reason`), домен и метаданные из контекста.
+ */
+export interface GrpcErrorInfo {
+  '@type': typeof GRPC_ERROR_INFO_TYPE
+  reason: string
+  domain: string
+  metadata: Record<string, string>
+}
+
+/**
+ * Объект в форме `google.rpc.Status` (status details).
+ */
+export interface GrpcStatusObject {
+  code: number
+  message: string
+  details: Array<GrpcErrorInfo | { '@type': string, [key: string]: unknown }>
+}
+
+/**
+ * Данные (`data`) объекта ошибки JSON-RPC, формируемые для публичных ошибок.
+ */
+export interface JsonRpcErrorData {
+  /** Код `FabError`. */
+  code: string
+  /** Поля контекста из `spec.publicContextKeys` (с маскированием, JSON-совместимые). */
+  context: Record<string, unknown>
+  /** Публичные ошибки из цепочки `cause`/`errors`. */
+  causes?: Array<{ code: string, message: string, context: Record<string, unknown> }>
+}
+
+/**
+ * Объект ошибки JSON-RPC 2.0 (член `error` ответа).
+ */
+export interface JsonRpcErrorObject {
+  code: number
+  message: string
+  /** Дополнительные данные; для ошибок, сформированных `toJsonRpcError`, — `JsonRpcErrorData`. */
+  data?: unknown
+}
+
+/**
+ * Опции преобразования в объекты ошибок gRPC / JSON-RPC.
+ */
+export interface ToRpcErrorOptions {
+  /** Показывать детали внутренних ошибок (`visibility: 'internal'`). По умолчанию `false`. */
+  exposeInternal?: boolean
+  /** Домен для `google.rpc.ErrorInfo` (например, имя сервиса). По умолчанию `'fab-errors'`. */
+  domain?: string
+}
+
+/**
+ * Опции восстановления ошибки из объектов gRPC / JSON-RPC.
+ */
+export interface FromRpcErrorOptions {
+  /** Реестр, в котором ищутся спецификации по коду. По умолчанию `defaultErrorSpecRegistry`. */
+  registry?: ErrorSpecRegistry
+}
+
+/** Домен `google.rpc.ErrorInfo` по умолчанию. */
+const DEFAULT_GRPC_DOMAIN = 'fab-errors'
+
+/**
+ * Возвращает код статуса gRPC для спецификации (или ошибки): `spec.grpcStatus`, затем
+ * `DEFAULT_RPC_STATUS_MAPPINGS`, затем сопоставление по `spec.httpStatus`, иначе `INTERNAL`.
+ *
+ * @param source Спецификация или `FabError`.
+ * @returns Код статуса gRPC.
+ */
+export function getGrpcStatus (source: ErrorSpec<object> | FabError<object>): GrpcStatusCode {
+  const spec = source instanceof FabError ? source.spec : source
+  return spec.grpcStatus ??
+    DEFAULT_RPC_STATUS_MAPPINGS[spec.code]?.grpcStatus ??
+    (spec.httpStatus !== undefined ? GRPC_STATUS_BY_HTTP_STATUS[spec.httpStatus] : undefined) ??
+    GrpcStatus.INTERNAL
+}
+
+/**
+ * Возвращает код ошибки JSON-RPC для спецификации (или ошибки): `spec.jsonRpcCode`, затем
+ * `DEFAULT_RPC_STATUS_MAPPINGS`, иначе `SERVER_ERROR` (-32000) для публичных и
+ * `INTERNAL_ERROR` (-32603) для внутренних ошибок.
+ *
+ * @param source Спецификация или `FabError`.
+ * @returns Код ошибки JSON-RPC.
+ */
+export function getJsonRpcCode (source: ErrorSpec<object> | FabError<object>): number {
+  const spec = source instanceof FabError ? source.spec : source
+  return spec.jsonRpcCode ??
+    DEFAULT_RPC_STATUS_MAPPINGS[spec.code]?.jsonRpcCode ??
+    (spec.visibility === 'public' ? JsonRpcErrorCode.SERVER_ERROR : JsonRpcErrorCode.INTERNAL_ERROR)
+}
+
+/**
+ * Проверяет, можно ли показывать детали ошибки клиенту.
+ */
+function isExposed (error: FabError<object>, options: ToRpcErrorOptions): boolean {
+  return error.spec.visibility === 'public' || options.exposeInternal === true
+}
+
+/**
+ * Восстанавливает `FabError` по коду, сообщению и контексту: зарегистрированная спецификация
+ * прикрепляется к ошибке, иначе она реконструируется из сообщения, кодов протокола и ключей контекста.
+ */
+function restoreError (
+  code: string,
+  message: string,
+  context: Record<string, unknown>,
+  protocolCodes: Partial<RpcStatusMapping>,
+  registry: ErrorSpecRegistry
+): FabError<object> {
+  const spec: ErrorSpec<object> = registry.get(code) ?? Object.freeze({
+    code,
+    messageTemplate: message,
+    visibility: 'public',
+    publicContextKeys: Object.keys(context),
+    ...protocolCodes
+  })
+  const error = createFabError(RESTORED_ERROR_CREATION_OPTIONS, spec, context)
+  error.message = message
+  return error
+}
+
+/**
+ * Преобразует ошибку в объект ошибки JSON-RPC 2.0 (`{ code, message, data }`).
+ * Для публичных ошибок `message` — сообщение ошибки, а `data` содержит код `FabError`,
+ * поля контекста из `spec.publicContextKeys` (см. `getPublicContext`) и публичные ошибки цепочки в `causes`. Для внутренних ошибок
+ * возвращается только `{ code, message: 'Internal error' }`.
+ *
+ * @param error Ошибка (любое перехваченное значение, приводится через `toFabError`).
+ * @param options Опции (показ внутренних ошибок).
+ * @returns Объект ошибки JSON-RPC.
+ */
+export function toJsonRpcError (error: unknown, options: ToRpcErrorOptions = {}): JsonRpcErrorObject {
+  const fabError = toInternalFabError(error)
+  const code = getJsonRpcCode(fabError)
+  if (!isExposed(fabError, options)) {
+    return { code, message: 'Internal error' }
+  }
+
+  const data: JsonRpcErrorData = { code: fabError.code, context: getPublicContext(fabError) }
+  const causes: NonNullable<JsonRpcErrorData['causes']> = []
+  for (const node of traverseErrorTree(fabError)) {
+    if (node.error !== fabError && node.error instanceof FabError && isExposed(node.error, options)) {
+      causes.push({ code: node.error.code, message: node.error.message, context: getPublicContext(node.error) })
+    }
+  }
+  if (causes.length > 0) {
+    data.causes = causes
+  }
+  return { code, message: fabError.message, data }
+}
+
+/**
+ * Восстанавливает `FabError` из объекта ошибки JSON-RPC 2.0. Если `data.code` содержит код
+ * `FabError`, используется зарегистрированная (или реконструированная) спецификация, контекст
+ * из `data.context`, а `data.causes` образуют цепочку `cause`. Иначе создается ошибка `FAB_RPC_ERROR`.
+ *
+ * @param errorObject Объект `error` из ответа JSON-RPC.
+ * @param options Опции восстановления (реестр спецификаций).
+ * @returns Восстановленная `FabError`.
+ * @throws {FabError} `FAB_INVALID_ARGUMENT`, если объект не содержит числового `code` и строкового `message`.
+ */
+export function fromJsonRpcError (errorObject: unknown, options: FromRpcErrorOptions = {}): FabError<object> {
+  const candidate = errorObject as Partial<JsonRpcErrorObject> | null
+  if (typeof candidate !== 'object' || candidate === null ||
+    typeof candidate.code !== 'number' || typeof candidate.message !== 'string') {
+    throw new FabError(INVALID_ARGUMENT_SPEC, {
+      argumentName: 'errorObject',
+      argumentValue: errorObject,
+      reason: 'Expected a JSON-RPC error object with numeric "code" and string "message"'
+    })
+  }
+
+  const data = candidate.data as Partial<JsonRpcErrorData> | undefined
+  if (typeof data !== 'object' || data === null || typeof data.code !== 'string') {
+    return createFabError(RESTORED_ERROR_CREATION_OPTIONS, RPC_ERROR_SPEC, { protocol: 'json-rpc', code: candidate.code, message: candidate.message })
+  }
+
+  const registry = options.registry ?? defaultErrorSpecRegistry
+  const error = restoreError(data.code, candidate.message, { ...data.context }, { jsonRpcCode: candidate.code }, registry)
+  let current = error
+  for (const cause of Array.isArray(data.causes) ? data.causes : []) {
+    if (typeof cause?.code === 'string') {
+      const restored = restoreError(cause.code, String(cause.message), { ...cause.context }, {}, registry)
+      current.cause = restored
+      current = restored
+    }
+  }
+  return error
+}
+
+/**
+ * Преобразует значение контекста в строку для метаданных `google.rpc.ErrorInfo`.
+ */
+function toMetadataValue (value: unknown): string {
+  if (typeof value === 'string') {
+    return value
+  }
+  try {
+    return JSON.stringify(value) ?? String(value)
+  } catch (_e) {
+    return String(value)
+  }
+}
+
+/**
+ * Преобразует ошибку в объект в форме `google.rpc.Status`: `code` — канонический статус gRPC,
+ * `message` — сообщение ошибки, `details` — `google.rpc.ErrorInfo` с кодом `FabError` в `reason`
+ * и полями контекста из `spec.publicContextKeys` (с маскированием, значения приведены к строкам) в `metadata`.
+ * Для внутренних ошибок `message` — `'Internal error'`, а `details` пуст.
+ *
+ * @param error Ошибка (любое перехваченное значение, приводится через `toFabError`).
+ * @param options Опции (показ внутренних ошибок, домен `ErrorInfo`).
+ * @returns Объект статуса gRPC.
+ */
+export function toGrpcStatus (error: unknown, options: ToRpcErrorOptions = {}): GrpcStatusObject {
+  const fabError = toInternalFabError(error)
+  const code = getGrpcStatus(fabError)
+  if (!isExposed(fabError, options)) {
+    return { code, message: 'Internal error', details: [] }
+  }
+
+  const metadata: Record<string, string> = {}
+  for (const [key, value] of Object.entries(getPublicContext(fabError))) {
+    metadata[key] = toMetadataValue(value)
+  }
+  return {
+    code,
+    message: fabError.message,
+    details: [{
+      '@type': GRPC_ERROR_INFO_TYPE,
+      reason: fabError.code,
+      domain: options.domain ?? DEFAULT_GRPC_DOMAIN,
+      metadata
+    }]
+  }
+}
+
+/**
+ * Восстанавливает `FabError` из объекта в форме `google.rpc.Status`. Код `FabError` берется из `reason`
+ * первой детали `google.rpc.ErrorInfo`, контекст — из ее `metadata` (значения остаются строками).
+ * Без `ErrorInfo` создается ошибка `FAB_RPC_ERROR`.
+ *
+ * @param status Объект статуса gRPC.
+ * @param options Опции восстановления (реестр спецификаций).
+ * @returns Восстановленная `FabError`.
+ * @throws {FabError} `FAB_INVALID_ARGUMENT`, если объект не содержит числового `code`.
+ */
+export function fromGrpcStatus (status: unknown, options: FromRpcErrorOptions = {}): FabError<object> {
+  const candidate = status as Partial<GrpcStatusObject> | null
+  if (typeof candidate !== 'object' || candidate === null || typeof candidate.code !== 'number') {
+    throw new FabError(INVALID_ARGUMENT_SPEC, {
+      argumentName: 'status',
+      argumentValue: status,
+      reason: 'Expected a gRPC status object with numeric "code"'
+    })
+  }
+
+  const message = typeof candidate.message === 'string' ? candidate.message : ''
+  const errorInfo = (Array.isArray(candidate.details) ? candidate.details : []).find(
+    (detail): detail is GrpcErrorInfo => detail?.['@type'] === GRPC_ERROR_INFO_TYPE && typeof detail.reason === 'string'
+  )
+  if (errorInfo === undefined) {
+    return createFabError(RESTORED_ERROR_CREATION_OPTIONS, RPC_ERROR_SPEC, { protocol: 'grpc', code: candidate.code, message })
+  }
+
+  const registry = options.registry ?? defaultErrorSpecRegistry
+  return restoreError(errorInfo.reason, message, { ...errorInfo.metadata }, {
+    grpcStatus: candidate.code as GrpcStatusCode
+  }, registry)
+}
+
+// END OF: src/rpc-status.ts
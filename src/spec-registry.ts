@@ -0,0 +1,177 @@
+/**
+ * @file src/spec-registry.ts
+ * @description Реестр известных спецификаций ошибок (ErrorSpec), индексированных по коду.
+ * @version 1.1.9
+ * @date 2026-10-19
+ * @updated В режиме 'warn' спецификации с некорректным кодом не регистрируются.
+ *
+ * HISTORY:
+ * v1.1.9 (2026-10-19): В режиме 'warn' спецификации с некорректным кодом не регистрируются.
+ * v1.1.8 (2026-10-19): Ошибки нарушений создаются через createFabError с опциями по режиму.
+ * v1.1.7 (2026-10-19): Ошибки нарушений в режиме 'warn' создаются с INTERNAL_ERROR_CREATION_OPTIONS (без autoReport).
+ * v1.1.6 (2026-10-19): Регистрация CONTEXT_VALIDATION_FAILED_SPEC в defaultErrorSpecRegistry.
+ * v1.1.5 (2026-10-19): Регистрация ERROR_CHAIN_MISMATCH_SPEC в defaultErrorSpecRegistry.
+ * v1.1.4 (2026-10-19): Регистрация RETRY_EXHAUSTED_SPEC в defaultErrorSpecRegistry.
+ * v1.1.3 (2026-10-19): Регистрация RPC_ERROR_SPEC в defaultErrorSpecRegistry.
+ * v1.1.2 (2026-10-19): Регистрация HTTP_PROBLEM_SPEC в defaultErrorSpecRegistry.
+ * v1.1.1 (2026-10-19): Регистрация NON_ERROR_THROWN_SPEC в defaultErrorSpecRegistry.
+ * v1.1.0 (2026-10-19): Проверка кодов (onViolation: throw/warn), list() с фильтрами, unregister().
+ * v1.0.0 (2026-10-19): Начальная реализация createErrorSpecRegistry и реестра по умолчанию.
+ */
+
+import type { ErrorSpec } from './error-spec.js'
+import {
+  CONTEXT_VALIDATION_FAILED_SPEC,
+  ERROR_CHAIN_MISMATCH_SPEC,
+  HTTP_PROBLEM_SPEC,
+  INVALID_ARGUMENT_SPEC,
+  NON_ERROR_THROWN_SPEC,
+  NOT_IMPLEMENTED_SPEC,
+  OPERATION_FAILED_SPEC,
+  RETRY_EXHAUSTED_SPEC,
+  RPC_ERROR_SPEC,
+  SPEC_DUPLICATE_CODE_SPEC,
+  SPEC_INVALID_CODE_SPEC,
+  UNEXPECTED_ERROR_SPEC
+} from './base-specs.js'
+import { dependencies } from './di.js'
+import { createFabError, FabError, INTERNAL_ERROR_CREATION_OPTIONS } from './fab-error.js'
+import { isValidErrorCode } from './utils.js'
+
+/**
+ * Фильтр для выборки спецификаций из реестра методом `list()`.
+ */
+export interface ErrorSpecFilter {
+  /** Код спецификации должен начинаться с этой строки (например, `'AUTH_'`). */
+  prefix?: string
+  /**
+   * Пространство имен кода: первый сегмент UPPER_SNAKE_CASE.
+   * `namespace: 'AUTH'` выбирает коды вида `AUTH_*`.
+   */
+  namespace?: string
+}
+
+/**
+ * Опции создания реестра спецификаций.
+ */
+export interface ErrorSpecRegistryOptions {
+  /**
+   * Поведение при нарушении правил регистрации (дубликат или некорректный формат кода):
+   * - `'throw'` (по умолчанию): выбрасывается `FabError` (`FAB_SPEC_DUPLICATE_CODE` / `FAB_SPEC_INVALID_CODE`);
+   * - `'warn'`: нарушение сообщается через внедренный `LoggerLike` (`warn`), спецификация с дублирующимся
+   *   или некорректным кодом не регистрируется.
+   */
+  onViolation?: 'throw' | 'warn'
+}
+
+/**
+ * Реестр спецификаций ошибок. Позволяет по коду ошибки найти исходную `ErrorSpec`,
+ * например, при восстановлении `FabError` из `FabErrorJSON`.
+ */
+export interface ErrorSpecRegistry {
+  /**
+   * Регистрирует одну или несколько спецификаций. Повторная регистрация того же объекта
+   * спецификации игнорируется. Регистрация другой спецификации с уже занятым кодом,
+   * а также код не в формате UPPER_SNAKE_CASE считаются нарушением (см. `onViolation`).
+   */
+  register: (...specs: Array<ErrorSpec<object>>) => void
+  /** Удаляет спецификацию с указанным кодом. Возвращает `true`, если она была зарегистрирована. */
+  unregister: (code: string) => boolean
+  /** Возвращает спецификацию по коду или `undefined`, если код неизвестен. */
+  get: (code: string) => ErrorSpec<object> | undefined
+  /** Проверяет, зарегистрирована ли спецификация с указанным кодом. */
+  has: (code: string) => boolean
+  /** Возвращает зарегистрированные спецификации (в порядке регистрации), опционально отфильтрованные. */
+  list: (filter?: ErrorSpecFilter) => Array<ErrorSpec<object>>
+  /** Удаляет все зарегистрированные спецификации. */
+  clear: () => void
+}
+
+/**
+ * Создает новый пустой реестр спецификаций ошибок.
+ *
+ * @param options Опции реестра (поведение при нарушениях).
+ * @returns Новый экземпляр `ErrorSpecRegistry`.
+ */
+export function createErrorSpecRegistry (options: ErrorSpecRegistryOptions = {}): ErrorSpecRegistry {
+  const onViolation = options.onViolation ?? 'throw'
+  const specs = new Map<string, ErrorSpec<object>>()
+
+  /**
+   * Сообщает о нарушении: выбрасывает ошибку или пишет предупреждение в логгер.
+   */
+  function reportViolation<TContext extends object> (spec: ErrorSpec<TContext>, context: TContext): void {
+    if (onViolation === 'throw') {
+      throw new FabError(spec, context)
+    }
+    const error = createFabError(INTERNAL_ERROR_CREATION_OPTIONS, spec, context)
+    dependencies.logger?.warn({ err: error.toJSON(), code: error.code }, `[fab-errors] ${error.message}`)
+  }
+
+  return {
+    register (...newSpecs) {
+      for (const spec of newSpecs) {
+        if (!isValidErrorCode(spec.code)) {
+          reportViolation(SPEC_INVALID_CODE_SPEC, {
+            code: String(spec.code),
+            reason: 'expected a non-empty UPPER_SNAKE_CASE string'
+          })
+          continue
+        }
+
+        const existing = specs.get(spec.code)
+        if (existing === spec) {
+          continue
+        }
+        if (existing !== undefined) {
+          reportViolation(SPEC_DUPLICATE_CODE_SPEC, { code: spec.code })
+          continue
+        }
+
+        specs.set(spec.code, spec)
+      }
+    },
+    unregister (code) {
+      return specs.delete(code)
+    },
+    get (code) {
+      return specs.get(code)
+    },
+    has (code) {
+      return specs.has(code)
+    },
+    list (filter = {}) {
+      const { prefix, namespace } = filter
+      return [...specs.values()].filter(spec =>
+        (prefix === undefined || spec.code.startsWith(prefix)) &&
+        (namespace === undefined || spec.code.startsWith(`${namespace}_`))
+      )
+    },
+    clear () {
+      specs.clear()
+    }
+  }
+}
+
+/**
+ * Реестр спецификаций по умолчанию. Используется `FabError.fromJSON()`,
+ * если реестр не передан явно. Изначально содержит базовые спецификации библиотеки.
+ */
+export const defaultErrorSpecRegistry: ErrorSpecRegistry = createErrorSpecRegistry()
+
+defaultErrorSpecRegistry.register(
+  INVALID_ARGUMENT_SPEC,
+  OPERATION_FAILED_SPEC,
+  NOT_IMPLEMENTED_SPEC,
+  UNEXPECTED_ERROR_SPEC,
+  SPEC_DUPLICATE_CODE_SPEC,
+  SPEC_INVALID_CODE_SPEC,
+  NON_ERROR_THROWN_SPEC,
+  HTTP_PROBLEM_SPEC,
+  RPC_ERROR_SPEC,
+  RETRY_EXHAUSTED_SPEC,
+  ERROR_CHAIN_MISMATCH_SPEC,
+  CONTEXT_VALIDATION_FAILED_SPEC
+)
+
+// END OF: src/spec-registry.ts
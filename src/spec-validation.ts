@@ -0,0 +1,168 @@
+/**
+ * @file src/spec-validation.ts
+ * @description Проверка ErrorSpec во время выполнения (код, шаблон сообщения, плейсхолдеры).
+ * @version 1.0.1
+ * @date 2026-10-19
+ * @updated Форматтеры spec.messageFormat.formatters считаются известными.
+ *
+ * HISTORY:
+ * v1.0.1 (2026-10-19): Форматтеры spec.messageFormat.formatters считаются известными.
+ * v1.0.0 (2026-10-19): Начальная реализация validateSpec.
+ */
+
+import type { ErrorSpec } from './error-spec.js'
+import { DEFAULT_MESSAGE_FORMATTERS, isValidErrorCode, parseTemplatePlaceholders } from './utils.js'
+
+/**
+ * Вид проблемы, найденной при проверке спецификации:
+ * - `'invalid-code'`: код не является строкой в формате UPPER_SNAKE_CASE;
+ * - `'invalid-template'`: `messageTemplate` не является строкой;
+ * - `'unknown-placeholder'`: плейсхолдер ссылается на ключ, отсутствующий в контексте;
+ * - `'unknown-formatter'`: плейсхолдер использует незарегистрированный форматтер;
+ * - `'malformed-placeholder'`: конструкция `{...}`, не распознаваемая как плейсхолдер (останется в тексте как есть);
+ * - `'unused-context-key'`: известный ключ контекста не используется в шаблоне.
+ */
+export type SpecValidationIssueKind =
+  | 'invalid-code'
+  | 'invalid-template'
+  | 'unknown-placeholder'
+  | 'unknown-formatter'
+  | 'malformed-placeholder'
+  | 'unused-context-key'
+
+/**
+ * Проблема, найденная при проверке спецификации.
+ */
+export interface SpecValidationIssue {
+  kind: SpecValidationIssueKind
+  /** `'error'` делает спецификацию невалидной, `'warning'` — только информирует. */
+  severity: 'error' | 'warning'
+  /** Описание проблемы. */
+  message: string
+  /** Плейсхолдер, к которому относится проблема (как в шаблоне). */
+  placeholder?: string
+  /** Ключ контекста, к которому относится проблема. */
+  key?: string
+}
+
+/**
+ * Результат проверки спецификации.
+ */
+export interface SpecValidationResult {
+  /** `true`, если не найдено проблем с уровнем `'error'`. */
+  valid: boolean
+  /** Пути всех распознанных плейсхолдеров шаблона. */
+  placeholders: string[]
+  /** Найденные проблемы. */
+  issues: SpecValidationIssue[]
+}
+
+/**
+ * Опции проверки спецификации.
+ */
+export interface ValidateSpecOptions {
+  /**
+   * Известные ключи контекста (поля `TContext`). Ключи из `spec.defaultContext` добавляются
+   * автоматически. Если ключи не заданы и `defaultContext` отсутствует, проверка
+   * неизвестных плейсхолдеров не выполняется. Неиспользуемые ключи сообщаются только
+   * для явно переданных `contextKeys`.
+   */
+  contextKeys?: readonly string[]
+  /** Имена дополнительных форматтеров, допустимых в шаблоне (помимо встроенных и `spec.messageFormat.formatters`). */
+  formatters?: readonly string[]
+}
+
+/** Любое содержимое фигурных скобок, включая экранированные `{{` и `}}`. */
+const ANY_BRACES_PATTERN = /\{\{|\}\}|\{([^{}]*)\}/g
+
+/**
+ * Проверяет спецификацию ошибки во время выполнения. Предназначена прежде всего для спецификаций,
+ * загруженных из JSON или других нетипизированных источников, для которых невозможна проверка
+ * на этапе компиляции (см. `defineErrorSpec`).
+ *
+ * @param spec Проверяемая спецификация (может быть получена из нетипизированного источника).
+ * @param options Известные ключи контекста и дополнительные форматтеры.
+ * @returns Отчет `SpecValidationResult` со списком проблем.
+ * @deterministic Да, результат зависит только от входных данных.
+ */
+export function validateSpec (spec: ErrorSpec<object>, options: ValidateSpecOptions = {}): SpecValidationResult {
+  const issues: SpecValidationIssue[] = []
+
+  if (!isValidErrorCode(spec.code)) {
+    issues.push({
+      kind: 'invalid-code',
+      severity: 'error',
+      message: `Code "${String(spec.code)}" is not a non-empty UPPER_SNAKE_CASE string.`
+    })
+  }
+
+  const template: unknown = spec.messageTemplate
+  if (typeof template !== 'string') {
+    issues.push({ kind: 'invalid-template', severity: 'error', message: 'messageTemplate must be a string.' })
+    return { valid: false, placeholders: [], issues }
+  }
+
+  const placeholders = parseTemplatePlaceholders(template)
+  const recognized = new Set(placeholders.map(placeholder => placeholder.raw))
+  for (const [raw, inner] of template.matchAll(ANY_BRACES_PATTERN)) {
+    if (inner !== undefined && !recognized.has(raw)) {
+      issues.push({
+        kind: 'malformed-placeholder',
+        severity: 'warning',
+        message: `"${raw}" is not a valid placeholder and will be left in the message as is.`,
+        placeholder: raw
+      })
+    }
+  }
+
+  const knownFormatters = new Set([
+    ...Object.keys(DEFAULT_MESSAGE_FORMATTERS),
+    ...Object.keys(spec.messageFormat?.formatters ?? {}),
+    ...(options.formatters ?? [])
+  ])
+  for (const placeholder of placeholders) {
+    if (placeholder.formatter !== undefined && !knownFormatters.has(placeholder.formatter)) {
+      issues.push({
+        kind: 'unknown-formatter',
+        severity: 'error',
+        message: `Placeholder "${placeholder.raw}" uses unknown formatter "${placeholder.formatter}".`,
+        placeholder: placeholder.raw
+      })
+    }
+  }
+
+  const knownKeys = new Set([...(options.contextKeys ?? []), ...Object.keys(spec.defaultContext ?? {})])
+  if (knownKeys.size > 0) {
+    for (const placeholder of placeholders) {
+      if (!knownKeys.has(placeholder.root)) {
+        issues.push({
+          kind: 'unknown-placeholder',
+          severity: 'error',
+          message: `Placeholder "${placeholder.raw}" references unknown context key "${placeholder.root}".`,
+          placeholder: placeholder.raw,
+          key: placeholder.root
+        })
+      }
+    }
+  }
+
+  const usedRoots = new Set(placeholders.map(placeholder => placeholder.root))
+  for (const key of options.contextKeys ?? []) {
+    if (!usedRoots.has(key)) {
+      issues.push({
+        kind: 'unused-context-key',
+        severity: 'warning',
+        message: `Context key "${key}" is not used in messageTemplate.`,
+        key
+      })
+    }
+  }
+
+  return {
+    valid: issues.every(issue => issue.severity !== 'error'),
+    placeholders: placeholders.map(placeholder => placeholder.path),
+    issues
+  }
+}
+
+// END OF: src/spec-validation.ts
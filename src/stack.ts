@@ -0,0 +1,188 @@
+/**
+ * @file src/stack.ts
+ * @description Разбор стека вызовов (Error.stack) на структурированные кадры.
+ * @version 1.0.1
+ * @date 2026-10-19
+ * @updated Кадры библиотеки распознаются в бандлах и путях Windows.
+ *
+ * HISTORY:
+ * v1.0.1 (2026-10-19): Кадры библиотеки распознаются по имени пакета и именам функций библиотеки (бандлы),
+ *   пути файлов нормализуются (разделители Windows, file://).
+ * v1.0.0 (2026-10-19): Начальная реализация StackFrame, parseStack и удаления кадров библиотеки.
+ */
+
+/**
+ * Кадр стека вызовов.
+ */
+export interface StackFrame {
+  /** Имя функции (с учетом `new` и объекта, например `'new FabError'` или `'Object.<anonymous>'`). */
+  functionName?: string
+  /** Путь или URL файла. Отсутствует для кадров без файла (`native`, `<anonymous>`, `index 0`). */
+  file?: string
+  /** Номер строки (с 1). */
+  line?: number
+  /** Номер столбца (с 1). */
+  column?: number
+  /** Кадр асинхронного продолжения (`at async fn`). */
+  isAsync: boolean
+  /** Внутренний кадр среды выполнения: модули `node:*` и `internal/*`, встроенные функции без файла. */
+  isInternal: boolean
+  /** Кадр из зависимости в `node_modules`. */
+  isNodeModules: boolean
+  /** Кадр самой библиотеки `@fab33/fab-errors` (конструкторы, фабрики, `wrap`, `toFabError` и т.д.). */
+  isLibrary: boolean
+  /** Исходная строка кадра без отступа. */
+  raw: string
+}
+
+/**
+ * Опции разбора стека.
+ */
+export interface ParseStackOptions {
+  /** Удалять кадры самой библиотеки (`StackFrame.isLibrary`). По умолчанию `false`. */
+  stripLibraryFrames?: boolean
+}
+
+/**
+ * Настройки кадров стека в ошибках (секция `stackFrames` глобальной конфигурации).
+ */
+export interface StackFramesConfig {
+  /** Добавлять массив `frames` в `toJSON()` ошибок и причин. По умолчанию `true`. */
+  includeInJSON?: boolean
+  /**
+   * Удалять кадры библиотеки из `FabError.getStackFrames()` и `frames` в `toJSON()`, чтобы первым
+   * кадром был код, создавший ошибку. Строка `stack` не изменяется. По умолчанию `true`.
+   */
+  stripLibraryFrames?: boolean
+}
+
+/** Сегмент пути установленного пакета библиотеки (в `node_modules` и в путях source map). */
+const LIBRARY_PACKAGE_SEGMENT = '/@fab33/fab-errors/'
+
+/**
+ * Функции библиотеки, создающие ошибки. По ним распознаются кадры библиотеки, собранной в общий бандл приложения,
+ * где путь файла не отличает ее модули от кода приложения. `Function.*` — имена статических методов в V8 до Node.js 21.
+ */
+const LIBRARY_FUNCTION_NAMES = new Set([
+  'new FabError',
+  'new AggregateFabError',
+  'FabError.wrap',
+  'AggregateFabError.wrap',
+  'Function.wrap',
+  'FabError.fromJSON',
+  'AggregateFabError.fromJSON',
+  'Function.fromJSON',
+  'createFabError',
+  'toFabError',
+  'toInternalFabError',
+  'normalizeThrownValue',
+  'tryCatch',
+  'Object.createDefinedError'
+])
+
+/** Суффикс имени метода, вызванного через свойство с другим именем: `Object.fn [as create]`. */
+const METHOD_ALIAS_PATTERN = / \[as [^\]]+\]$/
+
+/**
+ * Приводит путь или URL файла к виду `/dir/file.js` (`c:/dir/file.js` для Windows): декодирует `file://`,
+ * заменяет обратные слеши и приводит букву диска к нижнему регистру.
+ */
+function normalizeFilePath (file: string): string {
+  const path = file.startsWith('file://') ? decodeURIComponent(new URL(file).pathname) : file
+  return path
+    .replace(/\\/g, '/')
+    .replace(/^\/(?=[A-Za-z]:\/)/, '')
+    .replace(/^[A-Z](?=:\/)/, drive => drive.toLowerCase())
+}
+
+/** Каталог модулей библиотеки (`src` или `dist`) в нормализованном виде. */
+const LIBRARY_DIRECTORY = normalizeFilePath(new URL('.', import.meta.url).href)
+
+/**
+ * Проверяет, относится ли кадр к самой библиотеке: по каталогу модулей, пути пакета или имени функции.
+ */
+function isLibraryFrame (functionName: string | undefined, file: string | undefined): boolean {
+  if (functionName !== undefined && LIBRARY_FUNCTION_NAMES.has(functionName.replace(METHOD_ALIAS_PATTERN, ''))) {
+    return true
+  }
+  if (file === undefined) {
+    return false
+  }
+  const path = normalizeFilePath(file)
+  return path.startsWith(LIBRARY_DIRECTORY) || path.includes(LIBRARY_PACKAGE_SEGMENT)
+}
+
+/** Кадр V8: `at [async] fn (location)` или `at [async] location`. */
+const V8_FRAME_PATTERN = /^at (?:(async) )?(?:(.*?) \((.*)\)|(.*))$/
+
+/** Кадр SpiderMonkey / JavaScriptCore: `fn@location`. */
+const AT_SIGN_FRAME_PATTERN = /^([^@\s]*)@(\S*:\d+(?::\d+)?)$/
+
+/** Расположение с номерами строки и столбца: `file:line[:column]`. */
+const LOCATION_PATTERN = /^(.*?):(\d+)(?::(\d+))?$/
+
+/**
+ * Создает кадр из имени функции и расположения.
+ */
+function createFrame (raw: string, functionName: string | undefined, location: string, isAsync: boolean): StackFrame {
+  const match = LOCATION_PATTERN.exec(location)
+  const file = match?.[1]
+  const isNodeInternal = file !== undefined && (file.startsWith('node:') || file.startsWith('internal/'))
+  return {
+    ...(functionName !== undefined && functionName !== '' ? { functionName } : {}),
+    ...(match !== null
+      ? { file, line: Number(match[2]), ...(match[3] !== undefined ? { column: Number(match[3]) } : {}) }
+      : {}),
+    isAsync,
+    isInternal: match === null || isNodeInternal,
+    isNodeModules: file !== undefined && /[\\/]node_modules[\\/]/.test(file),
+    isLibrary: isLibraryFrame(functionName, file),
+    raw
+  }
+}
+
+/**
+ * Разбирает одну строку стека; возвращает `undefined` для строк, не являющихся кадрами
+ * (заголовок `Name: message`, продолжение многострочного сообщения).
+ */
+function parseFrame (line: string): StackFrame | undefined {
+  const v8 = V8_FRAME_PATTERN.exec(line)
+  if (v8 !== null) {
+    const [, asyncKeyword, functionName, location, bareLocation] = v8
+    return createFrame(line, functionName, location ?? bareLocation, asyncKeyword !== undefined)
+  }
+  const atSign = AT_SIGN_FRAME_PATTERN.exec(line)
+  if (atSign !== null) {
+    return createFrame(line, atSign[1], atSign[2], false)
+  }
+  return undefined
+}
+
+/**
+ * Разбирает стек вызовов (`Error.stack`) на структурированные кадры. Поддерживается формат V8
+ * (Node.js, Chromium); строки вида `fn@file:line:col` (Firefox, Safari) разбираются по возможности.
+ * Заголовок с именем и сообщением ошибки пропускается.
+ *
+ * @example
+ * parseStack(error.stack).find(frame => !frame.isInternal && !frame.isNodeModules)
+ *
+ * @param stack Строка стека (`error.stack`); `undefined` дает пустой массив.
+ * @param options Опции разбора.
+ * @returns Кадры в порядке стека (от места создания ошибки к внешним вызовам).
+ * @deterministic Да, для той же строки стека.
+ */
+export function parseStack (stack: string | undefined, options: ParseStackOptions = {}): StackFrame[] {
+  if (typeof stack !== 'string') {
+    return []
+  }
+  const frames: StackFrame[] = []
+  for (const line of stack.split('\n')) {
+    const frame = parseFrame(line.trim())
+    if (frame !== undefined && !(options.stripLibraryFrames === true && frame.isLibrary)) {
+      frames.push(frame)
+    }
+  }
+  return frames
+}
+
+// END OF: src/stack.ts
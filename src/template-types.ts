@@ -0,0 +1,79 @@
+/**
+ * @file src/template-types.ts
+ * @description Типы для проверки плейсхолдеров шаблона сообщения относительно TContext на этапе компиляции.
+ * @version 1.0.0
+ * @date 2026-10-19
+ * @updated Начальная реализация TemplatePlaceholders, InvalidPlaceholders и ValidateTemplate.
+ *
+ * HISTORY:
+ * v1.0.0 (2026-10-19): Начальная реализация типов проверки шаблонов.
+ */
+
+/** Удаляет экранированные скобки `{{` и `}}`, чтобы они не распознавались как плейсхолдеры. */
+type StripEscapes<T extends string> =
+  T extends `${infer A}{{${infer B}` ? StripEscapes<`${A}${B}`>
+    : T extends `${infer A}}}${infer B}` ? StripEscapes<`${A}${B}`>
+      : T
+
+/** Содержимое всех `{...}` в шаблоне. */
+type RawPlaceholders<T extends string> =
+  T extends `${string}{${infer P}}${infer Rest}` ? P | RawPlaceholders<Rest> : never
+
+/** Отбрасывает часть с форматтером: `amount:currency:EUR` -> `amount`. */
+type PlaceholderPath<P extends string> = P extends `${infer Path}:${string}` ? Path : P
+
+/** Приводит индексы массивов к точечной записи: `items[0].name` -> `items.0.name`. */
+type NormalizePath<P extends string> =
+  P extends `${infer A}[${infer I}]${infer B}` ? NormalizePath<`${A}.${I}${B}`> : P
+
+/**
+ * Пути всех плейсхолдеров шаблона (без форматтеров, индексы в точечной записи).
+ * Конструкции с пробелами и пустые `{}` не считаются плейсхолдерами, как и в `formatMessage`.
+ *
+ * @example TemplatePlaceholders<'User {user.id}: {amount:currency}'> // 'user.id' | 'amount'
+ */
+export type TemplatePlaceholders<T extends string> = RawPlaceholders<StripEscapes<T>> extends infer P
+  ? P extends `${string} ${string}` | '' ? never : P extends string ? NormalizePath<PlaceholderPath<P>> : never
+  : never
+
+/** Есть ли у типа ключ `K` (для массивов — числовой индекс, для индексных сигнатур — любой ключ). */
+type HasKey<T, K extends string> =
+  T extends readonly unknown[] ? (K extends `${number}` ? true : false)
+    : string extends keyof T ? true
+      : K extends keyof T ? true : false
+
+/** Тип значения по ключу `K`. */
+type Child<T, K extends string> =
+  T extends ReadonlyArray<infer E> ? E : K extends keyof T ? T[K] : unknown
+
+/**
+ * Разрешается ли путь `P` в типе `T`. Значения типа `unknown`/`any` считаются допустимыми
+ * на любую глубину, так как их структура неизвестна.
+ */
+export type IsValidPath<T, P extends string> =
+  unknown extends T ? true
+    : NonNullable<T> extends object
+      ? P extends `${infer K}.${infer Rest}`
+        ? HasKey<NonNullable<T>, K> extends true ? IsValidPath<Child<NonNullable<T>, K>, Rest> : false
+        : HasKey<NonNullable<T>, P>
+      : false
+
+/**
+ * Плейсхолдеры шаблона `T`, которые не разрешаются в типе контекста `TContext`.
+ *
+ * @example InvalidPlaceholders<'Op {operatonName}', { operationName: string }> // 'operatonName'
+ */
+export type InvalidPlaceholders<T extends string, TContext> = {
+  [P in TemplatePlaceholders<T>]: IsValidPath<TContext, P> extends true ? never : P
+}[TemplatePlaceholders<T>]
+
+/**
+ * Проверка шаблона: `unknown` для корректного шаблона, иначе объектный тип с перечнем
+ * неизвестных плейсхолдеров (пересечение со строкой дает понятную ошибку компиляции).
+ */
+export type ValidateTemplate<T extends string, TContext> =
+  [InvalidPlaceholders<T, TContext>] extends [never]
+    ? unknown
+    : { readonly unknownPlaceholders: InvalidPlaceholders<T, TContext> }
+
+// END OF: src/template-types.ts
@@ -1,59 +1,289 @@
 /**
  * @file src/utils.ts
  * @description Вспомогательные утилиты для библиотеки @fab33/fab-errors.
- * @version 1.0.2
- * @date 2025-05-30
- * @updated Переименована неиспользуемая переменная ошибки в catch на _e. Добавлена пустая строка в конце файла (eol-last).
+ * @version 1.4.1
+ * @date 2026-10-19
+ * @updated toJSONSafeValue обходит экземпляры классов.
  *
  * HISTORY:
+ * v1.4.1 (2026-10-19): toJSONSafeValue обходит собственные поля экземпляров классов и вызывает их toJSON().
+ * v1.4.0 (2026-10-19): Добавлена toJSONSafeValue (замена bigint, symbol, функций и циклов для JSON.stringify).
+ * v1.3.0 (2026-10-19): Добавлены parseTemplatePlaceholders и TemplatePlaceholder.
+ * v1.2.0 (2026-10-19): Расширен синтаксис плейсхолдеров formatMessage, добавлены FormatMessageOptions и форматтеры.
+ * v1.1.0 (2026-10-19): Добавлены ERROR_CODE_PATTERN и isValidErrorCode.
  * v1.0.2 (2025-05-30): Исправлено правило no-unused-vars (catch _e) и eol-last.
  * v1.0.1 (2025-05-30): Исправления ESLint, улучшено преобразование в строку в formatMessage.
  * v1.0.0 (2025-05-29): Добавлена функция formatMessage.
  */
 
+/**
+ * Функция-форматтер значения плейсхолдера (`{key:formatter}` или `{key:formatter:arg}`).
+ * Возвращает строку для подстановки или `undefined`, если значение не может быть отформатировано
+ * (тогда применяется политика `missing`).
+ *
+ * @param value Значение из контекста (не `null` и не `undefined`).
+ * @param arg Необязательный аргумент форматтера из шаблона (часть после второго `:`).
+ */
+export type MessageFormatter = (value: unknown, arg?: string) => string | undefined
+
+/**
+ * Политика обработки плейсхолдеров, для которых нет значения (или значение нельзя отобразить):
+ * - `'keep'`: плейсхолдер остается в строке как есть (по умолчанию);
+ * - `'blank'`: плейсхолдер заменяется пустой строкой;
+ * - `'marker'`: плейсхолдер заменяется маркером `<missing:path>`.
+ */
+export type MissingValuePolicy = 'keep' | 'blank' | 'marker'
+
+/**
+ * Опции форматирования сообщения для `formatMessage`.
+ */
+export interface FormatMessageOptions {
+  /** Политика для отсутствующих значений. По умолчанию `'keep'`. */
+  missing?: MissingValuePolicy
+  /** Дополнительные форматтеры (дополняют и переопределяют `DEFAULT_MESSAGE_FORMATTERS`). */
+  formatters?: Readonly<Record<string, MessageFormatter>>
+}
+
+/**
+ * Разбор плейсхолдера: `{{` / `}}` (экранированные скобки) или `{path[:formatter[:arg]]}`,
+ * где `path` — ключи через точку и индексы массивов (`user.id`, `items[0].name`).
+ */
+const PLACEHOLDER_PATTERN = /\{\{|\}\}|\{(\w+(?:\.\w+|\[\d+\])*)(?::(\w+)(?::([^{}]*))?)?\}/g
+
+/**
+ * Преобразует примитив или объект с собственным `toString()` в строку.
+ * Возвращает `undefined`, если значение нельзя безопасно отобразить.
+ */
+function stringifyValue (value: unknown): string | undefined {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') {
+    return String(value)
+  }
+  // Для объектов пытаемся вызвать toString, если он переопределен
+  if (typeof value === 'object' && value !== null && typeof value.toString === 'function') {
+    // Стандартный Object.prototype.toString дает бесполезный '[object Object]'
+    if (value.toString !== Object.prototype.toString) {
+      try {
+        return value.toString()
+      } catch (_e) {
+        // Игнорируем ошибки при вызове кастомного toString
+        return undefined
+      }
+    }
+  }
+  // Для других типов (function, symbol, etc.)
+  return undefined
+}
+
+/**
+ * Встроенные форматтеры плейсхолдеров:
+ * - `json`: `JSON.stringify(value)`;
+ * - `join`: элементы массива через разделитель (аргумент, по умолчанию `', '`);
+ * - `currency`: число как денежная сумма (аргумент — код валюты, по умолчанию `USD`, локаль `en-US`);
+ * - `upper` / `lower`: строковое представление в верхнем / нижнем регистре.
+ */
+export const DEFAULT_MESSAGE_FORMATTERS: Readonly<Record<string, MessageFormatter>> = Object.freeze({
+  json: (value) => {
+    try {
+      return JSON.stringify(value)
+    } catch (_e) {
+      return undefined // Например, циклические структуры
+    }
+  },
+  join: (value, separator = ', ') => {
+    if (!Array.isArray(value)) {
+      return undefined
+    }
+    return value.map(item => stringifyValue(item) ?? DEFAULT_MESSAGE_FORMATTERS.json(item) ?? '').join(separator)
+  },
+  currency: (value, currencyCode = 'USD') => {
+    if (typeof value !== 'number' && typeof value !== 'bigint') {
+      return undefined
+    }
+    try {
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency: currencyCode }).format(value)
+    } catch (_e) {
+      return undefined // Некорректный код валюты
+    }
+  },
+  upper: (value) => stringifyValue(value)?.toUpperCase(),
+  lower: (value) => stringifyValue(value)?.toLowerCase()
+})
+
+/**
+ * Возвращает значение по пути (`a.b`, `a[0].b`, `a.0.b`) или `undefined`, если путь не разрешается.
+ *
+ * @param source Объект, в котором ищется значение.
+ * @param path Путь к значению.
+ * @returns Найденное значение или `undefined`.
+ * @deterministic Да, при неизменном `source`.
+ */
+export function getValueByPath (source: unknown, path: string): unknown {
+  const segments = path.replace(/\[(\d+)\]/g, '.$1').split('.')
+  let current: unknown = source
+  for (const segment of segments) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[segment]
+  }
+  return current
+}
+
 /**
  * Форматирует шаблон сообщения, подставляя значения из контекста.
- * Если ключ из плейсхолдера `{key}` отсутствует в контексте или его значение
- * `null` или `undefined`, плейсхолдер остается в строке без изменений.
- * Для объектов пытается вызвать `.toString()`, если он не стандартный `Object.prototype.toString`.
  *
- * @param template Шаблон сообщения с плейсхолдерами вида `{key}`.
+ * Поддерживаемый синтаксис плейсхолдеров:
+ * - `{key}` — значение поля контекста;
+ * - `{user.id}`, `{items[0]}`, `{details.items.0.name}` — вложенные пути и индексы массивов;
+ * - `{amount:currency}`, `{amount:currency:EUR}`, `{list:join}`, `{list:join: | }`, `{value:json}` — форматтеры
+ *   (см. `DEFAULT_MESSAGE_FORMATTERS`) с необязательным аргументом;
+ * - `{{` и `}}` — литеральные фигурные скобки.
+ *
+ * Примитивы подставляются через `String()`. Для объектов вызывается `.toString()`, если он не стандартный
+ * `Object.prototype.toString`. Если значение отсутствует (`null`/`undefined`), не может быть отображено
+ * или форматтер неизвестен/вернул `undefined`, применяется политика `options.missing`
+ * (по умолчанию плейсхолдер остается без изменений).
+ *
+ * @param template Шаблон сообщения с плейсхолдерами.
  * @param context Объект со значениями для подстановки.
+ * @param options Опции форматирования (политика пропусков, дополнительные форматтеры).
  * @returns Отформатированное сообщение. Если `template` не является строкой, возвращается пустая строка.
- * @deterministic Да, при одинаковых template и context результат всегда одинаков (за исключением нестандартных toString).
+ * @deterministic Да, при одинаковых template, context и options результат всегда одинаков (за исключением
+ *   нестандартных toString и пользовательских форматтеров).
  */
-export function formatMessage (template: string, context: object): string {
+export function formatMessage (template: string, context: object, options: FormatMessageOptions = {}): string {
   if (typeof template !== 'string') {
     return ''
   }
 
-  const ctx = context as Record<string, unknown>
+  const missing = options.missing ?? 'keep'
+  const formatters = options.formatters
+    ? { ...DEFAULT_MESSAGE_FORMATTERS, ...options.formatters }
+    : DEFAULT_MESSAGE_FORMATTERS
 
-  return template.replace(/{(\w+)}/g, (match, key: string) => {
-    const value = ctx[key]
+  return template.replace(PLACEHOLDER_PATTERN, (match, path?: string, formatterName?: string, arg?: string) => {
+    if (match === '{{') return '{'
+    if (match === '}}') return '}'
 
+    const value = getValueByPath(context, path as string)
+    let rendered: string | undefined
     if (value !== undefined && value !== null) {
-      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
-        return String(value)
+      if (formatterName === undefined) {
+        rendered = stringifyValue(value)
+      } else if (Object.prototype.hasOwnProperty.call(formatters, formatterName)) {
+        rendered = formatters[formatterName](value, arg)
       }
-      // Для объектов пытаемся вызвать toString, если он переопределен
-      if (typeof value === 'object' && value !== null && typeof value.toString === 'function') {
-        if (value.toString !== Object.prototype.toString) {
-          try {
-            return value.toString()
-          } catch (_e) { // Переменная ошибки 'e' переименована в '_e', так как не используется
-            // Игнорируем ошибки при вызове кастомного toString, оставляем плейсхолдер
-            return match
-          }
-        }
-        // Если это стандартный Object.prototype.toString, не используем его вывод ([object Object])
-        return match // Оставляем плейсхолдер
-      }
-      // Для других типов (function, symbol, etc.) или если безопасное преобразование не удалось
-      return match
     }
-    return match // Оставляем плейсхолдер, если значение null/undefined или отсутствует
+
+    if (rendered !== undefined) {
+      return rendered
+    }
+    if (missing === 'blank') {
+      return ''
+    }
+    if (missing === 'marker') {
+      return `<missing:${path as string}>`
+    }
+    return match // Оставляем плейсхолдер
   })
 }
 
+/**
+ * Описание плейсхолдера шаблона сообщения, полученное через `parseTemplatePlaceholders`.
+ */
+export interface TemplatePlaceholder {
+  /** Плейсхолдер целиком, как в шаблоне, например `'{user.id:json}'`. */
+  raw: string
+  /** Путь к значению, например `'user.id'` или `'items[0]'`. */
+  path: string
+  /** Корневой ключ контекста, например `'user'`. */
+  root: string
+  /** Имя форматтера, если указано. */
+  formatter?: string
+  /** Аргумент форматтера, если указан. */
+  arg?: string
+}
+
+/**
+ * Возвращает все плейсхолдеры шаблона в порядке появления (по правилам `formatMessage`,
+ * экранированные скобки `{{`/`}}` пропускаются).
+ *
+ * @param template Шаблон сообщения.
+ * @returns Массив описаний плейсхолдеров.
+ * @deterministic Да, результат зависит только от шаблона.
+ */
+export function parseTemplatePlaceholders (template: string): TemplatePlaceholder[] {
+  const placeholders: TemplatePlaceholder[] = []
+  for (const [raw, path, formatter, arg] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (path === undefined) {
+      continue // Экранированные скобки
+    }
+    placeholders.push({ raw, path, root: path.split(/[.[]/)[0], formatter, arg })
+  }
+  return placeholders
+}
+
+/**
+ * Шаблон допустимого кода ошибки: UPPER_SNAKE_CASE, начинается с буквы.
+ * @example 'MY_MODULE_OPERATION_FAILED'
+ */
+export const ERROR_CODE_PATTERN = /^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*$/
+
+/**
+ * Проверяет, соответствует ли код ошибки формату UPPER_SNAKE_CASE.
+ *
+ * @param code Проверяемый код.
+ * @returns `true`, если код является непустой строкой в формате UPPER_SNAKE_CASE.
+ * @deterministic Да, результат зависит только от входного значения.
+ */
+export function isValidErrorCode (code: unknown): code is string {
+  return typeof code === 'string' && ERROR_CODE_PATTERN.test(code)
+}
+
+/**
+ * Возвращает копию значения, которую можно передать в `JSON.stringify` без исключений: `bigint` и `symbol`
+ * заменяются строкой (`String()`), функции — строкой `'[Function name]'`, циклические ссылки — `'[Circular]'`.
+ * Массивы, простые объекты и собственные перечисляемые поля экземпляров классов обходятся рекурсивно;
+ * `Date` и `URL` копируются по ссылке, а для объектов с методом `toJSON()` обходится его результат.
+ *
+ * @example
+ * toJSONSafeValue({ id: 10n, retry: () => {} }) // { id: '10', retry: '[Function retry]' }
+ *
+ * @param value Значение (обычно контекст ошибки).
+ * @returns JSON-совместимая копия значения.
+ * @deterministic Да.
+ */
+export function toJSONSafeValue (value: unknown): unknown {
+  const ancestors = new Set<object>()
+
+  function visit (current: unknown): unknown {
+    if (typeof current === 'bigint' || typeof current === 'symbol') {
+      return String(current)
+    }
+    if (typeof current === 'function') {
+      return `[Function ${current.name === '' ? 'anonymous' : current.name}]`
+    }
+    if (typeof current !== 'object' || current === null) {
+      return current
+    }
+    if (current instanceof Date || current instanceof URL) {
+      return current
+    }
+    if (ancestors.has(current)) {
+      return '[Circular]'
+    }
+    ancestors.add(current)
+    const toJSON: unknown = (current as { toJSON?: unknown }).toJSON
+    const copy = typeof toJSON === 'function'
+      ? visit(toJSON.call(current))
+      : Array.isArray(current)
+        ? current.map(visit)
+        : Object.fromEntries(Object.entries(current).map(([key, fieldValue]) => [key, visit(fieldValue)]))
+    ancestors.delete(current)
+    return copy
+  }
+
+  return visit(value)
+}
+
 // END OF: src/utils.ts
@@ -0,0 +1,184 @@
+/**
+ * @file test/catalog.test.ts
+ * @description Юнит-тесты для экспорта каталога спецификаций ошибок и командной строки.
+ * @version 1.1.0
+ * @date 2026-10-19
+ * @updated Тесты ключей и типов контекста из defaultContext, publicContextKeys и contextSchema.
+ *
+ * HISTORY:
+ * v1.1.0 (2026-10-19): Тесты contextKeys из всех источников и типов контекста в JSON Schema.
+ * v1.0.0 (2026-10-19): Тесты createErrorCatalog, findErrorSpecs, JSON Schema, Markdown и runCatalogCli.
+ */
+
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { runCatalogCli } from '../src/catalog-cli.js'
+import {
+  createErrorCatalog,
+  createErrorSpecRegistry,
+  type ErrorSpec,
+  FabError,
+  findErrorSpecs,
+  INVALID_ARGUMENT_SPEC,
+  toErrorCatalogJSONSchema,
+  toErrorCatalogMarkdown
+} from '../src/index.js'
+
+const PAYMENT_DECLINED_SPEC: ErrorSpec<{ orderId: number, amount: { value: number }, cardToken?: string }> = {
+  code: 'PAYMENT_DECLINED',
+  messageTemplate: 'Payment for order {orderId} ({amount.value:number}) declined, order {orderId}.',
+  defaultContext: { cardToken: 'tok_123' },
+  redact: { keys: ['cardToken'] },
+  httpStatus: 402,
+  visibility: 'public',
+  category: 'conflict',
+  retryable: false,
+  tags: ['billing'],
+  docs: 'https://docs.example.com/errors/payment-declined'
+}
+
+const CACHE_MISS_SPEC: ErrorSpec<object> = {
+  code: 'CACHE_MISS',
+  messageTemplate: 'Cache miss.'
+}
+
+function captureIO (): { cwd: string, out: string[], err: string[], stdout: (text: string) => void, stderr: (text: string) => void } {
+  const out: string[] = []
+  const err: string[] = []
+  return { cwd: process.cwd(), out, err, stdout: text => out.push(text), stderr: text => err.push(text) }
+}
+
+describe('catalog', () => {
+  describe('createErrorCatalog()', () => {
+    it('должен строить отсортированные записи с плейсхолдерами и свойствами спецификации', () => {
+      const catalog = createErrorCatalog([PAYMENT_DECLINED_SPEC, CACHE_MISS_SPEC, PAYMENT_DECLINED_SPEC])
+
+      expect(catalog.version).toBe(1)
+      expect(catalog.errors.map(entry => entry.code)).toEqual(['CACHE_MISS', 'PAYMENT_DECLINED'])
+      expect(catalog.errors[0]).toEqual({ code: 'CACHE_MISS', messageTemplate: 'Cache miss.', placeholders: [], contextKeys: [] })
+      expect(catalog.errors[1]).toEqual({
+        code: 'PAYMENT_DECLINED',
+        messageTemplate: PAYMENT_DECLINED_SPEC.messageTemplate,
+        placeholders: ['orderId', 'amount.value'],
+        contextKeys: ['orderId', 'amount', 'cardToken'],
+        defaultContext: { cardToken: '[REDACTED]' },
+        docs: 'https://docs.example.com/errors/payment-declined',
+        httpStatus: 402,
+        visibility: 'public',
+        category: 'conflict',
+        retryable: false,
+        tags: ['billing']
+      })
+    })
+
+    it('должен собирать ключи контекста из шаблона, defaultContext, publicContextKeys и contextSchema', () => {
+      const [entry] = createErrorCatalog([INVALID_ARGUMENT_SPEC]).errors
+
+      expect(entry.contextKeys).toEqual(['argumentName', 'reason', 'expected', 'argumentValue'])
+      expect(entry.publicContextKeys).toEqual(['argumentName', 'reason', 'expected'])
+      expect(entry.contextSchema).toEqual(INVALID_ARGUMENT_SPEC.contextSchema)
+      expect(createErrorCatalog([{ ...CACHE_MISS_SPEC, contextSchema: () => [] }]).errors[0]).not.toHaveProperty('contextSchema')
+    })
+
+    it('должен принимать реестр и отклонять разные спецификации с одним кодом', () => {
+      const registry = createErrorSpecRegistry()
+      registry.register(CACHE_MISS_SPEC)
+
+      expect(createErrorCatalog(registry).errors.map(entry => entry.code)).toEqual(['CACHE_MISS'])
+      expect(() => createErrorCatalog([CACHE_MISS_SPEC, { ...CACHE_MISS_SPEC }]))
+        .toThrow(expect.objectContaining({ code: 'FAB_SPEC_DUPLICATE_CODE' }))
+    })
+  })
+
+  it('findErrorSpecs() должен выбирать спецификации из экспортов модуля', () => {
+    const moduleExports = { PAYMENT_DECLINED_SPEC, helper: () => 1, VERSION: '1.0', partial: { code: 'X' } }
+
+    expect(findErrorSpecs(moduleExports)).toEqual([PAYMENT_DECLINED_SPEC])
+  })
+
+  it('toErrorCatalogJSONSchema() должен описывать FabErrorJSON каждого кода', () => {
+    const schema = toErrorCatalogJSONSchema(createErrorCatalog([PAYMENT_DECLINED_SPEC, CACHE_MISS_SPEC]))
+    const definitions = schema.$defs as Record<string, { required: string[], properties: Record<string, unknown> }>
+    const json = new FabError(PAYMENT_DECLINED_SPEC, { orderId: 1, amount: { value: 10 } }).toJSON()
+
+    expect(schema.oneOf).toEqual([{ $ref: '#/$defs/CACHE_MISS' }, { $ref: '#/$defs/PAYMENT_DECLINED' }])
+    const payment = definitions.PAYMENT_DECLINED
+    expect(payment.properties.code).toEqual({ const: json.code })
+    expect(payment.properties.retryable).toEqual({ const: json.retryable })
+    expect(payment.properties.context).toEqual({ type: 'object', properties: { orderId: {}, amount: {}, cardToken: {} } })
+    expect(payment.required.every(key => key in json)).toBe(true)
+    expect(definitions.CACHE_MISS.properties.docs).toEqual({ type: 'string' })
+  })
+
+  it('toErrorCatalogJSONSchema() должен описывать типы и обязательные поля контекста из contextSchema', () => {
+    const spec: ErrorSpec<{ status: string, attempts: number[], limit?: bigint, meta?: { region: string } }> = {
+      code: 'SYNC_FAILED',
+      messageTemplate: 'Sync failed with status {status}.',
+      contextSchema: {
+        status: { type: 'string', enum: ['timeout', 'refused'] },
+        attempts: { type: 'array', items: 'number' },
+        limit: 'bigint?',
+        meta: { type: 'object', optional: true, properties: { region: 'string' } }
+      }
+    }
+    const schema = toErrorCatalogJSONSchema(createErrorCatalog([spec]))
+
+    expect((schema.$defs as Record<string, { properties: Record<string, unknown> }>).SYNC_FAILED.properties.context).toEqual({
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: ['timeout', 'refused'] },
+        attempts: { type: 'array', items: { type: 'number' } },
+        limit: { type: 'string' },
+        meta: { type: 'object', properties: { region: { type: 'string' } }, required: ['region'] }
+      },
+      required: ['status', 'attempts']
+    })
+  })
+
+  it('toErrorCatalogMarkdown() должен выводить оглавление и раздел на каждый код', () => {
+    const markdown = toErrorCatalogMarkdown(createErrorCatalog([PAYMENT_DECLINED_SPEC, CACHE_MISS_SPEC]), { title: 'Billing Errors' })
+
+    expect(markdown).toMatch(/^# Billing Errors\n\n- \[`CACHE_MISS`\]\(#cache_miss\)\n/)
+    expect(markdown).toContain('## PAYMENT_DECLINED\n\nMessage: `Payment for order {orderId}')
+    expect(markdown).toContain('Context: `orderId`, `amount.value`')
+    expect(markdown).toContain('| HTTP status | 402 |')
+    expect(markdown).toContain('| Default context | `{"cardToken":"[REDACTED]"}` |')
+    expect(markdown).toContain('Docs: <https://docs.example.com/errors/payment-declined>\n')
+    expect(markdown).not.toContain('## CACHE_MISS\n\nMessage: `Cache miss.`\n\n|')
+  })
+
+  describe('runCatalogCli()', () => {
+    it('должен выводить каталог спецификаций из экспортов модуля', async () => {
+      const io = captureIO()
+
+      expect(await runCatalogCli(['src/base-specs.ts'], io)).toBe(0)
+      const catalog = JSON.parse(io.out.join(''))
+      expect(catalog.errors.find((entry: { code: string }) => entry.code === INVALID_ARGUMENT_SPEC.code))
+        .toMatchObject({ httpStatus: 400, contextKeys: ['argumentName', 'reason', 'expected', 'argumentValue'] })
+    })
+
+    it('должен записывать схему в файл и сообщать об ошибках аргументов', async () => {
+      const io = captureIO()
+      const directory = await mkdtemp(join(tmpdir(), 'fab-errors-catalog-'))
+      try {
+        const out = join(directory, 'errors.schema.json')
+        expect(await runCatalogCli(['src/base-specs.ts', '-f', 'schema', '-o', out], io)).toBe(0)
+        expect(JSON.parse(await readFile(out, 'utf8')).$defs.FAB_INVALID_ARGUMENT).toBeDefined()
+      } finally {
+        await rm(directory, { recursive: true, force: true })
+      }
+
+      expect(await runCatalogCli(['--format', 'xml', 'src/base-specs.ts'], io)).toBe(1)
+      expect(await runCatalogCli([], io)).toBe(1)
+      expect(await runCatalogCli(['--unknown'], io)).toBe(1)
+      expect(await runCatalogCli(['missing-module.js'], io)).toBe(1)
+      expect(io.err.join('')).toContain('Unknown format "xml"')
+      expect(await runCatalogCli(['--help'], io)).toBe(0)
+      expect(io.out.join('')).toContain('Usage: fab-errors-catalog')
+    })
+  })
+})
+
+// END OF: test/catalog.test.ts
@@ -1,17 +1,43 @@
 /**
  * @file test/chain-utils.test.ts
  * @description Юнит-тесты для утилит работы с цепочками ошибок.
- * @version 1.0.1
- * @date 2025-05-30
- * @updated Исправлены ошибки ESLint: space-before-function-paren, no-multi-spaces, eol-last.
+ * @version 1.7.1
+ * @date 2026-10-19
+ * @updated Тест matchErrorChain для цепочки глубже DEFAULT_MAX_ERROR_TREE_DEPTH.
  *
  * HISTORY:
+ * v1.7.1 (2026-10-19): Тест matchErrorChain для цепочки глубже DEFAULT_MAX_ERROR_TREE_DEPTH.
+ * v1.7.0 (2026-10-19): Тест getErrorChain с causesOnly.
+ * v1.6.1 (2026-10-19): Тест FAB_INVALID_ARGUMENT из checkErrorChain для expectedChain, не являющегося массивом.
+ * v1.6.0 (2026-10-19): Тесты отчета matchErrorChain, режимов prefix/partial и ошибки FAB_ERROR_CHAIN_MISMATCH.
+ * v1.5.0 (2026-10-19): Тесты findAllErrorsInChain, findErrorDepthInChain, getErrorChain и getRootCause.
+ * v1.4.0 (2026-10-19): Тесты context, RegExp, exactMessage, шаблонов кодов, predicate, комбинаторов и findErrorInChain.
+ * v1.3.0 (2026-10-19): Тесты критериев severity, category, retryable и tags.
+ * v1.2.0 (2026-10-19): Тесты обхода и проверки циклических цепочек cause и errors.
+ * v1.1.0 (2026-10-19): Тесты traverseErrorTree, поиска по ветвям дерева и проверки errors в checkErrorChain.
  * v1.0.1 (2025-05-30): Исправления ESLint.
  * v1.0.0 (2025-05-29): Тесты для hasErrorInChain и checkErrorChain с учетом Error.cause.
  */
 
 import { describe, expect, it } from 'vitest'
-import { checkErrorChain, type ErrorSpec, type ExpectedChainLevel, FabError, hasErrorInChain } from '../src/index.js'
+import {
+  AggregateFabError,
+  checkErrorChain,
+  ERROR_CHAIN_MISMATCH_SPEC,
+  type ErrorSpec,
+  type ExpectedChainLevel,
+  FabError,
+  findAllErrorsInChain,
+  findErrorDepthInChain,
+  findErrorInChain,
+  getChildErrors,
+  getErrorChain,
+  getRootCause,
+  hasErrorInChain,
+  matchErrorChain,
+  matchesCriteria,
+  traverseErrorTree
+} from '../src/index.js'
 
 // --- Тестовые данные ---
 const SPEC_LEVEL_3: ErrorSpec<{ detail: string }> = { code: 'L3_ERROR', messageTemplate: 'Level 3: {detail}' }
@@ -41,6 +67,12 @@ class CustomError extends Error {
 const customErrorCause = new CustomError('Custom error happened', 'extraData')
 const errWithCustomCause = new FabError(SPEC_LEVEL_1, { reason: 'wrapping custom' }, customErrorCause)
 
+const BATCH_SPEC: ErrorSpec<{ batchId: number }> = { code: 'BATCH_FAILED', messageTemplate: 'Batch {batchId} failed' }
+const batchError = new AggregateFabError(BATCH_SPEC, { batchId: 7 }, [
+  errLvl2,
+  new AggregateError([new RangeError('Out of range'), errWithStdCause], 'Nested failures')
+], new Error('Shared cause'))
+
 describe('chain-utils', () => {
   describe('hasErrorInChain()', () => {
     it('должен находить ошибку по коду в цепочке', () => {
@@ -95,6 +127,211 @@ describe('chain-utils', () => {
     })
   })
 
+  describe('traverseErrorTree()', () => {
+    it('должен обходить cause и errors в глубину', () => {
+      const visited = [...traverseErrorTree(batchError)].map(({ error, depth }) => `${depth}:${error.message}`)
+
+      expect(visited).toEqual([
+        '0:Batch 7 failed',
+        '1:Shared cause',
+        '1:Level 2 error with info middle problem',
+        '2:Level 3: Innermost issue',
+        '1:Nested failures',
+        '2:Out of range',
+        '2:Level 1 because wrapping std error',
+        '3:A type problem'
+      ])
+    })
+
+    it('должен ограничивать глубину обхода', () => {
+      const depths = [...traverseErrorTree(batchError, { maxDepth: 1 })].map(node => node.depth)
+      expect(depths).toEqual([0, 1, 1, 1])
+      expect([...traverseErrorTree(null)]).toEqual([])
+    })
+
+    it('getChildErrors() должен пропускать значения, не являющиеся Error', () => {
+      const aggregate = new AggregateError([new Error('a'), 'b', null], 'mixed')
+      expect(getChildErrors(aggregate).map(error => error.message)).toEqual(['a'])
+    })
+  })
+
+  describe('hasErrorInChain() для дерева ошибок', () => {
+    it('должен находить ошибку в любой ветви', () => {
+      expect(hasErrorInChain(batchError, { code: 'L3_ERROR' })).toBe(true)
+      expect(hasErrorInChain(batchError, { type: TypeError, message: 'type problem' })).toBe(true)
+      expect(hasErrorInChain(batchError, { type: RangeError })).toBe(true)
+      expect(hasErrorInChain(batchError, { code: 'MISSING' })).toBe(false)
+    })
+
+    it('должен учитывать maxDepth', () => {
+      expect(hasErrorInChain(batchError, { type: TypeError }, { maxDepth: 2 })).toBe(false)
+      expect(hasErrorInChain(batchError, { type: TypeError }, { maxDepth: 3 })).toBe(true)
+    })
+  })
+
+  describe('hasErrorInChain() по метаданным спецификации', () => {
+    const TIMEOUT_SPEC: ErrorSpec<{ service: string }> = {
+      code: 'NET_TIMEOUT',
+      messageTemplate: 'Request to {service} timed out.',
+      severity: 'warn',
+      category: 'dependency',
+      retryable: true,
+      tags: ['network', 'external']
+    }
+    const timeoutChain = new FabError(SPEC_LEVEL_1, { reason: 'sync failed' },
+      new FabError(TIMEOUT_SPEC, { service: 'billing' }))
+
+    it('должен находить временную ошибку в цепочке по retryable', () => {
+      expect(hasErrorInChain(timeoutChain, { retryable: true })).toBe(true)
+      expect(hasErrorInChain(errLvl1, { retryable: true })).toBe(false)
+      expect(hasErrorInChain(errLvl1, { retryable: false })).toBe(true)
+    })
+
+    it('должен проверять severity, category и все теги', () => {
+      expect(hasErrorInChain(timeoutChain, { category: 'dependency', severity: 'warn' })).toBe(true)
+      expect(hasErrorInChain(timeoutChain, { tags: ['external', 'network'] })).toBe(true)
+      expect(hasErrorInChain(timeoutChain, { tags: ['network', 'db'] })).toBe(false)
+      expect(hasErrorInChain(timeoutChain, { category: 'validation' })).toBe(false)
+    })
+  })
+
+  describe('расширенные критерии', () => {
+    const DB_QUERY_SPEC: ErrorSpec<{ query: { table: string, ids: number[] }, host: string }> = {
+      code: 'DB_QUERY_FAILED',
+      messageTemplate: 'Query to {query.table} on {host} failed.'
+    }
+    const dbError = new FabError(DB_QUERY_SPEC, { query: { table: 'users', ids: [1, 2] }, host: 'db-eu-1' })
+    const chain = new FabError(SPEC_LEVEL_1, { reason: 'load' }, dbError)
+
+    it('должен сравнивать context частично, включая вложенные поля, массивы и RegExp', () => {
+      expect(matchesCriteria(dbError, { context: { query: { table: 'users' } } })).toBe(true)
+      expect(matchesCriteria(dbError, { context: { query: { ids: [1, 2] }, host: /^db-eu/ } })).toBe(true)
+      expect(matchesCriteria(dbError, { context: { query: { ids: [1] } } })).toBe(false)
+      expect(matchesCriteria(dbError, { context: { host: 'db-us-1' } })).toBe(false)
+      expect(matchesCriteria(new Error('plain'), { context: { host: 'db-eu-1' } })).toBe(false)
+    })
+
+    it('должен поддерживать шаблоны кодов и RegExp', () => {
+      expect(hasErrorInChain(chain, { code: 'DB_*' })).toBe(true)
+      expect(hasErrorInChain(chain, { code: '*_QUERY_*' })).toBe(true)
+      expect(hasErrorInChain(chain, { code: /^DB_(QUERY|CONNECT)_FAILED$/ })).toBe(true)
+      expect(hasErrorInChain(chain, { code: 'DB_' })).toBe(false)
+      expect(hasErrorInChain(chain, { code: 'L1.*' })).toBe(false)
+    })
+
+    it('должен поддерживать RegExp и точное совпадение сообщения', () => {
+      expect(hasErrorInChain(chain, { message: /^Query to users/ })).toBe(true)
+      expect(hasErrorInChain(chain, { message: /query to users/g })).toBe(false)
+      expect(hasErrorInChain(chain, { exactMessage: 'Query to users on db-eu-1 failed.' })).toBe(true)
+      expect(hasErrorInChain(chain, { exactMessage: 'query to users on db-eu-1 failed.' })).toBe(false)
+    })
+
+    it('должен поддерживать predicate и комбинаторы anyOf, allOf, not', () => {
+      expect(hasErrorInChain(chain, { predicate: error => error.message.length > 30 })).toBe(true)
+      expect(matchesCriteria(dbError, { anyOf: [{ code: 'NET_*' }, { code: 'DB_*' }] })).toBe(true)
+      expect(matchesCriteria(dbError, { allOf: [{ code: 'DB_*' }, { message: 'users' }] })).toBe(true)
+      expect(matchesCriteria(dbError, { allOf: [{ code: 'DB_*' }, { message: 'orders' }] })).toBe(false)
+      expect(matchesCriteria(dbError, { code: 'DB_*', not: { context: { host: /^db-eu/ } } })).toBe(false)
+      expect(hasErrorInChain(chain, { type: FabError, not: { code: 'L1_ERROR' } })).toBe(true)
+    })
+
+    it('findErrorInChain() должен возвращать найденную ошибку, типизированную по спецификации', () => {
+      const found = findErrorInChain(chain, { spec: DB_QUERY_SPEC, context: { host: /eu/ } })
+
+      expect(found).toBe(dbError)
+      expect(found?.context.query.table).toBe('users')
+      expect(findErrorInChain(errWithStdCause, { type: TypeError })).toBe(typeErrorCause)
+      expect(findErrorInChain(chain, { spec: DB_QUERY_SPEC, context: { host: 'other' } })).toBeUndefined()
+    })
+
+    it('checkErrorChain() должен учитывать все критерии', () => {
+      expect(checkErrorChain(chain, [
+        { code: 'L1_*', exactMessage: 'Level 1 because load' },
+        { spec: DB_QUERY_SPEC, message: /users/, context: { query: { table: 'users' } } }
+      ])).toBe(true)
+
+      expect(() => checkErrorChain(chain, [{}, { context: { host: 'db-us-1' } }]))
+        .toThrow(/level 1: Error does not match criteria \(context\)/)
+      expect(() => checkErrorChain(chain, [{ message: /^Level 2/ }]))
+        .toThrow(/Message does not match \/\^Level 2\//)
+      expect(() => checkErrorChain(chain, [{ exactMessage: 'Level 1' }]))
+        .toThrow(/Expected message "Level 1", got "Level 1 because load"/)
+    })
+  })
+
+  describe('утилиты инспекции цепочек', () => {
+    it('findAllErrorsInChain() должен возвращать все совпадения в порядке обхода', () => {
+      const fabErrors = findAllErrorsInChain(batchError, { type: FabError })
+      expect(fabErrors.map(error => (error as FabError).code)).toEqual(['BATCH_FAILED', 'L2_ERROR', 'L3_ERROR', 'L1_ERROR'])
+
+      const level3 = findAllErrorsInChain(batchError, { spec: SPEC_LEVEL_3 })
+      expect(level3.map(error => error.context.detail)).toEqual(['Innermost issue'])
+      expect(findAllErrorsInChain(batchError, { code: 'MISSING' })).toEqual([])
+    })
+
+    it('findErrorDepthInChain() должен возвращать глубину первого совпадения или -1', () => {
+      expect(findErrorDepthInChain(errLvl1, { code: 'L1_ERROR' })).toBe(0)
+      expect(findErrorDepthInChain(errLvl1, { code: 'L3_ERROR' })).toBe(2)
+      expect(findErrorDepthInChain(batchError, { type: TypeError })).toBe(3)
+      expect(findErrorDepthInChain(errLvl1, { type: TypeError })).toBe(-1)
+    })
+
+    it('getErrorChain() должен возвращать плоский массив ошибок, включая стандартные', () => {
+      expect(getErrorChain(errWithStdCause)).toEqual([errWithStdCause, typeErrorCause])
+      expect(getErrorChain(batchError)).toHaveLength(8)
+      expect(getErrorChain(errLvl1, { maxDepth: 1 })).toEqual([errLvl1, errLvl2])
+      expect(getErrorChain(undefined)).toEqual([])
+      expect(getErrorChain(batchError, { causesOnly: true })).toEqual([batchError, batchError.cause])
+    })
+
+    it('getRootCause() должен возвращать последнюю ошибку в цепочке cause', () => {
+      expect(getRootCause(errLvl1)).toBe(errLvl3)
+      expect(getRootCause(errWithStdCause)).toBe(typeErrorCause)
+      expect(getRootCause(errLvl3)).toBe(errLvl3)
+      expect(getRootCause(batchError)?.message).toBe('Shared cause')
+      expect(getRootCause(null)).toBeUndefined()
+
+      const first = new Error('first')
+      const second = new Error('second', { cause: first })
+      first.cause = second
+      expect(getRootCause(first)).toBe(second)
+    })
+  })
+
+  describe('циклические цепочки', () => {
+    function createCycle (): { first: Error, second: Error } {
+      const first = new Error('First in cycle')
+      const second = new Error('Second in cycle', { cause: first })
+      first.cause = second
+      return { first, second }
+    }
+
+    it('traverseErrorTree() должен посещать каждую ошибку один раз', () => {
+      const selfReferencing = new Error('Self')
+      selfReferencing.cause = selfReferencing
+      expect([...traverseErrorTree(selfReferencing)]).toHaveLength(1)
+
+      const { first } = createCycle()
+      const aggregate = new AggregateError([first, first], 'Aggregate with cycle')
+      first.cause = aggregate
+      expect([...traverseErrorTree(aggregate)].map(node => node.error.message))
+        .toEqual(['Aggregate with cycle', 'First in cycle'])
+    })
+
+    it('hasErrorInChain() должен завершаться для циклической цепочки', () => {
+      const { first } = createCycle()
+      expect(hasErrorInChain(first, { message: 'second' })).toBe(true)
+      expect(hasErrorInChain(first, { code: 'MISSING' })).toBe(false)
+    })
+
+    it('checkErrorChain() должен считать возврат к пройденному уровню концом цепочки', () => {
+      const { first } = createCycle()
+      expect(checkErrorChain(first, [{ message: 'first' }, { message: 'second' }])).toBe(true)
+      expect(() => checkErrorChain(first, [{ message: 'first' }, { message: 'second' }, { message: 'first' }]))
+        .toThrow(/error chain ended/)
+    })
+  })
+
   describe('checkErrorChain()', () => {
     const validChain: ExpectedChainLevel[] = [
       { code: 'L1_ERROR', type: FabError, message: 'initial failure' },
@@ -149,9 +386,9 @@ describe('chain-utils', () => {
 
     it('должен выбросить ошибку, если expectedChain не массив', () => {
       // @ts-ignore
-      expect(() => checkErrorChain(errLvl1, null)).toThrow('checkErrorChain: expectedChain must be an array.')
+      expect(() => checkErrorChain(errLvl1, null)).toThrow(expect.objectContaining({ code: 'FAB_INVALID_ARGUMENT' }))
       // @ts-ignore
-      expect(() => checkErrorChain(errLvl1, {})).toThrow('checkErrorChain: expectedChain must be an array.')
+      expect(() => checkErrorChain(errLvl1, {})).toThrow(/Invalid argument: expectedChain/)
     })
 
     it('должен корректно работать с частичными проверками на уровнях', () => {
@@ -163,9 +400,111 @@ describe('chain-utils', () => {
       expect(checkErrorChain(errLvl1, partialChain)).toBe(true)
     })
 
+    it('должен проверять дочерние ошибки уровня через errors', () => {
+      const expected: ExpectedChainLevel[] = [{
+        code: 'BATCH_FAILED',
+        errors: [
+          [{ code: 'L2_ERROR' }, { code: 'L3_ERROR' }],
+          [{ type: AggregateError, errors: [[{ type: RangeError }], [{ code: 'L1_ERROR' }, { type: TypeError }]] }]
+        ]
+      }, { message: 'Shared cause' }]
+      expect(checkErrorChain(batchError, expected)).toBe(true)
+
+      expect(() => checkErrorChain(batchError, [{ errors: [[{ code: 'L2_ERROR' }]] }]))
+        .toThrow(/Expected 1 child errors, got 2/)
+      expect(() => checkErrorChain(batchError, [{ errors: [[{ code: 'L2_ERROR' }], [{ type: TypeError }]] }]))
+        .toThrow(/errors\[0\]: Error chain validation failed/)
+    })
+
     it('должен корректно обрабатывать null или undefined в качестве ошибки', () => {
       expect(() => checkErrorChain(null, [{ code: 'ANY' }])).toThrow(/Expected level with code 'ANY' but error chain ended./)
     })
+
+    it('должен выбрасывать FabError FAB_ERROR_CHAIN_MISMATCH с уровнем и проверкой в контексте', () => {
+      const thrown = (() => {
+        try {
+          checkErrorChain(errLvl1, [{ code: 'L1_ERROR' }, { code: 'WRONG_CODE' }])
+        } catch (e) {
+          return e
+        }
+      })()
+
+      expect(thrown).toBeInstanceOf(FabError)
+      expect(matchesCriteria(thrown as Error, { spec: ERROR_CHAIN_MISMATCH_SPEC, context: { levelIndex: 1, field: 'code', mode: 'exact' } }))
+        .toBe(true)
+      expect((thrown as Error).message).toMatch(/^Error chain mismatch at level 1: Expected code 'WRONG_CODE', got 'L2_ERROR'/)
+    })
+
+    it('должен поддерживать режимы prefix и partial', () => {
+      expect(checkErrorChain(errLvl1, [{ code: 'L1_ERROR' }], { mode: 'prefix' })).toBe(true)
+      expect(checkErrorChain(errLvl1, [{ code: 'L1_ERROR' }, { code: 'L3_ERROR' }], { mode: 'partial' })).toBe(true)
+      expect(() => checkErrorChain(errLvl1, [{ code: 'L1_ERROR' }, { code: 'L3_ERROR' }], { mode: 'prefix' }))
+        .toThrow(/level 1: Expected code 'L3_ERROR', got 'L2_ERROR'/)
+    })
+  })
+
+  describe('matchErrorChain()', () => {
+    it('должен возвращать отчет о полном совпадении', () => {
+      expect(matchErrorChain(errLvl1, [{ code: 'L1_ERROR' }, { code: 'L2_ERROR' }, { code: 'L3_ERROR' }])).toEqual({
+        matched: true,
+        matchedLevels: 3,
+        unmatchedLevels: [],
+        remainingErrors: []
+      })
+    })
+
+    it('должен описывать несовпавший уровень, проверку и оставшиеся уровни', () => {
+      const levels: ExpectedChainLevel[] = [{ code: 'L1_ERROR' }, { type: FabError, message: 'other problem' }, { code: 'L3_ERROR' }]
+      const result = matchErrorChain(errLvl1, levels)
+
+      expect(result.matched).toBe(false)
+      expect(result.matchedLevels).toBe(1)
+      expect(result.unmatchedLevels).toEqual(levels.slice(1))
+      expect(result.mismatch).toMatchObject({
+        levelIndex: 1,
+        chainIndex: 1,
+        field: 'message',
+        expected: 'other problem',
+        actual: errLvl2.message
+      })
+      expect(matchErrorChain(errLvl1, [{}]).mismatch).toMatchObject({ field: 'extraLevels', expected: 1, actual: 3 })
+      expect(matchErrorChain(errLvl3, [{}, {}]).mismatch).toMatchObject({ levelIndex: 1, field: 'chain', actual: undefined })
+    })
+
+    it('должен сообщать о несоответствии в цепочке дочерней ошибки', () => {
+      const { mismatch } = matchErrorChain(batchError, [{
+        errors: [[{ code: 'L2_ERROR' }], [{ errors: [[{}], [{ code: 'L2_ERROR' }]] }]]
+      }], { mode: 'prefix' })
+
+      expect(mismatch).toMatchObject({ levelIndex: 0, field: 'errors', childIndex: 1 })
+      expect(mismatch?.childMismatch).toMatchObject({ levelIndex: 0, field: 'errors', childIndex: 1 })
+      expect(mismatch?.childMismatch?.childMismatch).toMatchObject({ levelIndex: 0, field: 'code', expected: 'L2_ERROR' })
+    })
+
+    it('должен пропускать промежуточные уровни в режиме partial и возвращать оставшиеся ошибки', () => {
+      const result = matchErrorChain(errLvl1, [{ code: 'L2_ERROR' }], { mode: 'partial' })
+      expect(result).toMatchObject({ matched: true, matchedLevels: 1 })
+      expect(result.remainingErrors).toEqual([errLvl3])
+
+      const outOfOrder = matchErrorChain(errLvl1, [{ code: 'L3_ERROR' }, { code: 'L2_ERROR' }], { mode: 'partial' })
+      expect(outOfOrder.mismatch).toMatchObject({ levelIndex: 1, chainIndex: 3, field: 'chain' })
+    })
+
+    it('должен проверять цепочку глубже DEFAULT_MAX_ERROR_TREE_DEPTH целиком', () => {
+      let deepError = new Error('root')
+      for (let index = 0; index < 150; index++) {
+        deepError = new Error(`level ${index}`, { cause: deepError })
+      }
+      const levels: ExpectedChainLevel[] = Array.from({ length: 101 }, () => ({}))
+
+      expect(matchErrorChain(deepError, levels).mismatch).toMatchObject({ field: 'extraLevels', expected: 101, actual: 151 })
+      expect(matchErrorChain(deepError, [{ exactMessage: 'root' }], { mode: 'partial' }).matched).toBe(true)
+    })
+
+    it('должен выбрасывать FAB_INVALID_ARGUMENT, если expectedChain не массив', () => {
+      // @ts-expect-error проверка значения во время выполнения
+      expect(() => matchErrorChain(errLvl1, {})).toThrow(/Invalid argument: expectedChain/)
+    })
   })
 })
 
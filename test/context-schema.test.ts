@@ -0,0 +1,185 @@
+/**
+ * @file test/context-schema.test.ts
+ * @description Юнит-тесты для проверки контекста ошибок по ErrorSpec.contextSchema.
+ * @version 1.1.0
+ * @date 2026-10-19
+ * @updated Тесты cause в режиме throw и восстановления ошибок без повторной проверки.
+ *
+ * HISTORY:
+ * v1.1.0 (2026-10-19): Тесты cause у FAB_CONTEXT_VALIDATION_FAILED, fromJSON/fromProblemDetails без повторной проверки и contextIssues из JSON.
+ * v1.0.0 (2026-10-19): Тесты встроенного DSL, адаптера Standard Schema и режимов throw/warn/annotate.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  type ErrorSpec,
+  FabError,
+  fromProblemDetails,
+  fromStandardSchema,
+  getRootCause,
+  INVALID_ARGUMENT_SPEC,
+  type LoggerLike,
+  OPERATION_FAILED_SPEC,
+  setFabErrorsConfig,
+  setFabErrorsDependencies,
+  type StandardSchemaV1Like,
+  toProblemDetails,
+  validateContext
+} from '../src/index.js'
+
+function createMockLogger (): LoggerLike {
+  return {
+    trace: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}
+
+interface ShipmentContext {
+  shipmentId: string
+  carrier?: string
+  weight: number
+  address: { city: string, zip?: string }
+  items: Array<{ sku: string }>
+  status: string
+}
+
+const SHIPMENT_FAILED_SPEC: ErrorSpec<ShipmentContext> = {
+  code: 'SHIPMENT_FAILED',
+  messageTemplate: 'Shipment {shipmentId} failed.',
+  contextSchema: {
+    shipmentId: 'string',
+    carrier: 'string?',
+    weight: 'number',
+    address: { type: 'object', properties: { city: 'string', zip: 'string?' } },
+    items: { type: 'array', items: { type: 'object', properties: { sku: 'string' } } },
+    status: { type: 'string', enum: ['new', 'sent'] }
+  }
+}
+
+/**
+ * Синхронная схема Standard Schema v1, требующая строковое поле `orderId`.
+ */
+const ORDER_ID_SCHEMA: StandardSchemaV1Like = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => typeof (value as { orderId?: unknown }).orderId === 'string'
+      ? { value }
+      : { issues: [{ message: 'Expected string', path: [{ key: 'orderId' }] }] }
+  }
+}
+
+describe('context-schema', () => {
+  afterEach(() => {
+    setFabErrorsConfig({ contextValidation: { onViolation: 'warn' } })
+    setFabErrorsDependencies({ logger: undefined })
+  })
+
+  describe('validateContext()', () => {
+    it('должен проверять обязательность, типы, перечисления, вложенные объекты и массивы', () => {
+      const context = { shipmentId: 42, weight: 1.5, address: { zip: 1 }, items: [{ sku: 'a' }, {}], status: 'lost' }
+
+      expect(validateContext(SHIPMENT_FAILED_SPEC, context)).toEqual([
+        { path: 'shipmentId', message: 'expected string, got number' },
+        { path: 'address.city', message: 'is required' },
+        { path: 'address.zip', message: 'expected string, got number' },
+        { path: 'items[1].sku', message: 'is required' },
+        { path: 'status', message: 'must be one of "new", "sent"' }
+      ])
+      expect(validateContext(SHIPMENT_FAILED_SPEC, {
+        shipmentId: 's1', weight: 1, address: { city: 'Paris' }, items: [], status: 'new', extra: true
+      })).toEqual([])
+      expect(validateContext({}, {})).toEqual([])
+    })
+
+    it('должен поддерживать функции проверки и адаптер Standard Schema', () => {
+      const spec = { contextSchema: fromStandardSchema(ORDER_ID_SCHEMA) }
+      const asyncSchema: StandardSchemaV1Like = {
+        '~standard': { version: 1, vendor: 'async', validate: async (value) => ({ value }) }
+      }
+
+      expect(validateContext(spec, { orderId: 'o1' })).toEqual([])
+      expect(validateContext(spec, {})).toEqual([{ path: 'orderId', message: 'Expected string' }])
+      expect(validateContext({ contextSchema: fromStandardSchema(asyncSchema) }, {}))
+        .toEqual([{ path: '', message: 'asynchronous validation (async) is not supported' }])
+      expect(validateContext({ contextSchema: () => { throw new Error('boom') } }, {}))
+        .toEqual([{ path: '', message: 'validator threw: boom' }])
+    })
+  })
+
+  describe('FabError', () => {
+    it('в режиме warn по умолчанию должен предупреждать через логгер и создавать ошибку', () => {
+      const logger = createMockLogger()
+      setFabErrorsDependencies({ logger })
+
+      const error = new FabError(INVALID_ARGUMENT_SPEC, { reason: 'empty' } as never)
+
+      expect(error.message).toBe('Invalid argument: {argumentName}. Reason: empty.')
+      expect(error.contextIssues).toBeUndefined()
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'FAB_CONTEXT_VALIDATION_FAILED' }),
+        '[fab-errors] Invalid context for error "FAB_INVALID_ARGUMENT": argumentName: is required.'
+      )
+    })
+
+    it('в режиме throw должен выбрасывать FAB_CONTEXT_VALIDATION_FAILED', () => {
+      setFabErrorsConfig({ contextValidation: { onViolation: 'throw' } })
+
+      expect(() => new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'id', reason: 5 } as never)).toThrow(
+        expect.objectContaining({
+          code: 'FAB_CONTEXT_VALIDATION_FAILED',
+          context: expect.objectContaining({
+            errorCode: 'FAB_INVALID_ARGUMENT',
+            issues: [{ path: 'reason', message: 'expected string, got number' }]
+          })
+        })
+      )
+      expect(() => new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'id', reason: 'empty' })).not.toThrow()
+    })
+
+    it('в режиме throw должен сохранять переданную причину в цепочке', () => {
+      setFabErrorsConfig({ contextValidation: { onViolation: 'throw' } })
+      const original = new Error('socket hang up')
+
+      let thrown: unknown
+      try {
+        new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'id' } as never, original) // eslint-disable-line no-new
+      } catch (error) {
+        thrown = error
+      }
+
+      expect((thrown as FabError).code).toBe('FAB_CONTEXT_VALIDATION_FAILED')
+      expect(getRootCause(thrown as FabError)).toBe(original)
+    })
+
+    it('в режиме annotate должен сохранять нарушения в contextIssues и toJSON()', () => {
+      setFabErrorsConfig({ contextValidation: { onViolation: 'annotate' } })
+      const logger = createMockLogger()
+      setFabErrorsDependencies({ logger })
+
+      const error = new FabError({ code: 'ORDER_FAILED', messageTemplate: 'Order failed.', contextSchema: fromStandardSchema(ORDER_ID_SCHEMA) }, {})
+
+      expect(error.contextIssues).toEqual([{ path: 'orderId', message: 'Expected string' }])
+      expect(error.toJSON().contextIssues).toEqual(error.contextIssues)
+      expect(new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'id', reason: 'empty' }).toJSON()).not.toHaveProperty('contextIssues')
+      expect(logger.warn).not.toHaveBeenCalled()
+    })
+
+    it('не должен повторно проверять контекст восстановленных ошибок', () => {
+      setFabErrorsConfig({ contextValidation: { onViolation: 'annotate' } })
+      const annotated = new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'id' } as never)
+      const json = JSON.parse(JSON.stringify(annotated)) as ReturnType<FabError['toJSON']>
+      const body = toProblemDetails(new FabError(OPERATION_FAILED_SPEC, { operationName: 'sync', reason: 'db down' }), { exposeInternal: true })
+      setFabErrorsConfig({ contextValidation: { onViolation: 'throw' } })
+
+      expect(FabError.fromJSON(json).contextIssues).toEqual([{ path: 'reason', message: 'is required' }])
+      expect(fromProblemDetails(body).context).toEqual({})
+      expect(FabError.fromJSON(new FabError(OPERATION_FAILED_SPEC, { operationName: 'sync' }).toJSON()).contextIssues).toBeUndefined()
+    })
+  })
+})
+
+// END OF: test/context-schema.test.ts
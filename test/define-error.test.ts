@@ -0,0 +1,147 @@
+/**
+ * @file test/define-error.test.ts
+ * @description Юнит-тесты для генератора помощников defineError.
+ * @version 1.1.0
+ * @date 2026-10-19
+ * @updated Добавлены тесты проверки шаблона в defineErrorSpec на этапе компиляции.
+ *
+ * HISTORY:
+ * v1.1.0 (2026-10-19): Тесты defineErrorSpec (включая @ts-expect-error для неизвестных плейсхолдеров).
+ * v1.0.0 (2026-10-19): Тесты create/is/assert/findInChain.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  defineError,
+  defineErrorSpec,
+  type ErrorSpec,
+  FabError,
+  hasErrorInChain,
+  type InvalidPlaceholders,
+  type OperationFailedContext,
+  type TemplatePlaceholders
+} from '../src/index.js'
+
+interface UserNotFoundContext {
+  userId: string
+  lookup?: 'id' | 'email'
+}
+
+const USER_NOT_FOUND_SPEC: ErrorSpec<UserNotFoundContext> = {
+  code: 'USER_NOT_FOUND',
+  messageTemplate: 'User {userId} not found by {lookup}.',
+  defaultContext: { lookup: 'id' }
+}
+
+const REPOSITORY_FAILED_SPEC: ErrorSpec<{ repository: string }> = {
+  code: 'REPOSITORY_FAILED',
+  messageTemplate: 'Repository {repository} failed.'
+}
+
+const UserNotFoundError = defineError(USER_NOT_FOUND_SPEC)
+const RepositoryFailedError = defineError(REPOSITORY_FAILED_SPEC)
+
+describe('defineError()', () => {
+  it('должен предоставлять спецификацию и код', () => {
+    expect(UserNotFoundError.spec).toBe(USER_NOT_FOUND_SPEC)
+    expect(UserNotFoundError.code).toBe('USER_NOT_FOUND')
+  })
+
+  it('create() должен создавать FabError по спецификации с учетом defaultContext и cause', () => {
+    const cause = new Error('db timeout')
+    const error = UserNotFoundError.create({ userId: 'u-1' }, cause)
+
+    expect(error).toBeInstanceOf(FabError)
+    expect(error.spec).toBe(USER_NOT_FOUND_SPEC)
+    expect(error.message).toBe('User u-1 not found by id.')
+    expect(error.context).toEqual({ userId: 'u-1', lookup: 'id' })
+    expect(error.cause).toBe(cause)
+  })
+
+  it('is() должен распознавать только ошибки своей спецификации', () => {
+    const userError: unknown = UserNotFoundError.create({ userId: 'u-2' })
+    const otherError: unknown = RepositoryFailedError.create({ repository: 'users' })
+
+    expect(UserNotFoundError.is(userError)).toBe(true)
+    expect(UserNotFoundError.is(otherError)).toBe(false)
+    expect(UserNotFoundError.is(new Error('plain'))).toBe(false)
+    expect(UserNotFoundError.is('USER_NOT_FOUND')).toBe(false)
+
+    if (UserNotFoundError.is(userError)) {
+      const userId: string = userError.context.userId
+      expect(userId).toBe('u-2')
+    }
+  })
+
+  it('assert() должен возвращать ошибку своей спецификации и пробрасывать остальные значения', () => {
+    const userError: unknown = UserNotFoundError.create({ userId: 'u-3' })
+    const otherError = new RangeError('out of range')
+
+    expect(UserNotFoundError.assert(userError).context.userId).toBe('u-3')
+    expect(() => UserNotFoundError.assert(otherError)).toThrow(otherError)
+  })
+
+  it('findInChain() должен находить ошибку спецификации на любом уровне цепочки', () => {
+    const inner = UserNotFoundError.create({ userId: 'u-4', lookup: 'email' })
+    const outer = RepositoryFailedError.create({ repository: 'users' }, inner)
+
+    const found = UserNotFoundError.findInChain(outer)
+    expect(found).toBe(inner)
+    expect(found?.context.lookup).toBe('email')
+    expect(hasErrorInChain(outer, { code: UserNotFoundError.code })).toBe(true)
+
+    expect(RepositoryFailedError.findInChain(outer)).toBe(outer)
+    expect(RepositoryFailedError.findInChain(inner)).toBeUndefined()
+    expect(UserNotFoundError.findInChain(undefined)).toBeUndefined()
+  })
+})
+
+describe('defineErrorSpec()', () => {
+  interface OrderContext {
+    orderId: string
+    customer?: { id: string, tags: string[] }
+    details?: Record<string, unknown>
+    total: number
+  }
+
+  it('должен возвращать спецификацию без изменений для корректного шаблона', () => {
+    const spec = defineErrorSpec<OrderContext>()({
+      code: 'ORDER_FAILED',
+      messageTemplate: 'Order {orderId} of {customer.id} ({customer.tags[0]}, {details.any.depth}) for {total:currency}. {{literal}}'
+    })
+
+    expect(spec.code).toBe('ORDER_FAILED')
+    expect(new FabError(spec, { orderId: 'o-1', total: 2, customer: { id: 'c-1', tags: ['vip'] } }).message)
+      .toBe('Order o-1 of c-1 (vip, {details.any.depth}) for $2.00. {literal}')
+  })
+
+  it('должен отклонять шаблоны с неизвестными плейсхолдерами на этапе компиляции', () => {
+    const spec = defineErrorSpec<OperationFailedContext>()({
+      code: 'MY_OPERATION_FAILED',
+      // @ts-expect-error: 'operatonName' отсутствует в OperationFailedContext
+      messageTemplate: 'Operation {operatonName} failed'
+    })
+    defineErrorSpec<OrderContext>()({
+      code: 'ORDER_FAILED',
+      // @ts-expect-error: вложенный путь customer.name отсутствует в OrderContext
+      messageTemplate: 'Order for {customer.name}'
+    })
+    defineErrorSpec<OrderContext>()({
+      code: 'ORDER_FAILED',
+      // @ts-expect-error: у примитива total нет вложенных полей
+      messageTemplate: 'Total {total.amount}'
+    })
+
+    expect(spec.code).toBe('MY_OPERATION_FAILED')
+  })
+
+  it('должен выводить плейсхолдеры и неизвестные ключи на уровне типов', () => {
+    const placeholders: Array<TemplatePlaceholders<'a {b} {{c}} {d:json:x} {e[0].f} { g h }'>> = ['b', 'd', 'e.0.f']
+    const invalid: InvalidPlaceholders<'{orderId} {ordrId}', OrderContext> = 'ordrId'
+
+    expect(placeholders).toHaveLength(3)
+    expect(invalid).toBe('ordrId')
+  })
+})
+
+// END OF: test/define-error.test.ts
@@ -1,18 +1,35 @@
 /**
  * @file test/fab-error.test.ts
  * @description Юнит-тесты для класса FabError.
- * @version 1.0.2
- * @date 2025-05-30
- * @updated Локально отключено правило @typescript-eslint/no-explicit-any для тестовых сценариев с cause. Добавлена пустая строка в конце файла.
+ * @version 1.5.2
+ * @date 2026-10-19
+ * @updated Тест сериализации выброшенного экземпляра класса с bigint и циклом.
  *
  * HISTORY:
+ * v1.5.2 (2026-10-19): Тест JSON.stringify для toFabError() с экземпляром класса (bigint, цикл, Date, toJSON).
+ * v1.5.1 (2026-10-19): Тест JSON.stringify для FabError.wrap() с bigint, symbol и функцией.
+ * v1.5.0 (2026-10-19): Тесты метаданных спецификации в свойствах, toJSON() и fromJSON().
+ * v1.4.0 (2026-10-19): Тесты маркеров circular/truncated в toJSON().
+ * v1.3.0 (2026-10-19): Тесты AggregateFabError: нормализация, toJSON() и fromJSON().
+ * v1.2.0 (2026-10-19): Тесты нормализации значений, не являющихся Error, FabError.wrap() и toFabError().
+ * v1.1.0 (2026-10-19): Тесты восстановления FabError из FabErrorJSON.
  * v1.0.2 (2025-05-30): Локальное отключение no-explicit-any для тестов cause, eol-last.
  * v1.0.1 (2025-05-30): Добавлены проверки на undefined для json.cause.
  * v1.0.0 (2025-05-29): Начальные тесты для FabError, включая context, cause, toJSON.
  */
 
+import { runInNewContext } from 'node:vm'
 import { describe, expect, it } from 'vitest'
-import { FabError, type FabErrorJSON, type ErrorSpec } from '../src/index.js' // Импортируем FabErrorJSON
+import {
+  AggregateFabError,
+  createErrorSpecRegistry,
+  FabError,
+  type FabErrorJSON,
+  type ErrorSpec,
+  hasErrorInChain,
+  type NonErrorThrownContext,
+  toFabError
+} from '../src/index.js'
 import { formatMessage } from '../src/utils.js'
 
 interface TestContext1 {
@@ -187,6 +204,311 @@ describe('FabError', () => {
       expect(jsonWithStringCause.cause).toEqual({ value: 'just a string cause' })
     })
   })
+
+  describe('fromJSON()', () => {
+    it('должен восстанавливать цепочку и прикреплять зарегистрированную спецификацию', () => {
+      const registry = createErrorSpecRegistry()
+      registry.register(TEST_SPEC_1, ANOTHER_SPEC)
+
+      const inner = new FabError(ANOTHER_SPEC, { id: 1, details: 'inner' })
+      const outer = new FabError(TEST_SPEC_1, { value: 'outer' }, inner)
+      const json = JSON.parse(JSON.stringify(outer.toJSON())) as FabErrorJSON
+
+      const restored = FabError.fromJSON<TestContext1>(json, { registry })
+
+      expect(restored).toBeInstanceOf(FabError)
+      expect(restored.spec).toBe(TEST_SPEC_1)
+      expect(restored.code).toBe(TEST_SPEC_1.code)
+      expect(restored.message).toBe(outer.message)
+      expect(restored.stack).toBe(outer.stack)
+      expect(restored.context).toEqual(outer.context)
+      expect(restored.cause).toBeInstanceOf(FabError)
+      expect((restored.cause as FabError).spec).toBe(ANOTHER_SPEC)
+      expect(hasErrorInChain(restored, { code: ANOTHER_SPEC.code, type: FabError })).toBe(true)
+    })
+
+    it('должен реконструировать спецификацию из JSON для незарегистрированного кода', () => {
+      const original = new FabError(TEST_SPEC_1, { value: 'unknown' })
+      const json = JSON.parse(JSON.stringify(original.toJSON())) as FabErrorJSON
+
+      const restored = FabError.fromJSON(json, { registry: createErrorSpecRegistry() })
+
+      expect(restored.spec).not.toBe(TEST_SPEC_1)
+      expect(restored.spec).toEqual({
+        code: TEST_SPEC_1.code,
+        messageTemplate: TEST_SPEC_1.messageTemplate,
+        docs: TEST_SPEC_1.docs
+      })
+      expect(restored.docs).toBe(TEST_SPEC_1.docs)
+      expect(restored.message).toBe(original.message)
+    })
+
+    it('должен переносить метаданные спецификации в свойства, JSON и реконструированную спецификацию', () => {
+      const TIMEOUT_SPEC: ErrorSpec<{ service: string }> = {
+        code: 'TEST_TIMEOUT',
+        messageTemplate: 'Request to {service} timed out.',
+        severity: 'warn',
+        category: 'dependency',
+        retryable: true,
+        tags: ['network']
+      }
+      const original = new FabError(TIMEOUT_SPEC, { service: 'billing' })
+      const json = JSON.parse(JSON.stringify(original)) as FabErrorJSON
+
+      expect(original).toMatchObject({ severity: 'warn', category: 'dependency', retryable: true, tags: ['network'] })
+      expect(json).toMatchObject({ severity: 'warn', category: 'dependency', retryable: true, tags: ['network'] })
+
+      const restored = FabError.fromJSON(json, { registry: createErrorSpecRegistry() })
+
+      expect(restored.spec).toMatchObject({ severity: 'warn', category: 'dependency', retryable: true, tags: ['network'] })
+      expect(restored.retryable).toBe(true)
+    })
+
+    it('должен восстанавливать стандартные ошибки в cause с учетом их типа', () => {
+      const cause = Object.assign(new TypeError('Bad type'), { errno: 42 })
+      const original = new FabError(TEST_SPEC_1, { value: 'typed' }, cause)
+      const json = JSON.parse(JSON.stringify(original.toJSON())) as FabErrorJSON
+
+      const restored = FabError.fromJSON(json)
+
+      expect(restored.cause).toBeInstanceOf(TypeError)
+      const restoredCause = restored.cause as TypeError
+      expect(restoredCause.message).toBe('Bad type')
+      expect(restoredCause.stack).toBe(cause.stack)
+      expect(hasErrorInChain(restored, { type: TypeError, message: 'bad type' })).toBe(true)
+    })
+
+    it('должен сохранять cause, не являющийся сериализованной ошибкой, как есть', () => {
+      const json: FabErrorJSON = {
+        ...new FabError(ANOTHER_SPEC, { id: 2, details: 'plain' }).toJSON(),
+        cause: { reasonCode: 17 }
+      }
+
+      const restored = FabError.fromJSON(json)
+
+      expect(restored.cause).toEqual({ reasonCode: 17 })
+    })
+
+    it('должен выбрасывать FabError для некорректного входного объекта', () => {
+      expect(() => FabError.fromJSON({ message: 'no code' } as unknown as FabErrorJSON))
+        .toThrow(/Invalid argument: json/)
+    })
+  })
+
+  describe('wrap() и toFabError()', () => {
+    it('конструктор должен оборачивать cause, не являющийся Error, в FAB_NON_ERROR_THROWN', () => {
+      const error = new FabError(ANOTHER_SPEC, { id: 1, details: 'string cause' }, 'connection reset')
+
+      expect(error.cause).toBeInstanceOf(FabError)
+      const cause = error.cause as FabError<NonErrorThrownContext>
+      expect(cause.code).toBe('FAB_NON_ERROR_THROWN')
+      expect(cause.context.valueType).toBe('string')
+      expect(cause.context.value).toBe('connection reset')
+      expect(cause.message).toBe('Non-Error value thrown (string): connection reset')
+      expect(hasErrorInChain(error, { code: 'FAB_NON_ERROR_THROWN' })).toBe(true)
+    })
+
+    it('должен сохранять простой объект и сериализовать его в контексте', () => {
+      const thrown = { status: 503, reason: 'unavailable' }
+      const error = FabError.wrap(thrown, ANOTHER_SPEC, { id: 2, details: 'object cause' })
+
+      const cause = error.cause as FabError<NonErrorThrownContext>
+      expect(cause.context.value).toBe(thrown)
+      expect(cause.context.valueType).toBe('object')
+      expect(cause.context.preview).toBe('{"status":503,"reason":"unavailable"}')
+
+      const json = JSON.parse(JSON.stringify(error)) as FabErrorJSON
+      expect((json.cause as FabErrorJSON).context).toMatchObject({ value: thrown })
+    })
+
+    it('должен сериализовать в JSON выброшенные bigint, symbol и функции', () => {
+      const error = FabError.wrap(10n)
+
+      expect((error.cause as FabError<NonErrorThrownContext>).context.value).toBe(10n)
+      const json = JSON.parse(JSON.stringify(error)) as FabErrorJSON
+      expect((json.cause as FabErrorJSON).context).toEqual({ valueType: 'bigint', preview: '10', value: '10' })
+
+      const symbolJson = FabError.wrap(Symbol('stop')).toJSON()
+      expect((symbolJson.cause as FabErrorJSON).context).toMatchObject({ value: 'Symbol(stop)' })
+      const nested = FabError.wrap({ id: 1n, retry: function retry () {} }).toJSON()
+      expect((nested.cause as FabErrorJSON).context).toMatchObject({ value: { id: '1', retry: '[Function retry]' } })
+    })
+
+    it('должен сериализовать в JSON выброшенные экземпляры классов', async () => {
+      class Rejection {
+        id = 10n
+        self = this
+        at = new Date('2026-10-19T00:00:00.000Z')
+        amount = { toJSON: () => ({ cents: 5n }) }
+      }
+      const rejected = await Promise.reject(new Rejection()).catch(toFabError)
+
+      const json = JSON.parse(JSON.stringify(rejected)) as FabErrorJSON
+      expect((json.cause as FabErrorJSON).context).toMatchObject({
+        valueType: 'object',
+        value: { id: '10', self: '[Circular]', at: '2026-10-19T00:00:00.000Z', amount: { cents: '5' } }
+      })
+    })
+
+    it('должен описывать null, массивы и обрезать длинное представление', () => {
+      const nullCause = FabError.wrap(null).cause as FabError<NonErrorThrownContext>
+      expect(nullCause.context).toMatchObject({ valueType: 'null', preview: 'null', value: null })
+
+      const arrayCause = FabError.wrap([1, 2]).cause as FabError<NonErrorThrownContext>
+      expect(arrayCause.context.valueType).toBe('array')
+
+      const longCause = FabError.wrap('x'.repeat(500)).cause as FabError<NonErrorThrownContext>
+      expect(longCause.context.preview).toHaveLength(201)
+      expect(longCause.context.value).toHaveLength(500)
+    })
+
+    it('должен использовать UNEXPECTED_ERROR_SPEC, если спецификация не указана', () => {
+      const cause = new Error('boom')
+      const error = FabError.wrap(cause)
+
+      expect(error.code).toBe('FAB_UNEXPECTED_ERROR')
+      expect(error.context.situation).toBe('an unknown operation')
+      expect(error.cause).toBe(cause)
+    })
+
+    it('должен оставлять AggregateError и DOMException в цепочке как есть', () => {
+      const aggregate = new AggregateError([new Error('a'), 'b'], 'several failures')
+      const abort = new DOMException('The operation was aborted.', 'AbortError')
+
+      expect(FabError.wrap(aggregate).cause).toBe(aggregate)
+      expect(FabError.wrap(abort).cause).toBe(abort)
+      expect(hasErrorInChain(FabError.wrap(abort), { message: 'aborted' })).toBe(true)
+    })
+
+    it('должен восстанавливать ошибки из другого realm как стандартные ошибки', () => {
+      const foreign = runInNewContext('new RangeError("foreign range")') as unknown
+      expect(foreign instanceof Error).toBe(false)
+
+      const error = FabError.wrap(foreign)
+
+      expect(error.cause).toBeInstanceOf(RangeError)
+      expect((error.cause as RangeError).message).toBe('foreign range')
+    })
+
+    it('toFabError() должен возвращать FabError без изменений и оборачивать остальное', async () => {
+      const fabError = new FabError(ANOTHER_SPEC, { id: 3, details: 'as is' })
+      expect(toFabError(fabError)).toBe(fabError)
+
+      const reason: unknown = 42
+      const rejected = await Promise.reject(reason).catch(toFabError)
+      expect(rejected.code).toBe('FAB_UNEXPECTED_ERROR')
+      expect(hasErrorInChain(rejected, { code: 'FAB_NON_ERROR_THROWN', message: '(number): 42' })).toBe(true)
+    })
+  })
+
+  describe('toJSON() для циклических и глубоких цепочек', () => {
+    it('должен заменять циклическую причину маркером circular', () => {
+      const inner = new FabError(ANOTHER_SPEC, { id: 1, details: 'inner' })
+      const outer = new FabError(ANOTHER_SPEC, { id: 2, details: 'outer' }, inner)
+      inner.cause = outer
+
+      const json = JSON.parse(JSON.stringify(outer)) as FabErrorJSON
+
+      const innerJSON = json.cause as FabErrorJSON
+      expect(innerJSON.code).toBe('ANOTHER_ERR')
+      expect(innerJSON.cause).toEqual({
+        name: 'FabError',
+        message: 'Another error for ID 2: outer.',
+        code: 'ANOTHER_ERR',
+        circular: true
+      })
+    })
+
+    it('должен помечать ошибку, ссылающуюся на саму себя', () => {
+      const error = new FabError(ANOTHER_SPEC, { id: 3, details: 'self' })
+      error.cause = error
+
+      expect(error.toJSON().cause).toMatchObject({ code: 'ANOTHER_ERR', circular: true })
+    })
+
+    it('не должен считать циклом одну и ту же ошибку в разных ветвях', () => {
+      const shared = new TypeError('shared')
+      const error = new AggregateFabError(ANOTHER_SPEC, { id: 4, details: 'shared' }, [shared, shared])
+
+      expect(error.toJSON().errors).toEqual([
+        expect.objectContaining({ name: 'TypeError', message: 'shared' }),
+        expect.objectContaining({ name: 'TypeError', message: 'shared' })
+      ])
+    })
+
+    it('должен обрезать причины глубже maxDepth маркером truncated', () => {
+      let error: Error = new RangeError('deepest')
+      for (let level = 0; level < 5; level++) {
+        error = new FabError(ANOTHER_SPEC, { id: level, details: 'level' }, error)
+      }
+
+      const json = (error as FabError).toJSON({ maxDepth: 2 })
+
+      const level2 = (json.cause as FabErrorJSON).cause as FabErrorJSON
+      expect(level2.code).toBe('ANOTHER_ERR')
+      expect(level2.cause).toEqual({
+        name: 'FabError',
+        message: 'Another error for ID 1: level.',
+        code: 'ANOTHER_ERR',
+        truncated: true
+      })
+      expect(JSON.stringify(error)).toContain('deepest')
+    })
+  })
+
+  describe('AggregateFabError', () => {
+    const BATCH_SPEC: ErrorSpec<{ batchId: number }> = {
+      code: 'TEST_BATCH_FAILED',
+      messageTemplate: 'Batch {batchId} failed.'
+    }
+
+    it('должен хранить нормализованные дочерние ошибки', () => {
+      const child = new FabError(ANOTHER_SPEC, { id: 1, details: 'child' })
+      const error = new AggregateFabError(BATCH_SPEC, { batchId: 7 }, [child, 'timeout'])
+
+      expect(error).toBeInstanceOf(FabError)
+      expect(error.name).toBe('AggregateFabError')
+      expect(error.message).toBe('Batch 7 failed.')
+      expect(error.errors[0]).toBe(child)
+      expect((error.errors[1] as FabError).code).toBe('FAB_NON_ERROR_THROWN')
+      expect(Object.isFrozen(error.errors)).toBe(true)
+    })
+
+    it('должен сериализовать дочерние ошибки в массив errors', () => {
+      const error = new AggregateFabError(BATCH_SPEC, { batchId: 8 }, [
+        new FabError(ANOTHER_SPEC, { id: 2, details: 'child' }),
+        new AggregateError([new TypeError('inner')], 'native aggregate')
+      ])
+
+      const json = error.toJSON()
+
+      expect(json.errors).toHaveLength(2)
+      expect((json.errors?.[0] as FabErrorJSON).code).toBe('ANOTHER_ERR')
+      expect(json.errors?.[1]).toMatchObject({
+        name: 'AggregateError',
+        message: 'native aggregate',
+        errors: [{ name: 'TypeError', message: 'inner' }]
+      })
+      expect(new FabError(ANOTHER_SPEC, { id: 3, details: 'plain' }).toJSON()).not.toHaveProperty('errors')
+    })
+
+    it('fromJSON() должен восстанавливать AggregateFabError и вложенный AggregateError', () => {
+      const original = new AggregateFabError(BATCH_SPEC, { batchId: 9 }, [
+        new FabError(ANOTHER_SPEC, { id: 4, details: 'child' }),
+        new AggregateError([new TypeError('inner')], 'native aggregate')
+      ])
+      const json = JSON.parse(JSON.stringify(original)) as FabErrorJSON
+
+      const restored = FabError.fromJSON(json)
+
+      expect(restored).toBeInstanceOf(AggregateFabError)
+      const errors = (restored as AggregateFabError).errors
+      expect(errors[0]).toBeInstanceOf(FabError)
+      expect(errors[1]).toBeInstanceOf(AggregateError)
+      expect((errors[1] as AggregateError).errors[0]).toBeInstanceOf(TypeError)
+      expect(hasErrorInChain(restored, { type: TypeError, message: 'inner' })).toBe(true)
+    })
+  })
 })
 
 // END OF: test/fab-error.test.ts
@@ -0,0 +1,98 @@
+/**
+ * @file test/fingerprint.test.ts
+ * @description Юнит-тесты для отпечатка ошибки.
+ * @version 1.0.1
+ * @date 2026-10-19
+ * @updated Тест опций, переданных как undefined.
+ *
+ * HISTORY:
+ * v1.0.1 (2026-10-19): Тест опций и правил спецификации с полями undefined.
+ * v1.0.0 (2026-10-19): Тесты стабильности отпечатка, учета причин и кадров стека, правил спецификаций и FabErrorJSON.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { type ErrorSpec, FabError, fingerprint, OPERATION_FAILED_SPEC } from '../src/index.js'
+
+const ORDER_NOT_FOUND_SPEC: ErrorSpec<{ orderId: number }> = {
+  code: 'ORDER_NOT_FOUND',
+  messageTemplate: 'Order {orderId} not found.'
+}
+
+const PAYMENT_FAILED_SPEC: ErrorSpec<{ provider: string, token: string }> = {
+  code: 'PAYMENT_FAILED',
+  messageTemplate: 'Payment via {provider} failed.',
+  fingerprint: { contextPaths: ['provider', 'token'], stackFrames: 0 }
+}
+
+/**
+ * Задает ошибке детерминированный стек из указанных кадров.
+ */
+function withStack<T extends Error> (error: T, frames: string[]): T {
+  error.stack = [`${error.name}: ${error.message}`, ...frames.map(frame => `    at ${frame}`)].join('\n')
+  return error
+}
+
+function orderNotFound (orderId: number, frames: string[] = ['loadOrder (/app/src/orders.ts:10:5)']): FabError<{ orderId: number }> {
+  return withStack(new FabError(ORDER_NOT_FOUND_SPEC, { orderId }), frames)
+}
+
+describe('fingerprint()', () => {
+  it('должен давать одинаковый отпечаток для разных значений контекста и строк кода', () => {
+    const first = orderNotFound(1, ['loadOrder (/srv/release-1/src/orders.ts:10:5)', 'main (/srv/release-1/src/app.ts:3:1)'])
+    const second = orderNotFound(2, ['loadOrder (file:///deploy/release-2/src/orders.ts:12:9)', 'main (/deploy/release-2/src/app.ts:4:1)'])
+
+    expect(fingerprint(first)).toMatch(/^[0-9a-f]{16}$/)
+    expect(fingerprint(second)).toBe(fingerprint(first))
+  })
+
+  it('должен различать коды, причины и места создания', () => {
+    const base = fingerprint(orderNotFound(1))
+
+    expect(fingerprint(orderNotFound(1, ['loadInvoice (/app/src/invoices.ts:10:5)']))).not.toBe(base)
+    expect(fingerprint(orderNotFound(1), { stackFrames: 0 }))
+      .toBe(fingerprint(orderNotFound(1, ['loadInvoice (/app/src/invoices.ts:10:5)']), { stackFrames: 0 }))
+
+    const wrapped = (cause: Error): FabError<object> => withStack(FabError.wrap(cause, OPERATION_FAILED_SPEC, { operationName: 'sync' }), [])
+    expect(fingerprint(wrapped(orderNotFound(1)))).not.toBe(fingerprint(wrapped(new TypeError('bad'))))
+    expect(fingerprint(wrapped(orderNotFound(1)), { includeCauses: false }))
+      .toBe(fingerprint(wrapped(new TypeError('bad')), { includeCauses: false }))
+  })
+
+  it('должен пропускать кадры node_modules и среды выполнения', () => {
+    const withLibraries = orderNotFound(1, [
+      'Query.run (/app/node_modules/pg/lib/query.js:5:1)',
+      'processTicksAndRejections (node:internal/process/task_queues:95:5)',
+      'loadOrder (/app/src/orders.ts:10:5)'
+    ])
+
+    expect(fingerprint(withLibraries)).toBe(fingerprint(orderNotFound(1)))
+  })
+
+  it('должен применять правило отпечатка из спецификации', () => {
+    const payment = (provider: string, token: string): FabError<{ provider: string, token: string }> =>
+      withStack(new FabError(PAYMENT_FAILED_SPEC, { provider, token }), [`pay${provider} (/app/src/pay.ts:1:1)`])
+
+    expect(fingerprint(payment('stripe', 't-1'))).toBe(fingerprint(payment('stripe', 't-2')))
+    expect(fingerprint(payment('stripe', 't-1'))).not.toBe(fingerprint(payment('paypal', 't-1')))
+  })
+
+  it('должен использовать значения по умолчанию для опций и правил, заданных как undefined', () => {
+    const error = orderNotFound(1)
+    const ruleSpec: ErrorSpec<{ orderId: number }> = { ...ORDER_NOT_FOUND_SPEC, fingerprint: { stackFrames: undefined, includeCauses: undefined } }
+    const withRule = withStack(new FabError(ruleSpec, { orderId: 1 }), ['loadOrder (/app/src/orders.ts:10:5)'])
+
+    expect(fingerprint(error, { stackFrames: undefined, includeCauses: undefined })).toBe(fingerprint(error))
+    expect(fingerprint(withRule, { stackFrames: 0 })).not.toBe(fingerprint(withRule))
+    expect(fingerprint(withRule)).toBe(fingerprint(error))
+  })
+
+  it('должен добавлять отпечаток в toJSON() корневой ошибки', () => {
+    const error = FabError.wrap(orderNotFound(1), OPERATION_FAILED_SPEC, { operationName: 'sync' })
+    const json = error.toJSON()
+
+    expect(json.fingerprint).toBe(fingerprint(error))
+    expect((json.cause as { fingerprint?: string }).fingerprint).toBeUndefined()
+  })
+})
+
+// END OF: test/fingerprint.test.ts
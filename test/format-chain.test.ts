@@ -0,0 +1,130 @@
+/**
+ * @file test/format-chain.test.ts
+ * @description Юнит-тесты для человекочитаемого вывода цепочек ошибок.
+ * @version 1.0.1
+ * @date 2026-10-19
+ * @updated Тесты опций со значением undefined и удаления кадров библиотеки.
+ *
+ * HISTORY:
+ * v1.0.1 (2026-10-19): Тесты опций со значением undefined и стека, начинающегося с кода приложения.
+ * v1.0.0 (2026-10-19): Тесты текстового и Markdown-вывода, контекста, цвета и сворачивания кадров стека.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { AggregateFabError, type ErrorSpec, FabError, formatErrorChain, OPERATION_FAILED_SPEC } from '../src/index.js'
+
+const DB_TIMEOUT_SPEC: ErrorSpec<{ timeoutMs: number, password?: string }> = {
+  code: 'DB_TIMEOUT',
+  messageTemplate: 'Query timed out after {timeoutMs}ms.',
+  docs: 'https://docs.example.com/errors/db-timeout'
+}
+
+const ORDER_SYNC_SPEC: ErrorSpec<{ orderId: number, note?: string }> = {
+  code: 'ORDER_SYNC_FAILED',
+  messageTemplate: 'Order {orderId} sync failed.'
+}
+
+/**
+ * Задает ошибке детерминированный стек из указанных кадров.
+ */
+function withStack<T extends Error> (error: T, frames: string[]): T {
+  error.stack = [`${error.name}: ${error.message}`, ...frames.map(frame => `    at ${frame}`)].join('\n')
+  return error
+}
+
+function createChain (): FabError<{ orderId: number, note?: string }> {
+  const dbError = withStack(new FabError(DB_TIMEOUT_SPEC, { timeoutMs: 5000, password: 'secret' }), [
+    'query (db.ts:10:5)', 'loadOrder (orders.ts:20:3)', 'main (app.ts:1:1)'
+  ])
+  return withStack(new FabError(ORDER_SYNC_SPEC, { orderId: 42 }, dbError), [
+    'syncOrder (orders.ts:30:9)', 'loadOrder (orders.ts:20:3)', 'main (app.ts:1:1)'
+  ])
+}
+
+describe('formatErrorChain()', () => {
+  it('должен выводить уровни цепочки с кодом, контекстом, документацией и стеком', () => {
+    expect(formatErrorChain(createChain(), { color: false })).toBe([
+      'FabError [ORDER_SYNC_FAILED]: Order 42 sync failed.',
+      '    orderId: 42',
+      '    at syncOrder (orders.ts:30:9)',
+      '    at loadOrder (orders.ts:20:3)',
+      '    at main (app.ts:1:1)',
+      'Caused by: FabError [DB_TIMEOUT]: Query timed out after 5000ms.',
+      '    timeoutMs: 5000',
+      '    password: "[REDACTED]"',
+      '    docs: https://docs.example.com/errors/db-timeout',
+      '    at query (db.ts:10:5)',
+      '    ... 2 more'
+    ].join('\n'))
+  })
+
+  it('должен ограничивать кадры стека и выводить выбранные поля контекста', () => {
+    const output = formatErrorChain(createChain(), {
+      color: false,
+      maxStackFrames: 1,
+      collapseDuplicateFrames: false,
+      contextKeys: ['orderId']
+    })
+
+    expect(output).toContain('    at syncOrder (orders.ts:30:9)\n    ... 2 more\n')
+    expect(output).toContain('    at query (db.ts:10:5)\n    ... 2 more')
+    expect(output).not.toContain('timeoutMs')
+    expect(formatErrorChain(createChain(), { color: false, contextKeys: false, maxStackFrames: 0 }))
+      .toBe('FabError [ORDER_SYNC_FAILED]: Order 42 sync failed.\n    ... 3 more\n' +
+        'Caused by: FabError [DB_TIMEOUT]: Query timed out after 5000ms.\n    docs: https://docs.example.com/errors/db-timeout\n    ... 3 more')
+  })
+
+  it('должен использовать значения по умолчанию для опций со значением undefined', () => {
+    const output = formatErrorChain(createChain(), {
+      color: false,
+      format: undefined,
+      contextKeys: undefined,
+      maxValueLength: undefined,
+      maxStackFrames: undefined,
+      collapseDuplicateFrames: undefined
+    })
+
+    expect(output).toBe(formatErrorChain(createChain(), { color: false }))
+    expect(output).toContain('    at main (app.ts:1:1)\nCaused by:')
+  })
+
+  it('должен начинать стек с кода приложения, а не с кадров библиотеки', () => {
+    const error = FabError.wrap(new Error('boom'), OPERATION_FAILED_SPEC, { operationName: 'load' })
+
+    const firstFrame = formatErrorChain(error, { color: false, contextKeys: false })
+      .split('\n')
+      .find(line => line.trimStart().startsWith('at '))
+    expect(firstFrame).toMatch(/format-chain\.test\.ts:\d+:\d+\)?$/)
+  })
+
+  it('должен выводить дочерние ошибки с отступом и обрезать длинные значения', () => {
+    const child = withStack(new TypeError('bad input'), [])
+    const batch = withStack(new AggregateFabError(ORDER_SYNC_SPEC, { orderId: 7, note: 'x'.repeat(100) }, [child, 'oops']), [])
+
+    const lines = formatErrorChain(batch, { color: false, maxValueLength: 10 }).split('\n')
+
+    expect(lines[2]).toBe('    note: "xxxxxxxx…')
+    expect(lines[3]).toBe('    [0] TypeError: bad input')
+    expect(lines[4]).toMatch(/^ {4}\[1\] FabError \[FAB_NON_ERROR_THROWN\]: /)
+  })
+
+  it('должен выводить Markdown', () => {
+    const output = formatErrorChain(createChain(), { format: 'markdown', maxStackFrames: 1 })
+
+    expect(output).toContain('**FabError** `ORDER_SYNC_FAILED`: Order 42 sync failed.\n\n- `orderId`: `42`\n\n```text\nat syncOrder (orders.ts:30:9)\n... 2 more\n```')
+    expect(output).toContain('**Caused by:** **FabError** `DB_TIMEOUT`')
+    expect(output).toContain('- docs: <https://docs.example.com/errors/db-timeout>')
+    expect(output).not.toContain('\u001b[')
+  })
+
+  it('должен раскрашивать текст только при включенном цвете и обрабатывать циклы', () => {
+    const first = withStack(new Error('first'), [])
+    const second = withStack(new Error('second', { cause: first }), [])
+    first.cause = second
+
+    expect(formatErrorChain(first, { color: true })).toContain('\u001b[1;31mError\u001b[0m: first')
+    expect(formatErrorChain(first, { color: false })).toBe('Error: first\nCaused by: Error: second\nCaused by: [Circular]')
+  })
+})
+
+// END OF: test/format-chain.test.ts
@@ -0,0 +1,122 @@
+/**
+ * @file test/i18n.test.ts
+ * @description Юнит-тесты для локализации сообщений ошибок.
+ * @version 1.0.0
+ * @date 2026-10-19
+ * @updated Начальные тесты createErrorLocalizer и FabError.localize.
+ *
+ * HISTORY:
+ * v1.0.0 (2026-10-19): Тесты каталогов, цепочек fallback и отсутствующих переводов.
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import {
+  createErrorLocalizer,
+  defaultErrorLocalizer,
+  type ErrorSpec,
+  FabError,
+  INVALID_ARGUMENT_SPEC,
+  NOT_IMPLEMENTED_SPEC
+} from '../src/index.js'
+
+const ORDER_SPEC: ErrorSpec<{ orderId: string, total: number }> = {
+  code: 'ORDER_FAILED',
+  messageTemplate: 'Order {orderId} failed ({total:currency}).'
+}
+
+const orderError = new FabError(ORDER_SPEC, { orderId: 'o-1', total: 10 })
+
+describe('i18n', () => {
+  describe('createErrorLocalizer()', () => {
+    it('должен формировать сообщение по шаблону из каталога локали', () => {
+      const localizer = createErrorLocalizer({
+        catalogs: { ru: { ORDER_FAILED: 'Заказ {orderId} не выполнен ({total:currency:EUR}).' } }
+      })
+
+      expect(localizer.localize(orderError, 'ru')).toBe('Заказ o-1 не выполнен (€10.00).')
+      expect(orderError.message).toBe('Order o-1 failed ($10.00).')
+    })
+
+    it('должен строить цепочку локалей с базовым языком, fallback и локалью по умолчанию', () => {
+      const localizer = createErrorLocalizer({ defaultLocale: 'en', fallbacks: { uk: ['ru'] } })
+
+      expect(localizer.getLocaleChain('ru-RU')).toEqual(['ru-RU', 'ru', 'en'])
+      expect(localizer.getLocaleChain('uk-UA')).toEqual(['uk-UA', 'uk', 'ru', 'en'])
+      expect(localizer.getLocaleChain('en')).toEqual(['en'])
+    })
+
+    it('должен искать перевод по цепочке локалей', () => {
+      const localizer = createErrorLocalizer({
+        defaultLocale: 'en',
+        fallbacks: { uk: ['ru'] },
+        catalogs: {
+          ru: { ORDER_FAILED: 'Заказ {orderId} не выполнен.' },
+          en: { ORDER_FAILED: 'Order {orderId} could not be completed.' }
+        }
+      })
+
+      expect(localizer.localize(orderError, 'ru-RU')).toBe('Заказ o-1 не выполнен.')
+      expect(localizer.localize(orderError, 'uk')).toBe('Заказ o-1 не выполнен.')
+      expect(localizer.localize(orderError, 'de')).toBe('Order o-1 could not be completed.')
+      expect(localizer.resolveTemplate('ORDER_FAILED', 'de')).toEqual({
+        template: 'Order {orderId} could not be completed.',
+        locale: 'en'
+      })
+    })
+
+    it('должен использовать spec.messageTemplate, если перевода нет нигде', () => {
+      const localizer = createErrorLocalizer({ catalogs: { ru: {} } })
+      expect(localizer.localize(orderError, 'ru')).toBe('Order o-1 failed ($10.00).')
+    })
+
+    it('должен сообщать об отсутствующем переводе через onMissingTranslation', () => {
+      const onMissingTranslation = vi.fn()
+      const localizer = createErrorLocalizer({
+        defaultLocale: 'en',
+        onMissingTranslation,
+        catalogs: { ru: { ORDER_FAILED: 'Заказ {orderId}' }, en: { ORDER_FAILED: 'Order {orderId}' } }
+      })
+
+      localizer.localize(orderError, 'ru-RU')
+      expect(onMissingTranslation).not.toHaveBeenCalled()
+
+      localizer.localize(orderError, 'de-DE')
+      expect(onMissingTranslation).toHaveBeenCalledWith({ code: 'ORDER_FAILED', locale: 'de-DE' })
+    })
+
+    it('должен дополнять каталоги через addCatalog', () => {
+      const localizer = createErrorLocalizer({ catalogs: { ru: { ORDER_FAILED: 'Заказ {orderId}' } } })
+      localizer.addCatalog('ru', { FAB_NOT_IMPLEMENTED: 'Не реализовано: {featureName}.' })
+
+      expect(localizer.localize(orderError, 'ru')).toBe('Заказ o-1')
+      expect(localizer.localize(new FabError(NOT_IMPLEMENTED_SPEC, { featureName: 'export' }), 'ru'))
+        .toBe('Не реализовано: export.')
+    })
+
+    it('должен находить коды без перевода для каждой локали', () => {
+      const localizer = createErrorLocalizer({
+        catalogs: { ru: { ORDER_FAILED: 'Заказ' }, en: { ORDER_FAILED: 'Order', FAB_INVALID_ARGUMENT: 'Invalid' } }
+      })
+
+      expect(localizer.findMissingTranslations([ORDER_SPEC, INVALID_ARGUMENT_SPEC])).toEqual([
+        { code: 'FAB_INVALID_ARGUMENT', locale: 'ru' }
+      ])
+      expect(localizer.findMissingTranslations(['ORDER_FAILED'], ['de'])).toEqual([{ code: 'ORDER_FAILED', locale: 'de' }])
+    })
+  })
+
+  describe('FabError.localize()', () => {
+    it('должен использовать переданный локализатор', () => {
+      const localizer = createErrorLocalizer({ catalogs: { ru: { ORDER_FAILED: 'Заказ {orderId}' } } })
+      expect(orderError.localize('ru', localizer)).toBe('Заказ o-1')
+    })
+
+    it('должен по умолчанию использовать defaultErrorLocalizer', () => {
+      const spec: ErrorSpec<{ orderId: string }> = { code: 'I18N_DEFAULT_LOCALIZER_CHECK', messageTemplate: 'Order {orderId}' }
+      defaultErrorLocalizer.addCatalog('ru', { I18N_DEFAULT_LOCALIZER_CHECK: 'Заказ {orderId} (по умолчанию)' })
+      expect(new FabError(spec, { orderId: 'o-1' }).localize('ru')).toBe('Заказ o-1 (по умолчанию)')
+    })
+  })
+})
+
+// END OF: test/i18n.test.ts
@@ -0,0 +1,96 @@
+/**
+ * @file test/matchers.test.ts
+ * @description Юнит-тесты для пользовательских матчеров Vitest/Jest.
+ * @version 1.0.0
+ * @date 2026-10-19
+ * @updated Начальные тесты матчеров.
+ *
+ * HISTORY:
+ * v1.0.0 (2026-10-19): Тесты toHaveErrorInChain, toMatchErrorChain, toBeFabError, функций, промисов и diff.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { type ErrorSpec, FabError, INVALID_ARGUMENT_SPEC, OPERATION_FAILED_SPEC } from '../src/index.js'
+import { type FabErrorMatchers, fabErrorMatchers } from '../src/matchers.js'
+
+declare module 'vitest' {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-empty-object-type
+  interface Assertion<T = any> extends FabErrorMatchers<T> {}
+}
+
+expect.extend(fabErrorMatchers)
+
+const TIMEOUT_SPEC: ErrorSpec<{ service: string, attempt: number }> = {
+  code: 'NET_TIMEOUT',
+  messageTemplate: 'Request to {service} timed out (attempt {attempt}).',
+  retryable: true
+}
+
+const timeout = new FabError(TIMEOUT_SPEC, { service: 'billing', attempt: 2 })
+const chain = FabError.wrap(timeout, OPERATION_FAILED_SPEC, { operationName: 'charge' })
+
+describe('matchers', () => {
+  describe('toHaveErrorInChain()', () => {
+    it('должен находить ошибку в цепочке и поддерживать .not', () => {
+      expect(chain).toHaveErrorInChain({ code: 'NET_*', retryable: true })
+      expect(chain).not.toHaveErrorInChain({ code: 'DB_*' })
+    })
+
+    it('должен выводить цепочку в сообщении об ошибке', () => {
+      expect(() => expect(chain).toHaveErrorInChain({ code: 'DB_*' }))
+        .toThrow(/expected error chain to contain an error matching criteria[\s\S]*NET_TIMEOUT/)
+    })
+  })
+
+  describe('toMatchErrorChain()', () => {
+    it('должен проверять цепочку уровень за уровнем', () => {
+      expect(chain).toMatchErrorChain([
+        { code: 'FAB_OPERATION_FAILED' },
+        { spec: TIMEOUT_SPEC, context: { service: 'billing' } }
+      ])
+    })
+
+    it('должен показывать diff только для несовпавших уровней', () => {
+      let failure: Error | undefined
+      try {
+        expect(chain).toMatchErrorChain([{ code: 'FAB_OPERATION_FAILED' }, { code: 'NET_TIMEOUT', context: { attempt: 3 } }])
+      } catch (error) {
+        failure = error as Error
+      }
+
+      expect(failure?.message).toMatch(/Error chain mismatch at level 1/)
+      expect(failure?.message).toMatch(/"attempt": 3/)
+      expect(failure?.message).toMatch(/"attempt": 2/)
+      expect(failure).toMatchObject({
+        expected: [{ code: 'FAB_OPERATION_FAILED' }, { code: 'NET_TIMEOUT', context: { attempt: 3 } }],
+        actual: [{ code: 'FAB_OPERATION_FAILED' }, { code: 'NET_TIMEOUT', context: { service: 'billing', attempt: 2 } }]
+      })
+    })
+  })
+
+  describe('toBeFabError()', () => {
+    it('должен проверять спецификацию и часть контекста', () => {
+      expect(timeout).toBeFabError(TIMEOUT_SPEC)
+      expect(timeout).toBeFabError(TIMEOUT_SPEC, { service: /^bill/ })
+      expect(timeout).not.toBeFabError(TIMEOUT_SPEC, { attempt: 1 })
+      expect(new Error('plain')).not.toBeFabError(TIMEOUT_SPEC)
+    })
+
+    it('должен вызывать функцию и проверять выброшенную ошибку', () => {
+      expect(() => { throw timeout }).toBeFabError(TIMEOUT_SPEC)
+      expect(() => expect(() => 42).toBeFabError(TIMEOUT_SPEC)).toThrow(/nothing was thrown/)
+    })
+  })
+
+  describe('асинхронные проверки', () => {
+    it('должен работать с .rejects и с промисами', async () => {
+      await expect(Promise.reject(chain)).rejects.toHaveErrorInChain({ spec: TIMEOUT_SPEC })
+      await expect(Promise.reject(chain)).toMatchErrorChain([{ code: 'FAB_OPERATION_FAILED' }, { code: 'NET_TIMEOUT' }])
+      await expect(async () => { throw new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'id', reason: 'empty' }) })
+        .toBeFabError(INVALID_ARGUMENT_SPEC, { argumentName: 'id' })
+      await expect(expect(Promise.resolve(1)).toBeFabError(TIMEOUT_SPEC)).rejects.toThrow(/nothing was thrown/)
+    })
+  })
+})
+
+// END OF: test/matchers.test.ts
@@ -0,0 +1,161 @@
+/**
+ * @file test/problem-details.test.ts
+ * @description Юнит-тесты для преобразования FabError в HTTP problem details и обратно.
+ * @version 1.1.0
+ * @date 2026-10-19
+ * @updated Тесты publicContextKeys и JSON-совместимых расширений.
+ *
+ * HISTORY:
+ * v1.1.0 (2026-10-19): Тесты publicContextKeys (контекст по умолчанию скрыт, argumentValue не передается) и значений bigint.
+ * v1.0.0 (2026-10-19): Тесты публичных и внутренних ошибок, causes, маскирования и восстановления.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  createErrorSpecRegistry,
+  type ErrorSpec,
+  FabError,
+  fromProblemDetails,
+  hasErrorInChain,
+  INVALID_ARGUMENT_SPEC,
+  OPERATION_FAILED_SPEC,
+  toProblemDetails
+} from '../src/index.js'
+
+interface OrderNotFoundContext {
+  orderId: string
+  token?: string
+  status?: string
+}
+
+const ORDER_NOT_FOUND_SPEC: ErrorSpec<OrderNotFoundContext> = {
+  code: 'SHOP_ORDER_NOT_FOUND',
+  messageTemplate: 'Order {orderId} not found.',
+  httpStatus: 404,
+  visibility: 'public',
+  publicContextKeys: ['orderId', 'token', 'status'],
+  docs: 'https://docs.example.com/errors/order-not-found'
+}
+
+describe('problem-details', () => {
+  describe('toProblemDetails()', () => {
+    it('должен формировать problem details для публичной ошибки', () => {
+      const error = new FabError(ORDER_NOT_FOUND_SPEC, { orderId: 'A-1' })
+
+      expect(toProblemDetails(error, { instance: '/orders/A-1' })).toEqual({
+        type: 'https://docs.example.com/errors/order-not-found',
+        title: 'Not Found',
+        status: 404,
+        detail: 'Order A-1 not found.',
+        instance: '/orders/A-1',
+        code: 'SHOP_ORDER_NOT_FOUND',
+        orderId: 'A-1'
+      })
+    })
+
+    it('должен маскировать поля контекста и не перезаписывать стандартные члены', () => {
+      const error = new FabError(ORDER_NOT_FOUND_SPEC, { orderId: 'A-2', token: 'secret', status: 'shipped' })
+
+      const problem = toProblemDetails(error)
+
+      expect(problem.token).toBe('[REDACTED]')
+      expect(problem.status).toBe(404)
+    })
+
+    it('должен скрывать детали внутренней ошибки', () => {
+      const error = new FabError(OPERATION_FAILED_SPEC, { operationName: 'charge', reason: 'db down' })
+
+      expect(toProblemDetails(error)).toEqual({ type: 'about:blank', title: 'Internal Server Error', status: 500 })
+      expect(toProblemDetails(error, { exposeInternal: true })).toMatchObject({
+        code: 'FAB_OPERATION_FAILED',
+        detail: 'Operation "charge" failed. Reason: db down'
+      })
+    })
+
+    it('должен передавать только поля контекста из publicContextKeys и приводить их к JSON', () => {
+      const spec: ErrorSpec<{ orderId: bigint, internalNote: string }> = {
+        code: 'SHOP_ORDER_LOCKED',
+        messageTemplate: 'Order {orderId} is locked.',
+        httpStatus: 409,
+        visibility: 'public'
+      }
+      const invalid = new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'password', argumentValue: 'hunter2', reason: 'too short' })
+
+      expect(toProblemDetails(new FabError(spec, { orderId: 7n, internalNote: 'db shard 3' }))).not.toHaveProperty('internalNote')
+      const problem = toProblemDetails(new FabError({ ...spec, publicContextKeys: ['orderId'] }, { orderId: 7n, internalNote: 'x' }))
+      expect(problem.orderId).toBe('7')
+      expect(() => JSON.stringify(problem)).not.toThrow()
+      expect(toProblemDetails(invalid)).not.toHaveProperty('argumentValue')
+      expect(toProblemDetails(invalid)).toMatchObject({ argumentName: 'password', reason: 'too short' })
+    })
+
+    it('должен перечислять публичные ошибки цепочки в causes', () => {
+      const validation = new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'orderId', reason: 'empty' })
+      const internal = new FabError(OPERATION_FAILED_SPEC, { operationName: 'lookup' }, validation)
+      const error = new FabError(ORDER_NOT_FOUND_SPEC, { orderId: '' }, internal)
+
+      const problem = toProblemDetails(error)
+
+      expect(problem.causes).toEqual([{
+        type: 'https://example.com/fab-errors-docs#invalid-argument',
+        title: 'Bad Request',
+        status: 400,
+        detail: 'Invalid argument: orderId. Reason: empty.',
+        code: 'FAB_INVALID_ARGUMENT',
+        argumentName: 'orderId',
+        reason: 'empty'
+      }])
+    })
+
+    it('должен приводить значения, не являющиеся FabError, к внутренней ошибке 500', () => {
+      expect(toProblemDetails(new Error('boom'))).toEqual({ type: 'about:blank', title: 'Internal Server Error', status: 500 })
+      expect(toProblemDetails('boom').status).toBe(500)
+    })
+  })
+
+  describe('fromProblemDetails()', () => {
+    it('должен восстанавливать ошибку с зарегистрированной спецификацией', () => {
+      const registry = createErrorSpecRegistry()
+      registry.register(ORDER_NOT_FOUND_SPEC)
+      const body = JSON.parse(JSON.stringify(toProblemDetails(new FabError(ORDER_NOT_FOUND_SPEC, { orderId: 'A-3' })))) as unknown
+
+      const error = fromProblemDetails(body, { registry })
+
+      expect(error.spec).toBe(ORDER_NOT_FOUND_SPEC)
+      expect(error.message).toBe('Order A-3 not found.')
+      expect(error.context).toEqual({ orderId: 'A-3' })
+    })
+
+    it('должен реконструировать спецификацию для незарегистрированного кода и строить цепочку из causes', () => {
+      const inner = new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'orderId', reason: 'empty' })
+      const body = toProblemDetails(new FabError(ORDER_NOT_FOUND_SPEC, { orderId: '' }, inner))
+
+      const error = fromProblemDetails(body)
+
+      expect(error.code).toBe('SHOP_ORDER_NOT_FOUND')
+      expect(error.spec).toMatchObject({
+        httpStatus: 404,
+        docs: 'https://docs.example.com/errors/order-not-found',
+        visibility: 'public'
+      })
+      expect(error.cause).toBeInstanceOf(FabError)
+      expect((error.cause as FabError).spec).toBe(INVALID_ARGUMENT_SPEC)
+      expect(hasErrorInChain(error, { code: 'FAB_INVALID_ARGUMENT', message: 'orderId' })).toBe(true)
+    })
+
+    it('должен восстанавливать тело без code как FAB_HTTP_PROBLEM', () => {
+      const error = fromProblemDetails({ type: 'about:blank', title: 'Service Unavailable', status: 503 })
+
+      expect(error.code).toBe('FAB_HTTP_PROBLEM')
+      expect(error.message).toBe('HTTP 503: Service Unavailable.')
+      expect(error.context).toMatchObject({ status: 503, title: 'Service Unavailable' })
+    })
+
+    it('должен выбрасывать FabError для некорректного тела', () => {
+      expect(() => fromProblemDetails('oops')).toThrow(/Invalid argument: body/)
+      expect(() => fromProblemDetails({ message: 'no status' })).toThrow(FabError)
+    })
+  })
+})
+
+// END OF: test/problem-details.test.ts
@@ -0,0 +1,161 @@
+/**
+ * @file test/redaction.test.ts
+ * @description Юнит-тесты для маскирования чувствительных полей контекста.
+ * @version 1.0.0
+ * @date 2026-10-19
+ * @updated Начальные тесты redactValue и маскирования в FabError.
+ *
+ * HISTORY:
+ * v1.0.0 (2026-10-19): Тесты правил маскирования, глобальной политики, toJSON(), сообщений и причин.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  createErrorLocalizer,
+  DEFAULT_REDACTED_KEYS,
+  type ErrorSpec,
+  FabError,
+  type FabErrorJSON,
+  type NonErrorThrownContext,
+  redactValue,
+  setFabErrorsConfig
+} from '../src/index.js'
+
+interface LoginContext {
+  username: string
+  password: string
+  details?: Record<string, unknown>
+}
+
+const LOGIN_FAILED_SPEC: ErrorSpec<LoginContext> = {
+  code: 'TEST_LOGIN_FAILED',
+  messageTemplate: 'Login failed for {username} with password {password}.'
+}
+
+const PAYMENT_FAILED_SPEC: ErrorSpec<{ cardNumber: string, customer: { email: string, name: string } }> = {
+  code: 'TEST_PAYMENT_FAILED',
+  messageTemplate: 'Payment by {customer.name} <{customer.email}> with card {cardNumber} failed.',
+  redact: { keys: ['cardNumber'], paths: ['customer.email'], mask: '***' }
+}
+
+describe('redaction', () => {
+  afterEach(() => {
+    setFabErrorsConfig({ redaction: { keys: DEFAULT_REDACTED_KEYS } })
+  })
+
+  describe('redactValue()', () => {
+    it('должен маскировать поля по имени на любой глубине без учета регистра', () => {
+      const value = { user: { Password: 'p1', name: 'bob' }, items: [{ token: 't1' }] }
+
+      expect(redactValue(value, [{ keys: ['password', 'TOKEN'] }])).toEqual({
+        user: { Password: '[REDACTED]', name: 'bob' },
+        items: [{ token: '[REDACTED]' }]
+      })
+      expect(value.user.Password).toBe('p1')
+    })
+
+    it('должен маскировать поля по пути и по предикату', () => {
+      const value = { items: [{ ssn: '123-45' }, { ssn: '678-90' }], note: 'call +1 555 0100' }
+
+      const redacted = redactValue(value, [{
+        paths: ['items[1].ssn'],
+        predicate: (fieldValue) => typeof fieldValue === 'string' && /\+\d/.test(fieldValue)
+      }])
+
+      expect(redacted).toEqual({ items: [{ ssn: '123-45' }, { ssn: '[REDACTED]' }], note: '[REDACTED]' })
+    })
+
+    it('должен использовать маску первого подходящего правила', () => {
+      expect(redactValue({ token: 'x' }, [undefined, { keys: ['token'], mask: '<hidden>' }, { keys: ['token'] }]))
+        .toEqual({ token: '<hidden>' })
+    })
+
+    it('должен возвращать значение без изменений, если правил нет', () => {
+      const value = { password: 'secret' }
+      expect(redactValue(value, [undefined])).toBe(value)
+    })
+
+    it('должен копировать экземпляры классов по ссылке и заменять циклы маркером', () => {
+      const date = new Date(0)
+      const cyclic: Record<string, unknown> = { date }
+      cyclic.self = cyclic
+
+      const redacted = redactValue(cyclic, [{ keys: ['password'] }]) as Record<string, unknown>
+
+      expect(redacted.date).toBe(date)
+      expect(redacted.self).toBe('[Circular]')
+    })
+  })
+
+  describe('FabError', () => {
+    it('должен маскировать поля глобальной политики по умолчанию в сообщении и toJSON()', () => {
+      const error = new FabError(LOGIN_FAILED_SPEC, {
+        username: 'bob',
+        password: 'hunter2',
+        details: { headers: { authorization: 'Bearer abc' } }
+      })
+
+      expect(error.message).toBe('Login failed for bob with password [REDACTED].')
+      expect(error.context.password).toBe('hunter2')
+      expect(error.toJSON().context).toEqual({
+        username: 'bob',
+        password: '[REDACTED]',
+        details: { headers: { authorization: '[REDACTED]' } }
+      })
+      expect(JSON.stringify(error)).not.toContain('hunter2')
+    })
+
+    it('должен применять правила спецификации вместе с глобальной политикой', () => {
+      const error = new FabError(PAYMENT_FAILED_SPEC, {
+        cardNumber: '4111111111111111',
+        customer: { email: 'bob@example.com', name: 'Bob' }
+      })
+
+      expect(error.message).toBe('Payment by Bob <***> with card *** failed.')
+      expect(error.toJSON().context).toEqual({ cardNumber: '***', customer: { email: '***', name: 'Bob' } })
+    })
+
+    it('должен учитывать изменение глобальной политики через setFabErrorsConfig', () => {
+      setFabErrorsConfig({ redaction: { keys: ['username'], mask: '<user>' } })
+      const custom = new FabError(LOGIN_FAILED_SPEC, { username: 'bob', password: 'hunter2' })
+      expect(custom.message).toBe('Login failed for <user> with password hunter2.')
+
+      setFabErrorsConfig({ redaction: undefined })
+      const unmasked = new FabError(LOGIN_FAILED_SPEC, { username: 'bob', password: 'hunter2' })
+      expect(unmasked.toJSON().context).toEqual({ username: 'bob', password: 'hunter2' })
+    })
+
+    it('должен маскировать сериализованные причины', () => {
+      const inner = new FabError(LOGIN_FAILED_SPEC, { username: 'bob', password: 'hunter2' })
+      const error = new FabError(PAYMENT_FAILED_SPEC, {
+        cardNumber: '4111',
+        customer: { email: 'bob@example.com', name: 'Bob' }
+      }, inner)
+
+      expect(((error.toJSON().cause) as FabErrorJSON).context).toMatchObject({ password: '[REDACTED]' })
+
+      error.cause = { apiKey: 'k-123', status: 401 }
+      expect(error.toJSON().cause).toEqual({ apiKey: '[REDACTED]', status: 401 })
+    })
+
+    it('должен маскировать представление выброшенного значения, не являющегося Error', () => {
+      const error = FabError.wrap({ token: 'abc', status: 500 })
+      const cause = error.cause as FabError<NonErrorThrownContext>
+
+      expect(cause.context.preview).toBe('{"token":"[REDACTED]","status":500}')
+      expect(cause.message).not.toContain('abc')
+      expect(JSON.stringify(error)).not.toContain('abc')
+    })
+
+    it('localize() должен маскировать поля так же, как message', () => {
+      const localizer = createErrorLocalizer({
+        catalogs: { ru: { TEST_LOGIN_FAILED: 'Вход {username} не выполнен (пароль {password}).' } }
+      })
+      const error = new FabError(LOGIN_FAILED_SPEC, { username: 'bob', password: 'hunter2' })
+
+      expect(error.localize('ru', localizer)).toBe('Вход bob не выполнен (пароль [REDACTED]).')
+    })
+  })
+})
+
+// END OF: test/redaction.test.ts
@@ -0,0 +1,222 @@
+/**
+ * @file test/report.test.ts
+ * @description Юнит-тесты для отправки ошибок в лог через внедренный логгер.
+ * @version 1.2.1
+ * @date 2026-10-19
+ * @updated Тест: конвертеры и форматирование не отправляют ошибки autoReport.
+ *
+ * HISTORY:
+ * v1.2.1 (2026-10-19): Тест toProblemDetails, toJsonRpcError, toGrpcStatus и formatErrorChain при включенном autoReport.
+ * v1.2.0 (2026-10-19): Тесты autoReport: отправка только внешней ошибки, восстановленные и служебные ошибки не отправляются.
+ * v1.1.0 (2026-10-19): Тест окна дедупликации dedupeWindowMs.
+ * v1.0.0 (2026-10-19): Тесты уровней, полей записи, дедупликации, сэмплирования и autoReport.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  createErrorSpecRegistry,
+  type ErrorSpec,
+  FabError,
+  fabErrorsInternalDependencies,
+  formatErrorChain,
+  fromProblemDetails,
+  INVALID_ARGUMENT_SPEC,
+  type LoggerLike,
+  OPERATION_FAILED_SPEC,
+  reportError,
+  setFabErrorsConfig,
+  setFabErrorsDependencies,
+  toGrpcStatus,
+  toJsonRpcError,
+  toProblemDetails
+} from '../src/index.js'
+
+function createMockLogger (): LoggerLike {
+  return {
+    trace: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}
+
+const CACHE_MISS_SPEC: ErrorSpec<{ key: string, token?: string }> = {
+  code: 'TEST_CACHE_MISS',
+  messageTemplate: 'Cache miss for {key}.',
+  severity: 'debug'
+}
+
+const DB_DOWN_SPEC: ErrorSpec<{ host: string }> = {
+  code: 'TEST_DB_DOWN',
+  messageTemplate: 'Database {host} is down.',
+  severity: 'fatal'
+}
+
+const defaultClock = fabErrorsInternalDependencies.clock
+
+/**
+ * Ожидает выполнения запланированной автоматической отправки (макрозадача).
+ */
+async function flushAutoReports (): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 0))
+}
+
+describe('report', () => {
+  afterEach(() => {
+    setFabErrorsDependencies({ logger: undefined, random: Math.random, clock: defaultClock })
+    setFabErrorsConfig({ reporting: { autoReport: false } })
+  })
+
+  describe('reportError()', () => {
+    it('должен писать ошибку на уровне spec.severity со структурированными полями', () => {
+      const logger = createMockLogger()
+      setFabErrorsDependencies({ logger })
+      const error = new FabError(CACHE_MISS_SPEC, { key: 'user:1', token: 't-1' })
+
+      expect(reportError(error, { fields: { requestId: 'r-1' } })).toBe(true)
+
+      expect(logger.debug).toHaveBeenCalledWith(
+        { requestId: 'r-1', err: error.toJSON(), code: 'TEST_CACHE_MISS' },
+        'Cache miss for user:1.'
+      )
+      expect(vi.mocked(logger.debug).mock.calls[0][0].err.context.token).toBe('[REDACTED]')
+    })
+
+    it('должен использовать уровень error по умолчанию и error вместо отсутствующего fatal', () => {
+      const logger = createMockLogger()
+      setFabErrorsDependencies({ logger })
+
+      reportError(new FabError(OPERATION_FAILED_SPEC, { operationName: 'sync' }))
+      reportError(new FabError(DB_DOWN_SPEC, { host: 'db-1' }))
+      reportError(new Error('boom'), { level: 'warn' })
+
+      expect(logger.error).toHaveBeenCalledTimes(2)
+      expect(logger.warn).toHaveBeenCalledWith(expect.objectContaining({ code: 'FAB_UNEXPECTED_ERROR' }), expect.any(String))
+    })
+
+    it('должен возвращать false без логгера', () => {
+      expect(reportError(new FabError(CACHE_MISS_SPEC, { key: 'a' }))).toBe(false)
+    })
+
+    it('должен отправлять ошибку один раз на цепочку', () => {
+      const logger = createMockLogger()
+      setFabErrorsDependencies({ logger })
+      const inner = new FabError(CACHE_MISS_SPEC, { key: 'a' })
+      const outer = FabError.wrap(inner, OPERATION_FAILED_SPEC, { operationName: 'load' })
+
+      expect(reportError(inner)).toBe(true)
+      expect(reportError(inner)).toBe(false)
+      expect(reportError(outer)).toBe(false)
+      expect(reportError(outer, { force: true })).toBe(true)
+
+      const native = new Error('boom')
+      expect(reportError(native)).toBe(true)
+      expect(reportError(native)).toBe(false)
+    })
+
+    it('должен сэмплировать ошибки по коду', () => {
+      const logger = createMockLogger()
+      const random = vi.fn().mockReturnValueOnce(0.5).mockReturnValueOnce(0.05)
+      setFabErrorsDependencies({ logger, random })
+      setFabErrorsConfig({ reporting: { sampleRates: { TEST_CACHE_MISS: 0.1 } } })
+
+      expect(reportError(new FabError(CACHE_MISS_SPEC, { key: 'a' }))).toBe(false)
+      expect(reportError(new FabError(CACHE_MISS_SPEC, { key: 'b' }))).toBe(true)
+      expect(reportError(new FabError(DB_DOWN_SPEC, { host: 'db-1' }))).toBe(true)
+      expect(random).toHaveBeenCalledTimes(2)
+    })
+
+    it('должен пропускать повторы с тем же отпечатком в окне дедупликации', () => {
+      const logger = createMockLogger()
+      let time = 0
+      setFabErrorsDependencies({ logger, clock: { now: () => time, sleep: async () => {} } })
+      setFabErrorsConfig({ reporting: { dedupeWindowMs: 1000 } })
+      const createError = (key: string): FabError<{ key: string }> => new FabError(CACHE_MISS_SPEC, { key })
+
+      expect(reportError(createError('a'))).toBe(true)
+      time = 500
+      expect(reportError(createError('b'))).toBe(false)
+      expect(reportError(new FabError(DB_DOWN_SPEC, { host: 'db-1' }))).toBe(true)
+      expect(reportError(createError('c'), { force: true })).toBe(true)
+      time = 1600
+      expect(reportError(createError('d'))).toBe(true)
+
+      expect(logger.debug).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('autoReport', () => {
+    it('должен отправлять только внешнюю ошибку цепочки', async () => {
+      const logger = createMockLogger()
+      setFabErrorsDependencies({ logger })
+      setFabErrorsConfig({ reporting: { autoReport: true } })
+
+      const inner = new FabError(CACHE_MISS_SPEC, { key: 'a' })
+      const outer = FabError.wrap(inner, OPERATION_FAILED_SPEC, { operationName: 'load' })
+      new FabError(DB_DOWN_SPEC, { host: 'db-1' }) // eslint-disable-line no-new
+      expect(logger.error).not.toHaveBeenCalled()
+
+      await flushAutoReports()
+
+      expect(logger.debug).not.toHaveBeenCalled()
+      expect(logger.error).toHaveBeenCalledTimes(2)
+      expect(vi.mocked(logger.error).mock.calls.map(call => call[0].code)).toEqual([outer.code, 'TEST_DB_DOWN'])
+    })
+
+    it('должен отправлять внешнюю ошибку, созданную после await', async () => {
+      const logger = createMockLogger()
+      setFabErrorsDependencies({ logger })
+      setFabErrorsConfig({ reporting: { autoReport: true } })
+      const load = async (): Promise<never> => { throw new FabError(CACHE_MISS_SPEC, { key: 'b' }) }
+
+      const outer = await load().catch(async (error: unknown) => {
+        await Promise.resolve()
+        return FabError.wrap(error, OPERATION_FAILED_SPEC, { operationName: 'load' })
+      })
+      await flushAutoReports()
+
+      expect(logger.debug).not.toHaveBeenCalled()
+      expect(logger.error).toHaveBeenCalledTimes(1)
+      expect(vi.mocked(logger.error).mock.calls[0][0].err).toEqual(outer.toJSON())
+    })
+
+    it('не должен отправлять ошибки, преобразуемые конвертерами и formatErrorChain', async () => {
+      const logger = createMockLogger()
+      setFabErrorsDependencies({ logger })
+      setFabErrorsConfig({ reporting: { autoReport: true } })
+      const original = new Error('db down')
+
+      toProblemDetails(original)
+      toJsonRpcError(original)
+      toGrpcStatus(original)
+      formatErrorChain(original)
+      formatErrorChain('oops')
+      toProblemDetails({ reason: 'thrown object' })
+      await flushAutoReports()
+
+      expect(logger.error).not.toHaveBeenCalled()
+      expect(reportError(original)).toBe(true)
+      expect(logger.error).toHaveBeenCalledTimes(1)
+    })
+
+    it('не должен отправлять восстановленные и служебные ошибки библиотеки', async () => {
+      const logger = createMockLogger()
+      setFabErrorsDependencies({ logger })
+      const body = toProblemDetails(new FabError(DB_DOWN_SPEC, { host: 'db-1' }), { exposeInternal: true })
+      const json = new FabError(DB_DOWN_SPEC, { host: 'db-2' }).toJSON()
+      setFabErrorsConfig({ reporting: { autoReport: true } })
+
+      FabError.fromJSON(json)
+      fromProblemDetails(body)
+      createErrorSpecRegistry({ onViolation: 'warn' }).register({ code: 'bad code', messageTemplate: '' })
+      new FabError(INVALID_ARGUMENT_SPEC, { reason: 'empty' } as never) // eslint-disable-line no-new
+      await flushAutoReports()
+
+      expect(vi.mocked(logger.warn).mock.calls.map(call => call[0].code)).toEqual(['FAB_SPEC_INVALID_CODE', 'FAB_CONTEXT_VALIDATION_FAILED'])
+      expect(vi.mocked(logger.error).mock.calls.map(call => call[0].code)).toEqual(['FAB_INVALID_ARGUMENT'])
+    })
+  })
+})
+
+// END OF: test/report.test.ts
@@ -0,0 +1,139 @@
+/**
+ * @file test/result.test.ts
+ * @description Юнит-тесты для Result и его комбинаторов.
+ * @version 1.0.0
+ * @date 2026-10-19
+ * @updated Начальные тесты Result.
+ *
+ * HISTORY:
+ * v1.0.0 (2026-10-19): Тесты ok/err, комбинаторов, асинхронных вариантов, tryCatch и isErrWith.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  andThen,
+  andThenAsync,
+  err,
+  type ErrorSpec,
+  FabError,
+  hasErrorInChain,
+  INVALID_ARGUMENT_SPEC,
+  isErr,
+  isErrWith,
+  isOk,
+  map,
+  mapAsync,
+  mapErr,
+  mapErrAsync,
+  match,
+  ok,
+  OPERATION_FAILED_SPEC,
+  type OperationFailedContext,
+  type Result,
+  tryCatch,
+  tryCatchAsync,
+  unwrap,
+  unwrapOr
+} from '../src/index.js'
+
+const PARSE_FAILED_SPEC: ErrorSpec<{ input: string }> = {
+  code: 'PARSE_FAILED',
+  messageTemplate: 'Failed to parse "{input}".'
+}
+
+function parseNumber (input: string): Result<number, FabError<{ input: string }>> {
+  const value = Number(input)
+  return Number.isNaN(value) ? err(new FabError(PARSE_FAILED_SPEC, { input })) : ok(value)
+}
+
+describe('result', () => {
+  it('ok() и err() должны создавать различимые результаты', () => {
+    const success = ok(1)
+    const failure = err(new FabError(PARSE_FAILED_SPEC, { input: 'x' }))
+
+    expect(success).toEqual({ ok: true, value: 1 })
+    expect(failure.ok).toBe(false)
+    expect(isOk(success)).toBe(true)
+    expect(isErr(failure)).toBe(true)
+  })
+
+  it('map() и mapErr() должны преобразовывать только соответствующую ветку', () => {
+    expect(map(parseNumber('2'), n => n * 10)).toEqual(ok(20))
+    const failed = map(parseNumber('x'), n => n * 10)
+    expect(failed.ok).toBe(false)
+
+    const wrapped = mapErr(parseNumber('x'), cause =>
+      new FabError<OperationFailedContext>(OPERATION_FAILED_SPEC, { operationName: 'parse' }, cause))
+    expect(wrapped.ok).toBe(false)
+    if (!wrapped.ok) {
+      expect(wrapped.error.code).toBe('FAB_OPERATION_FAILED')
+      expect(hasErrorInChain(wrapped.error, { code: 'PARSE_FAILED' })).toBe(true)
+    }
+    expect(mapErr(parseNumber('3'), e => e)).toEqual(ok(3))
+  })
+
+  it('andThen() должен продолжать вычисление только для успешного результата', () => {
+    const positive = (n: number): Result<number> => n > 0
+      ? ok(n)
+      : err(new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'n', reason: 'must be positive' }))
+
+    expect(andThen(parseNumber('5'), positive)).toEqual(ok(5))
+    expect(isErrWith(andThen(parseNumber('-1'), positive), { code: 'FAB_INVALID_ARGUMENT' })).toBe(true)
+    expect(isErrWith(andThen(parseNumber('x'), positive), { code: 'PARSE_FAILED' })).toBe(true)
+  })
+
+  it('unwrap() должен возвращать значение или выбрасывать ошибку', () => {
+    expect(unwrap(parseNumber('7'))).toBe(7)
+    expect(() => unwrap(parseNumber('x'))).toThrow(FabError)
+    expect(() => unwrap(parseNumber('x'))).toThrow('Failed to parse "x".')
+    expect(unwrapOr(parseNumber('x'), 0)).toBe(0)
+  })
+
+  it('match() должен вызывать обработчик соответствующей ветки', () => {
+    const describeResult = (result: Result<number, FabError<{ input: string }>>): string => match(result, {
+      ok: value => `value ${value}`,
+      err: error => `error ${error.code} for ${error.context.input}`
+    })
+
+    expect(describeResult(parseNumber('1'))).toBe('value 1')
+    expect(describeResult(parseNumber('y'))).toBe('error PARSE_FAILED for y')
+  })
+
+  it('асинхронные варианты должны принимать промисы результатов и асинхронные функции', async () => {
+    expect(await mapAsync(Promise.resolve(parseNumber('2')), async n => n + 1)).toEqual(ok(3))
+    expect(await andThenAsync(parseNumber('2'), async n => ok(String(n)))).toEqual(ok('2'))
+
+    const mapped = await mapErrAsync(Promise.resolve(parseNumber('z')), async cause =>
+      new FabError(OPERATION_FAILED_SPEC, { operationName: 'load' }, cause))
+    expect(isErrWith(mapped, { code: 'PARSE_FAILED' })).toBe(true)
+  })
+
+  it('tryCatch() должен оборачивать выброшенное значение в FabError с cause', () => {
+    const success = tryCatch(() => JSON.parse('{"a":1}') as unknown, OPERATION_FAILED_SPEC, { operationName: 'json' })
+    expect(success).toEqual(ok({ a: 1 }))
+
+    const failure = tryCatch(() => JSON.parse('{') as unknown, OPERATION_FAILED_SPEC, { operationName: 'json' })
+    expect(failure.ok).toBe(false)
+    if (!failure.ok) {
+      expect(failure.error.code).toBe('FAB_OPERATION_FAILED')
+      expect(failure.error.context.operationName).toBe('json')
+      expect(failure.error.cause).toBeInstanceOf(SyntaxError)
+    }
+    expect(isErrWith(failure, { type: SyntaxError })).toBe(true)
+  })
+
+  it('tryCatchAsync() должен превращать отклоненный промис в Err', async () => {
+    const failure = await tryCatchAsync(async () => {
+      throw new RangeError('too big')
+    }, OPERATION_FAILED_SPEC, { operationName: 'fetch' })
+
+    expect(isErrWith(failure, { type: RangeError, message: 'too big' })).toBe(true)
+    expect(await tryCatchAsync(async () => 42, OPERATION_FAILED_SPEC, { operationName: 'fetch' })).toEqual(ok(42))
+  })
+
+  it('isErrWith() должен возвращать false для успешного результата', () => {
+    expect(isErrWith(ok(1), { code: 'ANY' })).toBe(false)
+  })
+})
+
+// END OF: test/result.test.ts
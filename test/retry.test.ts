@@ -0,0 +1,161 @@
+/**
+ * @file test/retry.test.ts
+ * @description Юнит-тесты для повтора операций retry().
+ * @version 1.0.1
+ * @date 2026-10-19
+ * @updated Тест полей политики, переданных как undefined.
+ *
+ * HISTORY:
+ * v1.0.1 (2026-10-19): Тест полей политики, переданных как undefined.
+ * v1.0.0 (2026-10-19): Тесты критериев повтора, backoff, jitter, retry-after, дедлайна и ошибки FAB_RETRY_EXHAUSTED.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  AggregateFabError,
+  type Clock,
+  type ErrorSpec,
+  FabError,
+  hasErrorInChain,
+  INVALID_ARGUMENT_SPEC,
+  OPERATION_FAILED_SPEC,
+  retry,
+  type RetryExhaustedContext,
+  setFabErrorsDependencies
+} from '../src/index.js'
+
+const UNAVAILABLE_SPEC: ErrorSpec<{ service: string, retryAfterMs?: number }> = {
+  code: 'TEST_SERVICE_UNAVAILABLE',
+  messageTemplate: 'Service {service} is unavailable.',
+  retryable: true
+}
+
+/**
+ * Управляемые часы: sleep мгновенно сдвигает время и запоминает задержки.
+ */
+function createFakeClock (): Clock & { delays: number[] } {
+  let time = 0
+  const delays: number[] = []
+  return {
+    delays,
+    now: () => time,
+    sleep: async (ms) => {
+      delays.push(ms)
+      time += ms
+    }
+  }
+}
+
+function unavailable (retryAfterMs?: number): FabError<{ service: string, retryAfterMs?: number }> {
+  return new FabError(UNAVAILABLE_SPEC, { service: 'billing', retryAfterMs })
+}
+
+describe('retry()', () => {
+  afterEach(() => {
+    setFabErrorsDependencies({ random: Math.random })
+  })
+
+  it('должен повторять временные ошибки с экспоненциальной задержкой и возвращать результат', async () => {
+    const clock = createFakeClock()
+    const fn = vi.fn()
+      .mockRejectedValueOnce(unavailable())
+      .mockRejectedValueOnce(unavailable())
+      .mockResolvedValueOnce('done')
+
+    await expect(retry(fn, { clock, jitter: 0 })).resolves.toBe('done')
+
+    expect(fn).toHaveBeenCalledTimes(3)
+    expect(fn).toHaveBeenLastCalledWith(3)
+    expect(clock.delays).toEqual([100, 200])
+  })
+
+  it('должен оценивать критерии по всей цепочке', async () => {
+    const clock = createFakeClock()
+    const wrapped = FabError.wrap(new Error('ECONNRESET'), OPERATION_FAILED_SPEC, { operationName: 'charge' })
+    const fn = vi.fn().mockRejectedValueOnce(wrapped).mockResolvedValueOnce(42)
+
+    await expect(retry(fn, { clock, retryOn: [{ code: 'NET_TIMEOUT' }, { message: 'econnreset' }] })).resolves.toBe(42)
+  })
+
+  it('должен выбрасывать невременную ошибку первой попытки как есть', async () => {
+    const error = new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'id', reason: 'empty' })
+
+    await expect(retry(() => { throw error }, { clock: createFakeClock() })).rejects.toBe(error)
+  })
+
+  it('должен выбрасывать FAB_RETRY_EXHAUSTED с ошибками всех попыток', async () => {
+    const clock = createFakeClock()
+    const errors = [unavailable(), unavailable(), unavailable()]
+    let index = 0
+
+    const promise = retry(async () => { throw errors[index++] }, { clock, operationName: 'sync', jitter: 0 })
+
+    const thrown = await promise.catch((e: unknown) => e) as AggregateFabError<RetryExhaustedContext>
+    expect(thrown).toBeInstanceOf(AggregateFabError)
+    expect(thrown.code).toBe('FAB_RETRY_EXHAUSTED')
+    expect(thrown.message).toBe('Operation "sync" failed after 3 attempt(s): max attempts reached.')
+    expect(thrown.errors).toEqual(errors)
+    expect(thrown.context.elapsedMs).toBe(300)
+    expect(hasErrorInChain(thrown, { code: 'TEST_SERVICE_UNAVAILABLE' })).toBe(true)
+  })
+
+  it('должен прекращать повторы при невременной ошибке после повторов', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(unavailable())
+      .mockRejectedValueOnce(new TypeError('bad response'))
+
+    await expect(retry(fn, { clock: createFakeClock(), maxAttempts: 5 }))
+      .rejects.toMatchObject({ code: 'FAB_RETRY_EXHAUSTED', context: { attempts: 2, reason: 'non-retryable error' } })
+  })
+
+  it('должен применять jitter через внедренный random и ограничение maxDelayMs', async () => {
+    setFabErrorsDependencies({ random: () => 0.5 })
+    const clock = createFakeClock()
+    const onRetry = vi.fn()
+
+    await retry(async () => { throw unavailable() }, {
+      clock, maxAttempts: 4, initialDelayMs: 1000, maxDelayMs: 3000, jitter: 0.5, onRetry
+    }).catch(() => undefined)
+
+    expect(clock.delays).toEqual([750, 1500, 2250])
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delayMs: 750 }))
+  })
+
+  it('должен учитывать retry-after из контекста ошибки в цепочке', async () => {
+    const clock = createFakeClock()
+    const rateLimited = FabError.wrap(unavailable(5000), OPERATION_FAILED_SPEC, { operationName: 'fetch' })
+    const fn = vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValueOnce('ok')
+
+    await retry(fn, { clock, jitter: 0 })
+    expect(clock.delays).toEqual([5000])
+
+    const withoutLookup = vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValueOnce('ok')
+    await retry(withoutLookup, { clock, jitter: 0, retryAfterPath: false })
+    expect(clock.delays).toEqual([5000, 100])
+  })
+
+  it('должен прекращать повторы при превышении дедлайна', async () => {
+    const clock = createFakeClock()
+
+    await expect(retry(async () => { throw unavailable() }, { clock, jitter: 0, maxAttempts: 10, deadlineMs: 500 }))
+      .rejects.toMatchObject({ context: { attempts: 3, reason: 'deadline exceeded' } })
+    expect(clock.delays).toEqual([100, 200])
+  })
+
+  it('должен проверять maxAttempts', async () => {
+    await expect(retry(() => 1, { maxAttempts: 0 })).rejects.toThrow(/Invalid argument: policy.maxAttempts/)
+  })
+
+  it('должен использовать значения по умолчанию для полей политики, переданных как undefined', async () => {
+    const clock = createFakeClock()
+    const fn = vi.fn()
+      .mockRejectedValueOnce(unavailable())
+      .mockResolvedValueOnce('done')
+
+    await expect(retry(fn, { clock, jitter: 0, maxAttempts: undefined, retryOn: undefined, initialDelayMs: undefined }))
+      .resolves.toBe('done')
+    expect(clock.delays).toEqual([100])
+  })
+})
+
+// END OF: test/retry.test.ts
@@ -0,0 +1,186 @@
+/**
+ * @file test/rpc-status.test.ts
+ * @description Юнит-тесты для сопоставления FabError с кодами gRPC и JSON-RPC 2.0.
+ * @version 1.1.0
+ * @date 2026-10-19
+ * @updated Тесты publicContextKeys в metadata gRPC и data JSON-RPC.
+ *
+ * HISTORY:
+ * v1.1.0 (2026-10-19): Тесты publicContextKeys (контекст по умолчанию скрыт, argumentValue не передается) и значений bigint.
+ * v1.0.0 (2026-10-19): Тесты getGrpcStatus/getJsonRpcCode, toJsonRpcError/fromJsonRpcError, toGrpcStatus/fromGrpcStatus.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  type ErrorSpec,
+  FabError,
+  fromGrpcStatus,
+  fromJsonRpcError,
+  getGrpcStatus,
+  getJsonRpcCode,
+  GRPC_ERROR_INFO_TYPE,
+  GrpcStatus,
+  hasErrorInChain,
+  INVALID_ARGUMENT_SPEC,
+  JsonRpcErrorCode,
+  NOT_IMPLEMENTED_SPEC,
+  OPERATION_FAILED_SPEC,
+  toGrpcStatus,
+  toJsonRpcError
+} from '../src/index.js'
+
+const QUOTA_EXCEEDED_SPEC: ErrorSpec<{ limit: number, apiKey?: string }> = {
+  code: 'BILLING_QUOTA_EXCEEDED',
+  messageTemplate: 'Quota of {limit} requests exceeded.',
+  httpStatus: 429,
+  visibility: 'public',
+  publicContextKeys: ['limit', 'apiKey']
+}
+
+const ACCOUNT_LOCKED_SPEC: ErrorSpec<{ accountId: string }> = {
+  code: 'AUTH_ACCOUNT_LOCKED',
+  messageTemplate: 'Account {accountId} is locked.',
+  visibility: 'public',
+  publicContextKeys: ['accountId'],
+  grpcStatus: GrpcStatus.FAILED_PRECONDITION,
+  jsonRpcCode: -32010
+}
+
+describe('rpc-status', () => {
+  describe('getGrpcStatus() и getJsonRpcCode()', () => {
+    it('должны использовать сопоставление по умолчанию для базовых спецификаций', () => {
+      expect(getGrpcStatus(INVALID_ARGUMENT_SPEC)).toBe(GrpcStatus.INVALID_ARGUMENT)
+      expect(getJsonRpcCode(INVALID_ARGUMENT_SPEC)).toBe(JsonRpcErrorCode.INVALID_PARAMS)
+      expect(getGrpcStatus(NOT_IMPLEMENTED_SPEC)).toBe(GrpcStatus.UNIMPLEMENTED)
+      expect(getJsonRpcCode(NOT_IMPLEMENTED_SPEC)).toBe(JsonRpcErrorCode.METHOD_NOT_FOUND)
+      expect(getGrpcStatus(OPERATION_FAILED_SPEC)).toBe(GrpcStatus.INTERNAL)
+    })
+
+    it('должны учитывать переопределения спецификации и httpStatus', () => {
+      expect(getGrpcStatus(ACCOUNT_LOCKED_SPEC)).toBe(GrpcStatus.FAILED_PRECONDITION)
+      expect(getJsonRpcCode(new FabError(ACCOUNT_LOCKED_SPEC, { accountId: 'a1' }))).toBe(-32010)
+      expect(getGrpcStatus(QUOTA_EXCEEDED_SPEC)).toBe(GrpcStatus.RESOURCE_EXHAUSTED)
+      expect(getJsonRpcCode(QUOTA_EXCEEDED_SPEC)).toBe(JsonRpcErrorCode.SERVER_ERROR)
+      expect(getGrpcStatus({ code: 'PLAIN', messageTemplate: '' })).toBe(GrpcStatus.INTERNAL)
+      expect(getJsonRpcCode({ code: 'PLAIN', messageTemplate: '' })).toBe(JsonRpcErrorCode.INTERNAL_ERROR)
+    })
+  })
+
+  describe('JSON-RPC', () => {
+    it('toJsonRpcError() должен формировать объект ошибки с данными и causes', () => {
+      const cause = new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'limit', reason: 'negative' })
+      const error = new FabError(QUOTA_EXCEEDED_SPEC, { limit: 100, apiKey: 'k-1' }, cause)
+
+      expect(toJsonRpcError(error)).toEqual({
+        code: JsonRpcErrorCode.SERVER_ERROR,
+        message: 'Quota of 100 requests exceeded.',
+        data: {
+          code: 'BILLING_QUOTA_EXCEEDED',
+          context: { limit: 100, apiKey: '[REDACTED]' },
+          causes: [{
+            code: 'FAB_INVALID_ARGUMENT',
+            message: 'Invalid argument: limit. Reason: negative.',
+            context: { argumentName: 'limit', reason: 'negative' }
+          }]
+        }
+      })
+    })
+
+    it('toJsonRpcError() должен скрывать детали внутренних ошибок', () => {
+      const error = new FabError(OPERATION_FAILED_SPEC, { operationName: 'sync' })
+
+      expect(toJsonRpcError(error)).toEqual({ code: JsonRpcErrorCode.INTERNAL_ERROR, message: 'Internal error' })
+      expect(toJsonRpcError(error, { exposeInternal: true }).message).toBe('Operation "sync" failed. Reason: {reason}')
+      expect(toJsonRpcError('boom')).toEqual({ code: JsonRpcErrorCode.INTERNAL_ERROR, message: 'Internal error' })
+    })
+
+    it('toJsonRpcError() должен передавать только поля из publicContextKeys в JSON-совместимом виде', () => {
+      const spec: ErrorSpec<{ accountId: bigint, internalNote: string }> = {
+        code: 'AUTH_ACCOUNT_FROZEN',
+        messageTemplate: 'Account frozen.',
+        visibility: 'public'
+      }
+      const invalid = new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'password', argumentValue: 'hunter2', reason: 'too short' })
+
+      expect(toJsonRpcError(new FabError(spec, { accountId: 1n, internalNote: 'shard 3' })).data).toEqual({ code: 'AUTH_ACCOUNT_FROZEN', context: {} })
+      const payload = toJsonRpcError(new FabError({ ...spec, publicContextKeys: ['accountId'] }, { accountId: 1n, internalNote: 'x' }))
+      expect(JSON.parse(JSON.stringify(payload)).data.context).toEqual({ accountId: '1' })
+      expect((toJsonRpcError(invalid).data as { context: object }).context).toEqual({ argumentName: 'password', reason: 'too short' })
+    })
+
+    it('fromJsonRpcError() должен восстанавливать ошибку и цепочку causes', () => {
+      const cause = new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'limit', reason: 'negative' })
+      const payload = JSON.parse(JSON.stringify(toJsonRpcError(new FabError(QUOTA_EXCEEDED_SPEC, { limit: 5 }, cause)))) as unknown
+
+      const error = fromJsonRpcError(payload)
+
+      expect(error.code).toBe('BILLING_QUOTA_EXCEEDED')
+      expect(error.message).toBe('Quota of 5 requests exceeded.')
+      expect(error.context).toEqual({ limit: 5 })
+      expect(error.spec.jsonRpcCode).toBe(JsonRpcErrorCode.SERVER_ERROR)
+      expect((error.cause as FabError).spec).toBe(INVALID_ARGUMENT_SPEC)
+      expect(hasErrorInChain(error, { code: 'FAB_INVALID_ARGUMENT' })).toBe(true)
+    })
+
+    it('fromJsonRpcError() должен создавать FAB_RPC_ERROR без кода FabError и проверять вход', () => {
+      const error = fromJsonRpcError({ code: -32601, message: 'Method not found' })
+
+      expect(error.code).toBe('FAB_RPC_ERROR')
+      expect(error.message).toBe('Remote json-rpc error -32601: Method not found')
+      expect(() => fromJsonRpcError({ message: 'no code' })).toThrow(/Invalid argument: errorObject/)
+    })
+  })
+
+  describe('gRPC', () => {
+    it('toGrpcStatus() должен формировать status с google.rpc.ErrorInfo', () => {
+      const error = new FabError(ACCOUNT_LOCKED_SPEC, { accountId: 'a1' })
+
+      expect(toGrpcStatus(error, { domain: 'auth.example.com' })).toEqual({
+        code: GrpcStatus.FAILED_PRECONDITION,
+        message: 'Account a1 is locked.',
+        details: [{
+          '@type': GRPC_ERROR_INFO_TYPE,
+          reason: 'AUTH_ACCOUNT_LOCKED',
+          domain: 'auth.example.com',
+          metadata: { accountId: 'a1' }
+        }]
+      })
+    })
+
+    it('toGrpcStatus() должен приводить метаданные к строкам и скрывать внутренние ошибки', () => {
+      const status = toGrpcStatus(new FabError(QUOTA_EXCEEDED_SPEC, { limit: 10 }))
+      expect(status.details[0]).toMatchObject({ domain: 'fab-errors', metadata: { limit: '10' } })
+
+      expect(toGrpcStatus(new Error('db down'))).toEqual({ code: GrpcStatus.INTERNAL, message: 'Internal error', details: [] })
+    })
+
+    it('toGrpcStatus() должен передавать в metadata только поля из publicContextKeys', () => {
+      const invalid = new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'password', argumentValue: 'hunter2', reason: 'too short' })
+      const spec: ErrorSpec<{ accountId: bigint }> = { code: 'AUTH_ACCOUNT_FROZEN', messageTemplate: 'Account frozen.', visibility: 'public' }
+
+      expect(toGrpcStatus(invalid).details[0]).toMatchObject({ metadata: { argumentName: 'password', reason: 'too short' } })
+      expect(toGrpcStatus(invalid).details[0]).not.toHaveProperty('metadata.argumentValue')
+      expect(toGrpcStatus(new FabError(spec, { accountId: 2n })).details[0]).toHaveProperty('metadata', {})
+      expect(toGrpcStatus(new FabError({ ...spec, publicContextKeys: ['accountId'] }, { accountId: 2n })).details[0])
+        .toMatchObject({ metadata: { accountId: '2' } })
+    })
+
+    it('fromGrpcStatus() должен восстанавливать ошибку по ErrorInfo', () => {
+      const error = fromGrpcStatus(toGrpcStatus(new FabError(INVALID_ARGUMENT_SPEC, { argumentName: 'id', reason: 'empty' })))
+
+      expect(error.spec).toBe(INVALID_ARGUMENT_SPEC)
+      expect(error.context).toEqual({ argumentName: 'id', reason: 'empty' })
+      expect(error.message).toBe('Invalid argument: id. Reason: empty.')
+    })
+
+    it('fromGrpcStatus() должен создавать FAB_RPC_ERROR без ErrorInfo и проверять вход', () => {
+      const error = fromGrpcStatus({ code: GrpcStatus.UNAVAILABLE, message: 'connection refused', details: [] })
+
+      expect(error.code).toBe('FAB_RPC_ERROR')
+      expect(error.context).toEqual({ protocol: 'grpc', code: 14, message: 'connection refused' })
+      expect(() => fromGrpcStatus(null)).toThrow(/Invalid argument: status/)
+    })
+  })
+})
+
+// END OF: test/rpc-status.test.ts
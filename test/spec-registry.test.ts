@@ -0,0 +1,188 @@
+/**
+ * @file test/spec-registry.test.ts
+ * @description Юнит-тесты для реестра спецификаций ошибок.
+ * @version 1.1.1
+ * @date 2026-10-19
+ * @updated Спецификации с некорректным кодом не регистрируются в режиме warn.
+ *
+ * HISTORY:
+ * v1.1.1 (2026-10-19): Тест нестрокового кода в режиме warn и list() с префиксом.
+ * v1.1.0 (2026-10-19): Тесты дубликатов и некорректных кодов, list() с prefix/namespace, реестр по умолчанию.
+ * v1.0.0 (2026-10-19): Тесты регистрации, поиска и очистки реестра.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  createErrorSpecRegistry,
+  defaultErrorSpecRegistry,
+  type ErrorSpec,
+  FabError,
+  INVALID_ARGUMENT_SPEC,
+  isValidErrorCode,
+  type LoggerLike,
+  OPERATION_FAILED_SPEC,
+  setFabErrorsDependencies
+} from '../src/index.js'
+
+function createMockLogger (): LoggerLike {
+  return {
+    trace: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}
+
+const AUTH_LOGIN_SPEC: ErrorSpec = { code: 'AUTH_LOGIN_FAILED', messageTemplate: 'Login failed' }
+const AUTH_TOKEN_SPEC: ErrorSpec = { code: 'AUTH_TOKEN_EXPIRED', messageTemplate: 'Token expired' }
+const AUTHZ_SPEC: ErrorSpec = { code: 'AUTHZ_DENIED', messageTemplate: 'Access denied' }
+
+describe('spec-registry', () => {
+  afterEach(() => {
+    setFabErrorsDependencies({ logger: undefined })
+  })
+
+  describe('createErrorSpecRegistry()', () => {
+    it('должен регистрировать спецификации и находить их по коду', () => {
+      const registry = createErrorSpecRegistry()
+      registry.register(INVALID_ARGUMENT_SPEC, OPERATION_FAILED_SPEC)
+
+      expect(registry.get('FAB_INVALID_ARGUMENT')).toBe(INVALID_ARGUMENT_SPEC)
+      expect(registry.get('FAB_OPERATION_FAILED')).toBe(OPERATION_FAILED_SPEC)
+      expect(registry.has('FAB_INVALID_ARGUMENT')).toBe(true)
+    })
+
+    it('должен возвращать undefined для неизвестного кода', () => {
+      const registry = createErrorSpecRegistry()
+      expect(registry.get('UNKNOWN_CODE')).toBeUndefined()
+      expect(registry.has('UNKNOWN_CODE')).toBe(false)
+    })
+
+    it('должен игнорировать повторную регистрацию того же объекта спецификации', () => {
+      const registry = createErrorSpecRegistry()
+      registry.register(INVALID_ARGUMENT_SPEC)
+      expect(() => registry.register(INVALID_ARGUMENT_SPEC)).not.toThrow()
+      expect(registry.list()).toEqual([INVALID_ARGUMENT_SPEC])
+    })
+
+    it('должен выбрасывать FAB_SPEC_DUPLICATE_CODE при регистрации другой спецификации с тем же кодом', () => {
+      const registry = createErrorSpecRegistry()
+      const first: ErrorSpec = { code: 'SAME_CODE', messageTemplate: 'First' }
+      const second: ErrorSpec = { code: 'SAME_CODE', messageTemplate: 'Second' }
+      registry.register(first)
+
+      let thrown: unknown
+      try {
+        registry.register(second)
+      } catch (e) {
+        thrown = e
+      }
+
+      expect(thrown).toBeInstanceOf(FabError)
+      expect((thrown as FabError).code).toBe('FAB_SPEC_DUPLICATE_CODE')
+      expect((thrown as FabError).context).toEqual({ code: 'SAME_CODE' })
+      expect(registry.get('SAME_CODE')).toBe(first)
+    })
+
+    it('должен выбрасывать FAB_SPEC_INVALID_CODE для кода не в формате UPPER_SNAKE_CASE', () => {
+      const registry = createErrorSpecRegistry()
+      expect(() => registry.register({ code: 'bad-code', messageTemplate: 'Bad' }))
+        .toThrow(/Invalid error spec code "bad-code"/)
+      expect(registry.has('bad-code')).toBe(false)
+    })
+
+    it('в режиме warn должен сообщать о нарушениях через логгер и не падать', () => {
+      const logger = createMockLogger()
+      setFabErrorsDependencies({ logger })
+      const registry = createErrorSpecRegistry({ onViolation: 'warn' })
+      const first: ErrorSpec = { code: 'SAME_CODE', messageTemplate: 'First' }
+
+      registry.register(first, { code: 'SAME_CODE', messageTemplate: 'Second' }, { code: 'lower_case', messageTemplate: 'x' })
+
+      expect(registry.get('SAME_CODE')).toBe(first)
+      expect(registry.has('lower_case')).toBe(false)
+      expect(logger.warn).toHaveBeenCalledTimes(2)
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'FAB_SPEC_DUPLICATE_CODE' }),
+        expect.stringContaining('SAME_CODE')
+      )
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'FAB_SPEC_INVALID_CODE' }),
+        expect.stringContaining('lower_case')
+      )
+    })
+
+    it('в режиме warn не должен регистрировать спецификации с нестроковым кодом', () => {
+      const registry = createErrorSpecRegistry({ onViolation: 'warn' })
+      const invalid = { code: 42, messageTemplate: 'x' } as unknown as ErrorSpec
+
+      registry.register(invalid, AUTH_LOGIN_SPEC)
+
+      expect(registry.list()).toEqual([AUTH_LOGIN_SPEC])
+      expect(registry.list({ prefix: 'A' })).toEqual([AUTH_LOGIN_SPEC])
+    })
+
+    it('в режиме warn без логгера должен молча продолжать работу', () => {
+      const registry = createErrorSpecRegistry({ onViolation: 'warn' })
+      expect(() => registry.register({ code: 'bad', messageTemplate: 'x' })).not.toThrow()
+    })
+
+    it('должен возвращать список спецификаций с фильтрацией по префиксу и пространству имен', () => {
+      const registry = createErrorSpecRegistry()
+      registry.register(AUTH_LOGIN_SPEC, AUTH_TOKEN_SPEC, AUTHZ_SPEC, INVALID_ARGUMENT_SPEC)
+
+      expect(registry.list()).toEqual([AUTH_LOGIN_SPEC, AUTH_TOKEN_SPEC, AUTHZ_SPEC, INVALID_ARGUMENT_SPEC])
+      expect(registry.list({ prefix: 'AUTH' })).toEqual([AUTH_LOGIN_SPEC, AUTH_TOKEN_SPEC, AUTHZ_SPEC])
+      expect(registry.list({ namespace: 'AUTH' })).toEqual([AUTH_LOGIN_SPEC, AUTH_TOKEN_SPEC])
+      expect(registry.list({ prefix: 'AUTH_TOKEN' })).toEqual([AUTH_TOKEN_SPEC])
+    })
+
+    it('должен удалять спецификацию по коду через unregister', () => {
+      const registry = createErrorSpecRegistry()
+      registry.register(INVALID_ARGUMENT_SPEC)
+
+      expect(registry.unregister('FAB_INVALID_ARGUMENT')).toBe(true)
+      expect(registry.unregister('FAB_INVALID_ARGUMENT')).toBe(false)
+      expect(() => registry.register({ ...INVALID_ARGUMENT_SPEC })).not.toThrow()
+    })
+
+    it('должен очищать реестр', () => {
+      const registry = createErrorSpecRegistry()
+      registry.register(INVALID_ARGUMENT_SPEC)
+      registry.clear()
+
+      expect(registry.has('FAB_INVALID_ARGUMENT')).toBe(false)
+    })
+
+    it('должен создавать независимые экземпляры реестров', () => {
+      const registryA = createErrorSpecRegistry()
+      const registryB = createErrorSpecRegistry()
+      registryA.register(INVALID_ARGUMENT_SPEC)
+
+      expect(registryB.has('FAB_INVALID_ARGUMENT')).toBe(false)
+    })
+  })
+
+  describe('defaultErrorSpecRegistry', () => {
+    it('должен содержать базовые спецификации библиотеки', () => {
+      expect(defaultErrorSpecRegistry.get('FAB_INVALID_ARGUMENT')).toBe(INVALID_ARGUMENT_SPEC)
+      expect(defaultErrorSpecRegistry.list({ namespace: 'FAB' }).length).toBeGreaterThanOrEqual(4)
+    })
+  })
+
+  describe('isValidErrorCode()', () => {
+    it('должен принимать только коды в формате UPPER_SNAKE_CASE', () => {
+      expect(isValidErrorCode('FAB_INVALID_ARGUMENT')).toBe(true)
+      expect(isValidErrorCode('HTTP2_ERROR')).toBe(true)
+      expect(isValidErrorCode('lower_case')).toBe(false)
+      expect(isValidErrorCode('TRAILING_')).toBe(false)
+      expect(isValidErrorCode('DOUBLE__UNDERSCORE')).toBe(false)
+      expect(isValidErrorCode('1_STARTS_WITH_DIGIT')).toBe(false)
+      expect(isValidErrorCode('')).toBe(false)
+      expect(isValidErrorCode(42)).toBe(false)
+    })
+  })
+})
+
+// END OF: test/spec-registry.test.ts
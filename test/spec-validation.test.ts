@@ -0,0 +1,99 @@
+/**
+ * @file test/spec-validation.test.ts
+ * @description Юнит-тесты для проверки спецификаций во время выполнения (validateSpec).
+ * @version 1.0.1
+ * @date 2026-10-19
+ * @updated Тест форматтеров из spec.messageFormat.
+ *
+ * HISTORY:
+ * v1.0.1 (2026-10-19): Тест форматтеров из spec.messageFormat.formatters.
+ * v1.0.0 (2026-10-19): Тесты кодов, шаблонов, неизвестных/неиспользуемых плейсхолдеров и форматтеров.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { type ErrorSpec, FabError, INVALID_ARGUMENT_SPEC, validateSpec } from '../src/index.js'
+
+describe('validateSpec()', () => {
+  it('должен признавать корректную спецификацию валидной', () => {
+    const result = validateSpec(INVALID_ARGUMENT_SPEC, {
+      contextKeys: ['argumentName', 'argumentValue', 'reason', 'expected']
+    })
+
+    expect(result.valid).toBe(true)
+    expect(result.placeholders).toEqual(['argumentName', 'reason'])
+    expect(result.issues).toEqual([
+      expect.objectContaining({ kind: 'unused-context-key', severity: 'warning', key: 'argumentValue' }),
+      expect.objectContaining({ kind: 'unused-context-key', severity: 'warning', key: 'expected' })
+    ])
+  })
+
+  it('должен сообщать о плейсхолдерах, ссылающихся на неизвестные ключи', () => {
+    const spec: ErrorSpec = { code: 'OP_FAILED', messageTemplate: 'Operation {operatonName} failed: {details.reason}' }
+    const result = validateSpec(spec, { contextKeys: ['operationName', 'details'] })
+
+    expect(result.valid).toBe(false)
+    expect(result.issues).toContainEqual(expect.objectContaining({
+      kind: 'unknown-placeholder',
+      severity: 'error',
+      placeholder: '{operatonName}',
+      key: 'operatonName'
+    }))
+    expect(result.issues).toContainEqual(expect.objectContaining({ kind: 'unused-context-key', key: 'operationName' }))
+  })
+
+  it('должен учитывать ключи defaultContext как известные', () => {
+    const spec: ErrorSpec<{ retries: number, host: string }> = {
+      code: 'CONNECT_FAILED',
+      messageTemplate: 'Connect to {host} failed after {retries} retries',
+      defaultContext: { retries: 3 }
+    }
+
+    expect(validateSpec(spec).issues).toContainEqual(expect.objectContaining({ kind: 'unknown-placeholder', key: 'host' }))
+    expect(validateSpec(spec, { contextKeys: ['host'] }).valid).toBe(true)
+  })
+
+  it('не должен проверять неизвестные плейсхолдеры без сведений о ключах контекста', () => {
+    const result = validateSpec({ code: 'ANY_ERROR', messageTemplate: 'Anything {goes}' })
+    expect(result).toEqual({ valid: true, placeholders: ['goes'], issues: [] })
+  })
+
+  it('должен сообщать о некорректном коде и нестроковом шаблоне', () => {
+    const fromJson = JSON.parse('{"code":"bad code","messageTemplate":42}') as ErrorSpec
+    const result = validateSpec(fromJson)
+
+    expect(result.valid).toBe(false)
+    expect(result.issues.map(issue => issue.kind)).toEqual(['invalid-code', 'invalid-template'])
+  })
+
+  it('должен сообщать о неизвестных форматтерах с учетом дополнительных', () => {
+    const spec: ErrorSpec = { code: 'TIMEOUT', messageTemplate: 'Took {ms:seconds}, limit {limit:json}' }
+
+    expect(validateSpec(spec).issues).toEqual([
+      expect.objectContaining({ kind: 'unknown-formatter', placeholder: '{ms:seconds}' })
+    ])
+    expect(validateSpec(spec, { formatters: ['seconds'] }).valid).toBe(true)
+  })
+
+  it('должен считать известными форматтеры из spec.messageFormat.formatters', () => {
+    const spec: ErrorSpec<{ a: string }> = {
+      code: 'GREETING',
+      messageTemplate: 'Hi {a:shout}',
+      messageFormat: { formatters: { shout: value => String(value).toUpperCase() } }
+    }
+
+    expect(validateSpec(spec).issues).toEqual([])
+    expect(new FabError(spec, { a: 'bob' }).message).toBe('Hi BOB')
+  })
+
+  it('должен предупреждать о нераспознанных конструкциях в фигурных скобках', () => {
+    const spec: ErrorSpec = { code: 'WEIRD', messageTemplate: 'Value {user name} and {{escaped}} and {ok}' }
+    const result = validateSpec(spec)
+
+    expect(result.valid).toBe(true)
+    expect(result.issues).toEqual([
+      expect.objectContaining({ kind: 'malformed-placeholder', severity: 'warning', placeholder: '{user name}' })
+    ])
+  })
+})
+
+// END OF: test/spec-validation.test.ts
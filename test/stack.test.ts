@@ -0,0 +1,116 @@
+/**
+ * @file test/stack.test.ts
+ * @description Юнит-тесты для разбора стека вызовов и кадров в FabErrorJSON.
+ * @version 1.0.1
+ * @date 2026-10-19
+ * @updated Тесты кадров библиотеки в бандле и путях Windows.
+ *
+ * HISTORY:
+ * v1.0.1 (2026-10-19): Тесты распознавания кадров библиотеки в бандле приложения и в путях Windows.
+ * v1.0.0 (2026-10-19): Тесты разбора кадров V8, признаков кадров, удаления кадров библиотеки и настроек stackFrames.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest'
+import { FabError, OPERATION_FAILED_SPEC, parseStack, setFabErrorsConfig } from '../src/index.js'
+
+const V8_STACK = [
+  'Error: Query failed',
+  '    at new QueryError (/app/src/errors.ts:10:5)',
+  '    at Object.<anonymous> (/app/src/db.ts:42:11)',
+  '    at async loadUser (file:///app/src/users.js:7:3)',
+  '    at /app/node_modules/pg/lib/client.js:526:17',
+  '    at processTicksAndRejections (node:internal/process/task_queues:95:5)',
+  '    at Promise.all (index 0)'
+].join('\n')
+
+describe('stack', () => {
+  afterEach(() => {
+    setFabErrorsConfig({ stackFrames: { includeInJSON: true, stripLibraryFrames: true } })
+  })
+
+  describe('parseStack()', () => {
+    it('должен разбирать кадры V8 на функцию, файл, строку и столбец', () => {
+      const frames = parseStack(V8_STACK)
+
+      expect(frames).toHaveLength(6)
+      expect(frames[0]).toEqual({
+        functionName: 'new QueryError',
+        file: '/app/src/errors.ts',
+        line: 10,
+        column: 5,
+        isAsync: false,
+        isInternal: false,
+        isNodeModules: false,
+        isLibrary: false,
+        raw: 'at new QueryError (/app/src/errors.ts:10:5)'
+      })
+      expect(frames[2]).toMatchObject({ functionName: 'loadUser', file: 'file:///app/src/users.js', isAsync: true })
+      expect(frames[3]).toMatchObject({ file: '/app/node_modules/pg/lib/client.js', line: 526, isNodeModules: true })
+      expect(frames[3].functionName).toBeUndefined()
+      expect(frames[4]).toMatchObject({ file: 'node:internal/process/task_queues', isInternal: true })
+      expect(frames[5]).toEqual(expect.objectContaining({ functionName: 'Promise.all', isInternal: true }))
+      expect(frames[5].file).toBeUndefined()
+    })
+
+    it('должен разбирать кадры вида fn@file:line:col и пропускать прочие строки', () => {
+      const frames = parseStack('Error: mail to user@example.com:25\nloadUser@https://app.example.com/main.js:12:30\n@debugger eval code:1:1')
+
+      expect(frames).toHaveLength(1)
+      expect(frames[0]).toMatchObject({ functionName: 'loadUser', file: 'https://app.example.com/main.js', line: 12, column: 30 })
+      expect(parseStack(undefined)).toEqual([])
+    })
+  })
+
+  describe('кадры библиотеки', () => {
+    it('должен распознавать кадры библиотеки в бандле приложения по именам функций', () => {
+      const frames = parseStack([
+        'FabError: Operation "load" failed.',
+        '    at Function.wrap (/app/dist/bundle.js:1:2345)',
+        '    at Object.createDefinedError [as create] (/app/dist/bundle.js:1:3456)',
+        '    at loadUser (/app/dist/bundle.js:1:9876)',
+        '    at wrap (/app/dist/bundle.js:1:9990)'
+      ].join('\n'), { stripLibraryFrames: true })
+
+      expect(frames.map(frame => frame.functionName)).toEqual(['loadUser', 'wrap'])
+    })
+
+    it('должен распознавать кадры пакета библиотеки в путях Windows', () => {
+      const frames = parseStack([
+        'FabError: Query failed',
+        '    at describeProblem (C:\\app\\node_modules\\@fab33\\fab-errors\\dist\\fab-error.js:730:55)',
+        '    at helper (file:///C:/app/node_modules/@fab33/fab-errors/dist/format-chain.js:12:3)',
+        '    at loadUser (C:\\app\\src\\users.js:7:3)'
+      ].join('\n'))
+
+      expect(frames.map(frame => frame.isLibrary)).toEqual([true, true, false])
+      expect(frames[0]).toMatchObject({ file: 'C:\\app\\node_modules\\@fab33\\fab-errors\\dist\\fab-error.js', line: 730, isNodeModules: true })
+    })
+  })
+
+  describe('FabError', () => {
+    it('getStackFrames() должен удалять кадры библиотеки по умолчанию', () => {
+      const error = FabError.wrap(new Error('boom'), OPERATION_FAILED_SPEC, { operationName: 'load' })
+
+      expect(parseStack(error.stack).some(frame => frame.isLibrary)).toBe(true)
+      expect(error.getStackFrames()[0].file).toMatch(/stack\.test\.ts$/)
+      expect(error.getStackFrames({ stripLibraryFrames: false })[0].isLibrary).toBe(true)
+    })
+
+    it('toJSON() должен содержать frames для ошибки и причин согласно config.stackFrames', () => {
+      const error = FabError.wrap(new TypeError('bad'), OPERATION_FAILED_SPEC, { operationName: 'load' })
+
+      const json = error.toJSON()
+      expect(json.frames).toEqual(error.getStackFrames())
+      expect(json.cause?.frames).toEqual(parseStack((error.cause as Error).stack, { stripLibraryFrames: true }))
+      expect(json.stack).toBe(error.stack)
+
+      setFabErrorsConfig({ stackFrames: { stripLibraryFrames: false } })
+      expect(error.toJSON().frames?.[0].isLibrary).toBe(true)
+
+      setFabErrorsConfig({ stackFrames: { includeInJSON: false } })
+      expect(error.toJSON().frames).toBeUndefined()
+    })
+  })
+})
+
+// END OF: test/stack.test.ts
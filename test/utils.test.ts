@@ -0,0 +1,116 @@
+/**
+ * @file test/utils.test.ts
+ * @description Юнит-тесты для вспомогательных утилит (formatMessage, getValueByPath).
+ * @version 1.1.0
+ * @date 2026-10-19
+ * @updated Добавлены тесты parseTemplatePlaceholders.
+ *
+ * HISTORY:
+ * v1.1.0 (2026-10-19): Тесты parseTemplatePlaceholders.
+ * v1.0.0 (2026-10-19): Тесты вложенных путей, форматтеров, экранирования и политик пропусков.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { type ErrorSpec, FabError, formatMessage, getValueByPath, parseTemplatePlaceholders } from '../src/index.js'
+
+describe('utils', () => {
+  describe('formatMessage()', () => {
+    it('должен подставлять простые ключи и примитивы', () => {
+      expect(formatMessage('{a} {b} {c} {d}', { a: 'str', b: 42, c: true, d: 10n })).toBe('str 42 true 10')
+    })
+
+    it('должен поддерживать вложенные пути и индексы массивов', () => {
+      const context = {
+        user: { id: 'u-1', roles: ['admin', 'editor'] },
+        details: { items: [{ name: 'first' }] }
+      }
+      expect(formatMessage('User {user.id} is {user.roles[0]}', context)).toBe('User u-1 is admin')
+      expect(formatMessage('{details.items[0].name} / {details.items.0.name}', context)).toBe('first / first')
+    })
+
+    it('должен применять встроенные форматтеры', () => {
+      const context = { amount: 1234.5, list: ['a', 'b', 3], value: { id: 1 }, name: 'Mixed' }
+      expect(formatMessage('{amount:currency}', context)).toBe('$1,234.50')
+      expect(formatMessage('{amount:currency:EUR}', context)).toBe('€1,234.50')
+      expect(formatMessage('{list:join}', context)).toBe('a, b, 3')
+      expect(formatMessage('{list:join: | }', context)).toBe('a | b | 3')
+      expect(formatMessage('{value:json}', context)).toBe('{"id":1}')
+      expect(formatMessage('{name:upper} {name:lower}', context)).toBe('MIXED mixed')
+    })
+
+    it('должен использовать пользовательские форматтеры из опций', () => {
+      const result = formatMessage('Took {ms:seconds}', { ms: 2500 }, {
+        formatters: { seconds: (value) => typeof value === 'number' ? `${value / 1000}s` : undefined }
+      })
+      expect(result).toBe('Took 2.5s')
+    })
+
+    it('должен заменять экранированные скобки литеральными', () => {
+      expect(formatMessage('Use {{key}} syntax for {key}', { key: 'value' })).toBe('Use {key} syntax for value')
+      expect(formatMessage('JSON: {{"a": 1}}', {})).toBe('JSON: {"a": 1}')
+    })
+
+    it('должен по умолчанию оставлять плейсхолдеры для отсутствующих и неотображаемых значений', () => {
+      const context = { obj: { a: 1 }, nil: null }
+      expect(formatMessage('{missing} {obj} {nil} {obj.b.c}', context)).toBe('{missing} {obj} {nil} {obj.b.c}')
+      expect(formatMessage('{obj:unknownFormatter}', context)).toBe('{obj:unknownFormatter}')
+      expect(formatMessage('{obj:currency}', context)).toBe('{obj:currency}')
+    })
+
+    it('должен применять политики blank и marker для отсутствующих значений', () => {
+      expect(formatMessage('Value: [{missing}]', {}, { missing: 'blank' })).toBe('Value: []')
+      expect(formatMessage('Value: {user.id}', {}, { missing: 'marker' })).toBe('Value: <missing:user.id>')
+    })
+
+    it('должен вызывать собственный toString объектов', () => {
+      const withToString = { toString: () => 'custom' }
+      const throwingToString = {
+        toString: () => {
+          throw new Error('boom')
+        }
+      }
+      expect(formatMessage('{a} {b}', { a: withToString, b: throwingToString })).toBe('custom {b}')
+    })
+
+    it('должен оставлять нераспознанные конструкции без изменений', () => {
+      expect(formatMessage('{not a placeholder} {}', { not: 'x' })).toBe('{not a placeholder} {}')
+    })
+
+    it('должен возвращать пустую строку для нестрокового шаблона', () => {
+      expect(formatMessage(undefined as unknown as string, {})).toBe('')
+    })
+  })
+
+  describe('getValueByPath()', () => {
+    it('должен возвращать значение по пути или undefined', () => {
+      const source = { a: { b: [{ c: 1 }] } }
+      expect(getValueByPath(source, 'a.b[0].c')).toBe(1)
+      expect(getValueByPath(source, 'a.x.c')).toBeUndefined()
+      expect(getValueByPath(null, 'a')).toBeUndefined()
+    })
+  })
+
+  describe('parseTemplatePlaceholders()', () => {
+    it('должен возвращать плейсхолдеры с путями, форматтерами и аргументами', () => {
+      expect(parseTemplatePlaceholders('{{skip}} {user.id} {items[0]:json} {amount:currency:EUR} {bad one}')).toEqual([
+        { raw: '{user.id}', path: 'user.id', root: 'user', formatter: undefined, arg: undefined },
+        { raw: '{items[0]:json}', path: 'items[0]', root: 'items', formatter: 'json', arg: undefined },
+        { raw: '{amount:currency:EUR}', path: 'amount', root: 'amount', formatter: 'currency', arg: 'EUR' }
+      ])
+    })
+  })
+
+  describe('ErrorSpec.messageFormat', () => {
+    it('должен применяться при создании FabError', () => {
+      const spec: ErrorSpec<{ orderId: string, total?: number }> = {
+        code: 'ORDER_FAILED',
+        messageTemplate: 'Order {orderId} failed (total {total:currency}).',
+        messageFormat: { missing: 'marker' }
+      }
+      expect(new FabError(spec, { orderId: 'o-1', total: 5 }).message).toBe('Order o-1 failed (total $5.00).')
+      expect(new FabError(spec, { orderId: 'o-2' }).message).toBe('Order o-2 failed (total <missing:total>).')
+    })
+  })
+})
+
+// END OF: test/utils.test.ts